@@ -1,5 +1,9 @@
-import { ComponentContext, ComponentResult, HttpResponse } from '../../shared/models';
+import { ComponentContext, ComponentResult, HttpResponse, CassetteMatchMode, CassetteMissPolicy, NetworkProfileId } from '../../shared/models';
 import * as fs from 'fs';
+import { getCassetteStore } from '../store/cassetteStore';
+import { normalizeNetworkConditions, resolveNetworkConditions } from '../proxy/throttle';
+import { mapLocal } from './mapLocal';
+import { mapRemote } from './mapRemote';
 
 type BuiltinHandler = (
   config: any,
@@ -197,7 +201,9 @@ const builtinHandlers: Record<string, BuiltinHandler> = {
   // 4. JSON Body Modify
   jsonBodyModify: async (config, ctx) => {
     const ct = ctx.request.headers['content-type'] || ctx.request.headers['Content-Type'] || '';
-    if (!ctx.request.body || !String(ct).includes('application/json')) {
+    // Protobuf / gRPC body 已解码为 JSON，改写后由代理重新编码
+    if (!ctx.request.body || ctx.request.bodyEncoding === 'base64'
+      || (!String(ct).includes('application/json') && !ctx.request.protobuf)) {
       ctx.log('[jsonBodyModify] Not a JSON request, skip');
       return {};
     }
@@ -368,7 +374,7 @@ const builtinHandlers: Record<string, BuiltinHandler> = {
     return { request: { ...ctx.request, headers } };
   },
 
-  // 9. Bandwidth Throttle（简单：额外延时）
+  // 9. Bandwidth Throttle：额外延时，以及为当前请求指定网络环境（写入 ctx.vars.throttle，覆盖全局设置）
   bandwidthThrottle: async (config, ctx) => {
     const delayMs = typeof config.delayMs === 'number'
       ? config.delayMs
@@ -377,7 +383,21 @@ const builtinHandlers: Record<string, BuiltinHandler> = {
       ctx.log(`[bandwidthThrottle] Extra delay ${delayMs}ms`);
       await new Promise((resolve) => setTimeout(resolve, delayMs));
     }
-    return {};
+
+    const profile = String(config.profile || '').trim();
+    if (!profile) {
+      return {};
+    }
+    // none 表示本请求不整形（即使开启了全局网络环境）
+    const conditions = profile === 'none'
+      ? normalizeNetworkConditions({})
+      : resolveNetworkConditions(profile as NetworkProfileId, config);
+    if (!conditions) {
+      ctx.log(`[bandwidthThrottle] Unknown profile: ${profile}`);
+      return {};
+    }
+    ctx.log(`[bandwidthThrottle] Network profile ${profile}`);
+    return { vars: { throttle: conditions } };
   },
 
   // 10. Random Failure
@@ -401,7 +421,7 @@ const builtinHandlers: Record<string, BuiltinHandler> = {
     };
   },
 
-  // 11. Retry Hint（目前仅写入 ctx.vars，后续可在 ProxyEngine 中接入真实重试）
+  // 11. Retry Hint（写入 ctx.vars.retry，ProxyEngine 转发上游时按此重试）
   retryHint: async (config, ctx) => {
     const maxRetries = typeof config.maxRetries === 'number' ? config.maxRetries : Number(config.maxRetries || 3);
     const retryDelayMs = typeof config.retryDelayMs === 'number' ? config.retryDelayMs : Number(config.retryDelayMs || 1000);
@@ -416,8 +436,11 @@ const builtinHandlers: Record<string, BuiltinHandler> = {
       maxRetries: maxRetries || 0,
       retryDelayMs: retryDelayMs || 0,
       retryOnStatusCodes: codes,
+      retryOnNetworkError: config.retryOnNetworkError !== false,
+      backoff: !!config.backoff,
+      jitter: !!config.jitter,
     };
-    ctx.log('[retryHint] Attached retry metadata to ctx.vars.retry');
+    ctx.log(`[retryHint] Attached retry policy to ctx.vars.retry (max ${ctx.vars.retry.maxRetries})`);
     return {};
   },
 
@@ -493,6 +516,107 @@ const builtinHandlers: Record<string, BuiltinHandler> = {
     ctx.log(`[tagRequest] ${key}=${value}`);
     return {};
   },
+
+  // 16. WebSocket Frame Rewrite（仅在帧阶段生效）
+  wsFrameRewrite: async (config, ctx) => {
+    const frame = ctx.frame;
+    if (!frame) {
+      ctx.log('[wsFrameRewrite] No WebSocket frame in context, skip');
+      return {};
+    }
+
+    const direction = String(config.direction || 'both');
+    if (direction !== 'both' && direction !== frame.direction) {
+      return {};
+    }
+    if (frame.payloadEncoding !== 'text') {
+      return {};
+    }
+
+    const pattern = String(config.matchPattern || '');
+    let regex: RegExp | null = null;
+    if (pattern) {
+      try {
+        regex = new RegExp(pattern, 'g');
+      } catch {
+        ctx.log('[wsFrameRewrite] Invalid matchPattern');
+        return {};
+      }
+      if (!regex.test(frame.payload)) {
+        return {};
+      }
+      regex.lastIndex = 0;
+    }
+
+    if (config.drop) {
+      ctx.log(`[wsFrameRewrite] Dropped ${frame.direction} frame`);
+      return { frame: { ...frame, dropped: true } };
+    }
+
+    let result = frame;
+    if (regex && config.replaceWith !== undefined) {
+      result = { ...result, payload: frame.payload.replace(regex, String(config.replaceWith)) };
+      ctx.log(`[wsFrameRewrite] Rewrote ${frame.direction} frame`);
+    }
+    // 延迟由转发端执行，同方向后续的帧排在其后，顺序不变
+    const delayMs = Number(config.delayMs) || 0;
+    if (delayMs > 0) {
+      result = { ...result, delayMs: (result.delayMs || 0) + delayMs };
+      ctx.log(`[wsFrameRewrite] Delayed ${frame.direction} frame by ${delayMs}ms`);
+    }
+    return result === frame ? {} : { frame: result };
+  },
+
+  // 17. Upstream Proxy Select（仅对本次请求生效）
+  upstreamProxySelect: async (config, ctx) => {
+    const upstream = String(config.upstream || '').trim();
+    if (!upstream) return {};
+    ctx.log(`[upstreamProxySelect] ${upstream}`);
+    return { vars: { upstreamProxy: upstream } };
+  },
+
+  // 18. Map Local：URL 前缀映射到本地目录
+  mapLocal,
+
+  // 19. Replay From Cassette：从录制的 Cassette 中返回响应，不访问网络
+  replayFromCassette: async (config, ctx) => {
+    const ref = String(config.cassette || '').trim();
+    const cassette = ref ? getCassetteStore().find(ref) : undefined;
+    const mode = (['loose', 'normal', 'strict'].includes(config.matchMode) ? config.matchMode : 'normal') as CassetteMatchMode;
+    const onMiss = (['forward', 'not_found', 'error'].includes(config.onMiss) ? config.onMiss : 'forward') as CassetteMissPolicy;
+
+    if (!cassette) {
+      ctx.log(`[replayFromCassette] Cassette not found: ${ref}`);
+    } else {
+      const ignoreParams = String(config.ignoreParams || '')
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean);
+      const entry = getCassetteStore().replay(cassette, ctx.request, { mode, ignoreParams });
+      if (entry) {
+        ctx.log(`[replayFromCassette] Hit ${entry.method} ${entry.url} -> ${entry.response.statusCode}`);
+        return { response: { ...entry.response, headers: { ...entry.response.headers } }, terminate: true };
+      }
+      ctx.log(`[replayFromCassette] Miss ${ctx.request.method} ${ctx.request.url} (${mode}), ${onMiss}`);
+    }
+
+    if (onMiss === 'forward') {
+      return {};
+    }
+    const notFound = onMiss === 'not_found';
+    return {
+      response: {
+        statusCode: notFound ? 404 : 502,
+        statusMessage: notFound ? 'Not Found' : 'Cassette Miss',
+        headers: { 'content-type': 'text/plain' },
+        body: `No recorded response in cassette "${ref}" for ${ctx.request.method} ${ctx.request.url}`,
+      },
+      terminate: true,
+    };
+  },
+
+  // 20. Map Remote：按正则改写整个 URL，并把响应中的 Location / Set-Cookie 映射回原地址
+  mapRemote,
 };
 
 export async function executeBuiltinComponent(
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentContext, ComponentResult, HttpHeaders, HttpResponse } from '../../shared/models';
+import { bodyFromBuffer, mimeTypeOf } from '../proxy/bodyCodec';
+
+// 按扩展名推断 Content-Type，未知类型按二进制下载处理
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.bmp': 'image/bmp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.wasm': 'application/wasm',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+};
+
+function contentTypeOf(filePath: string): string {
+  const mimeType = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+  const isText = mimeType.startsWith('text/') || ['application/json', 'application/xml', 'image/svg+xml'].includes(mimeType);
+  return isText ? `${mimeType}; charset=utf-8` : mimeType;
+}
+
+function plainResponse(statusCode: number, statusMessage: string, body: string): HttpResponse {
+  return { statusCode, statusMessage, headers: { 'content-type': 'text/plain; charset=utf-8' }, body };
+}
+
+/**
+ * 把 URL 前缀之后的部分解析为目录下的文件路径；越出目录（..、绝对路径、空字节）时返回 null。
+ */
+function resolveLocalPath(root: string, subPath: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(subPath);
+  } catch {
+    return null;
+  }
+  if (decoded.includes('\0')) return null;
+
+  const resolved = path.resolve(root, '.' + path.sep + decoded);
+  if (resolved !== root && !resolved.startsWith(root.endsWith(path.sep) ? root : root + path.sep)) {
+    return null;
+  }
+  return resolved;
+}
+
+// 前缀按路径段匹配：/app 匹配 /app 和 /app/...，不匹配 /application/...；不在前缀下时返回 null
+function subPathAfterPrefix(pathname: string, prefixPath: string): string | null {
+  if (!pathname.startsWith(prefixPath)) return null;
+  const rest = pathname.slice(prefixPath.length);
+  return rest === '' || rest.startsWith('/') || prefixPath.endsWith('/') ? rest : null;
+}
+
+// 只支持单个区间（bytes=a-b、bytes=a-、bytes=-n）；多区间按完整文件返回
+function parseRange(header: string, size: number): { start: number; end: number } | 'invalid' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+  const [, from, to] = match;
+  if (!from && !to) return 'invalid';
+
+  let start: number;
+  let end: number;
+  if (!from) {
+    // 最后 n 个字节
+    start = Math.max(0, size - Number(to));
+    end = size - 1;
+  } else {
+    start = Number(from);
+    end = to ? Math.min(Number(to), size - 1) : size - 1;
+  }
+  if (start > end || start >= size) return 'invalid';
+  return { start, end };
+}
+
+/**
+ * Map Local：把某个 URL 前缀映射到本地目录，按子路径返回文件（二进制原样返回），
+ * 支持 index 文件、ETag / Last-Modified 条件请求和 Range 请求。
+ */
+export async function mapLocal(config: any, ctx: ComponentContext): Promise<ComponentResult> {
+  const prefix = String(config.urlPrefix || '').trim().replace(/\*+$/, '');
+  const directory = String(config.directory || '').trim();
+  if (!prefix || !directory) return {};
+
+  const method = ctx.request.method.toUpperCase();
+  if (method !== 'GET' && method !== 'HEAD') return {};
+
+  let subPath: string;
+  try {
+    const requestUrl = new URL(ctx.request.url);
+    const prefixUrl = new URL(prefix);
+    const rest = requestUrl.origin === prefixUrl.origin ? subPathAfterPrefix(requestUrl.pathname, prefixUrl.pathname) : null;
+    if (rest === null) {
+      return {};
+    }
+    subPath = rest;
+  } catch {
+    ctx.log('[mapLocal] Invalid URL prefix or request URL, skip');
+    return {};
+  }
+
+  const root = path.resolve(directory);
+  let filePath = resolveLocalPath(root, subPath);
+  if (!filePath) {
+    ctx.log(`[mapLocal] Rejected path outside of ${root}: ${subPath}`);
+    return { response: plainResponse(403, 'Forbidden', 'Path is outside of the mapped directory'), terminate: true };
+  }
+
+  let stat: fs.Stats | undefined;
+  try {
+    stat = fs.statSync(filePath);
+    if (stat.isDirectory()) {
+      filePath = path.join(filePath, String(config.indexFile || 'index.html'));
+      stat = fs.statSync(filePath);
+    }
+  } catch {
+    stat = undefined;
+  }
+
+  if (!stat || !stat.isFile()) {
+    if (config.onMiss === 'forward') {
+      ctx.log(`[mapLocal] No local file for ${ctx.request.url}, forwarding`);
+      return {};
+    }
+    ctx.log(`[mapLocal] No local file for ${ctx.request.url}`);
+    return { response: plainResponse(404, 'Not Found', `No local file for ${subPath || '/'}`), terminate: true };
+  }
+
+  const etag = `W/"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+  const lastModified = stat.mtime.toUTCString();
+  const headers: HttpHeaders = {
+    'content-type': contentTypeOf(filePath),
+    'etag': etag,
+    'last-modified': lastModified,
+    'accept-ranges': 'bytes',
+    'cache-control': 'no-cache',
+  };
+
+  // 条件请求：If-None-Match 优先于 If-Modified-Since
+  const ifNoneMatch = ctx.request.headers['if-none-match'];
+  const ifModifiedSince = ctx.request.headers['if-modified-since'];
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').map((s) => s.trim()).some((tag) => tag === '*' || tag === etag || `W/${tag}` === etag)
+    : !!ifModifiedSince && Math.floor(stat.mtimeMs / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+  if (notModified) {
+    ctx.log(`[mapLocal] 304 ${filePath}`);
+    return { response: { statusCode: 304, statusMessage: 'Not Modified', headers }, terminate: true };
+  }
+
+  const content = fs.readFileSync(filePath);
+
+  // Range 请求；If-Range 与当前文件不一致时忽略 Range，返回完整文件
+  const rangeHeader = ctx.request.headers['range'];
+  const ifRange = ctx.request.headers['if-range'];
+  if (rangeHeader && (!ifRange || ifRange === etag || ifRange === lastModified)) {
+    const range = parseRange(rangeHeader, content.length);
+    if (range === 'invalid') {
+      return {
+        response: { ...plainResponse(416, 'Range Not Satisfiable', ''), headers: { ...headers, 'content-range': `bytes */${content.length}` } },
+        terminate: true,
+      };
+    }
+    if (range) {
+      const part = content.subarray(range.start, range.end + 1);
+      ctx.log(`[mapLocal] 206 ${filePath} bytes ${range.start}-${range.end}`);
+      return {
+        response: {
+          statusCode: 206,
+          statusMessage: 'Partial Content',
+          headers: { ...headers, 'content-range': `bytes ${range.start}-${range.end}/${content.length}` },
+          ...bodyFromBuffer(part),
+          contentType: mimeTypeOf(headers['content-type']),
+          bodySize: part.length,
+        },
+        terminate: true,
+      };
+    }
+  }
+
+  ctx.log(`[mapLocal] Served ${filePath}`);
+  return {
+    response: {
+      statusCode: 200,
+      statusMessage: 'OK',
+      headers,
+      ...bodyFromBuffer(content),
+      contentType: mimeTypeOf(headers['content-type']),
+      bodySize: content.length,
+    },
+    terminate: true,
+  };
+}
@@ -0,0 +1,129 @@
+import { ComponentContext, ComponentResult, HttpHeaders } from '../../shared/models';
+
+// 请求被改写后的映射关系（写入 ctx.vars.mapRemote），代理收到上游响应后据此改写 Location / Set-Cookie
+export interface MapRemoteMapping {
+  originalUrl: string;
+  mappedUrl: string;
+  originalBase: string;   // 如 https://api.prod.com/v1
+  mappedBase: string;     // 如 http://localhost:3000/api
+}
+
+/**
+ * 原始 URL 与改写后 URL 去掉共同的路径后缀（按 / 对齐）后得到两边的基础地址，用于反向映射响应中的地址。
+ */
+function mappingBases(original: URL, mapped: URL): { originalBase: string; mappedBase: string } {
+  const a = original.pathname;
+  const b = mapped.pathname;
+  let common = 0;
+  while (common < a.length && common < b.length && a[a.length - 1 - common] === b[b.length - 1 - common]) {
+    common++;
+  }
+  let suffix = a.slice(a.length - common);
+  const slash = suffix.indexOf('/');
+  suffix = slash >= 0 ? suffix.slice(slash) : '';
+  return {
+    originalBase: original.origin + a.slice(0, a.length - suffix.length),
+    mappedBase: mapped.origin + b.slice(0, b.length - suffix.length),
+  };
+}
+
+// url 位于 base 之下时返回其余部分，否则返回 null
+function restAfter(url: string, base: string): string | null {
+  if (!url.startsWith(base)) return null;
+  const rest = url.slice(base.length);
+  return rest === '' || /^[/?#]/.test(rest) || base.endsWith('/') ? rest : null;
+}
+
+/**
+ * Map Remote：按正则（可带捕获组）改写整个 URL，如 https://api.prod.com/v1/(.*) → http://localhost:3000/api/$1。
+ */
+export async function mapRemote(config: any, ctx: ComponentContext): Promise<ComponentResult> {
+  const pattern = String(config.pattern || '').trim();
+  const target = String(config.target || '').trim();
+  if (!pattern || !target) return {};
+
+  let regex: RegExp;
+  let original: URL;
+  try {
+    // 只锚定开头：未被匹配的剩余部分原样接在目标之后
+    regex = new RegExp(`^(?:${pattern})`, 'i');
+    original = new URL(ctx.request.url);
+  } catch {
+    ctx.log('[mapRemote] Invalid pattern or request URL, skip');
+    return {};
+  }
+
+  // 匹配不含 query 的 URL，query 按 keepQuery 决定是否保留
+  const withoutQuery = `${original.origin}${original.pathname}`;
+  if (!regex.test(withoutQuery)) return {};
+
+  let mapped: URL;
+  try {
+    mapped = new URL(withoutQuery.replace(regex, target));
+  } catch {
+    ctx.log(`[mapRemote] Target is not a valid URL: ${withoutQuery.replace(regex, target)}`);
+    return {};
+  }
+  if (config.keepQuery !== false && original.search) {
+    mapped.search = mapped.search ? `${mapped.search}&${original.search.slice(1)}` : original.search;
+  }
+
+  const request = { ...ctx.request, url: mapped.toString(), headers: { ...ctx.request.headers } };
+  if (!config.preserveHost) {
+    request.headers['host'] = mapped.host;
+  }
+  ctx.log(`[mapRemote] ${ctx.request.url} -> ${request.url}`);
+
+  if (config.rewriteResponse === false) {
+    return { request };
+  }
+  const mapping: MapRemoteMapping = {
+    originalUrl: ctx.request.url,
+    mappedUrl: request.url,
+    ...mappingBases(original, mapped),
+  };
+  return { request, vars: { mapRemote: mapping } };
+}
+
+/**
+ * 把上游响应中的 Location 与 Set-Cookie 的 Domain / Path 映射回原始地址，使重定向和 Cookie 在映射后仍然可用。
+ */
+export function rewriteMappedResponseHeaders(headers: HttpHeaders, mapping: MapRemoteMapping): HttpHeaders {
+  const result = { ...headers };
+  const original = new URL(mapping.originalUrl);
+  const mapped = new URL(mapping.mappedUrl);
+
+  if (result['location']) {
+    try {
+      // 相对地址按改写后的请求解析，客户端看到的是原始地址，必须改为绝对地址
+      const location = new URL(result['location'], mapping.mappedUrl).toString();
+      const rest = restAfter(location, mapping.mappedBase);
+      if (rest !== null) {
+        result['location'] = mapping.originalBase + rest;
+      } else if (location.startsWith(mapped.origin + '/')) {
+        result['location'] = original.origin + location.slice(mapped.origin.length);
+      }
+    } catch {
+      // 无法解析的 Location 原样返回
+    }
+  }
+
+  if (result['set-cookie']) {
+    const originalBasePath = new URL(mapping.originalBase).pathname;
+    const mappedBasePath = new URL(mapping.mappedBase).pathname;
+    result['set-cookie'] = result['set-cookie']
+      .replace(/;\s*domain=\.?([^;,\s]+)/gi, (attr, domain: string) =>
+        domain.toLowerCase() === mapped.hostname.toLowerCase() ? `; Domain=${original.hostname}` : attr
+      )
+      .replace(/;\s*path=([^;,\s]*)/gi, (attr, cookiePath: string) => {
+        const rest = restAfter(cookiePath, mappedBasePath);
+        return rest === null ? attr : `; Path=${originalBasePath + rest || '/'}`;
+      });
+    // 原始地址是 http 时，上游（https）设置的 Secure Cookie 在客户端无法保存
+    if (original.protocol === 'http:' && mapped.protocol === 'https:') {
+      result['set-cookie'] = result['set-cookie'].replace(/;\s*secure(?=\s*(;|,|$))/gi, '');
+    }
+  }
+
+  return result;
+}
@@ -1,70 +1,177 @@
-import { ComponentContext, ComponentResult } from '../../shared/models';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ComponentContext, ComponentResult, ScriptCapability } from '../../shared/models';
+import type { ScriptRunMessage, ScriptWorkerMessage } from './scriptWorker';
 
+// 单次执行的默认时间 / 内存上限
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 5000;
+export const DEFAULT_SCRIPT_MEMORY_MB = 64;
+// 同时执行脚本的线程数上限，超出时排队
+const MAX_SCRIPT_WORKERS = 4;
+
+export interface ScriptRunOptions {
+  capabilities?: ScriptCapability[];
+  timeoutMs?: number;
+  memoryLimitMB?: number;
+}
+
+/**
+ * 脚本线程池：每个线程同时只执行一个脚本；超时或超出内存时直接结束该线程，不影响代理和其他脚本。
+ * 内存上限在创建线程时设定，因此空闲线程按内存上限分组复用。
+ */
+class ScriptWorkerPool {
+  private idle: Map<number, Worker[]> = new Map();
+  private size = 0;
+  private waiting: Array<() => void> = [];
+  private nextId = 1;
+
+  async run(message: Omit<ScriptRunMessage, 'id'>, memoryLimitMB: number, log: (msg: string) => void): Promise<any> {
+    const worker = await this.acquire(memoryLimitMB);
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const finish = (error: Error | null, result?: any, reusable = false) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        if (reusable) {
+          this.release(worker, memoryLimitMB);
+        } else {
+          this.discard(worker);
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      };
+
+      const onMessage = (msg: ScriptWorkerMessage) => {
+        if (msg.id !== id) return;
+        if (msg.type === 'log') {
+          log(msg.message);
+        } else if (msg.type === 'result') {
+          finish(null, msg.result, true);
+        } else {
+          finish(new Error(msg.error), undefined, true);
+        }
+      };
+      const onError = (error: Error & { code?: string }) => {
+        finish(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new Error(`Script exceeded the memory limit of ${memoryLimitMB} MB`)
+          : error);
+      };
+      const onExit = () => finish(new Error('Script worker exited unexpectedly'));
+      // 死循环或未结束的异步操作：结束线程
+      const timer = setTimeout(() => {
+        finish(new Error(`Script timed out after ${message.timeoutMs}ms`));
+      }, message.timeoutMs);
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      try {
+        worker.postMessage({ ...message, id });
+      } catch (error) {
+        // ctx 中有无法复制到线程的值（如函数）
+        finish(error as Error, undefined, true);
+      }
+    });
+  }
+
+  private async acquire(memoryLimitMB: number): Promise<Worker> {
+    for (;;) {
+      const worker = this.idle.get(memoryLimitMB)?.pop();
+      if (worker) return worker;
+
+      if (this.size < MAX_SCRIPT_WORKERS) {
+        this.size++;
+        return this.spawn(memoryLimitMB);
+      }
+      // 线程数已满：其他内存上限的空闲线程可以让出名额
+      const spare = Array.from(this.idle.values()).find((workers) => workers.length > 0)?.pop();
+      if (spare) {
+        this.discard(spare);
+        continue;
+      }
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+  }
+
+  private spawn(memoryLimitMB: number): Worker {
+    // 脚本线程不继承环境变量；--experimental-vm-modules 见 runSandboxedScript
+    const worker = new Worker(path.join(__dirname, 'scriptWorker.js'), {
+      resourceLimits: { maxOldGenerationSizeMb: memoryLimitMB },
+      execArgv: ['--experimental-vm-modules'],
+      env: {},
+    });
+    // 空闲线程不阻止进程退出
+    worker.unref();
+    return worker;
+  }
+
+  private release(worker: Worker, memoryLimitMB: number): void {
+    const workers = this.idle.get(memoryLimitMB) || [];
+    workers.push(worker);
+    this.idle.set(memoryLimitMB, workers);
+    this.waiting.shift()?.();
+  }
+
+  private discard(worker: Worker): void {
+    this.size--;
+    worker.terminate().catch(() => undefined);
+    this.waiting.shift()?.();
+  }
+}
+
+const pool = new ScriptWorkerPool();
+
+/**
+ * 在独立线程的沙盒中执行脚本组件。脚本只能访问 config、ctx、console 和 options.capabilities 开放的能力；
+ * 超时、超出内存或脚本抛错时 reject，由调用方写入 Flow 日志。
+ */
 export async function executeScriptComponent(
   scriptCode: string,
   config: any,
-  ctx: ComponentContext
+  ctx: ComponentContext,
+  options: ScriptRunOptions = {}
 ): Promise<ComponentResult> {
-  try {
-    // 创建一个简单的沙盒环境
-    // 注意：生产环境应该使用更安全的沙盒如 vm2 或 isolated-vm
-    const sandbox = {
-      config,
+  const result = await pool.run(
+    {
+      scriptCode,
+      config: config === undefined ? {} : JSON.parse(JSON.stringify(config)),
       ctx: {
-        request: JSON.parse(JSON.stringify(ctx.request)),
-        response: ctx.response ? JSON.parse(JSON.stringify(ctx.response)) : undefined,
-        vars: { ...ctx.vars },
-        log: ctx.log,
-      },
-      console: {
-        log: (...args: any[]) => ctx.log(args.map(String).join(' ')),
-        error: (...args: any[]) => ctx.log('[ERROR] ' + args.map(String).join(' ')),
+        request: ctx.request,
+        response: ctx.response,
+        frame: ctx.frame,
+        vars: ctx.vars,
       },
-      setTimeout: undefined,
-      setInterval: undefined,
-      fetch: undefined,
-      require: undefined,
-    };
-
-    // 包装脚本代码
-    const wrappedCode = `
-      (async function(config, ctx, console) {
-        ${scriptCode}
-        
-        // 如果脚本导出了 run 函数
-        if (typeof run === 'function') {
-          return await run(config, ctx);
-        }
-        
-        // 否则返回修改后的 ctx
-        return {
-          request: ctx.request,
-          response: ctx.response,
-          vars: ctx.vars,
-        };
-      })
-    `;
-
-    const fn = eval(wrappedCode);
-    const result = await fn(sandbox.config, sandbox.ctx, sandbox.console);
+      capabilities: options.capabilities || [],
+      timeoutMs: options.timeoutMs || DEFAULT_SCRIPT_TIMEOUT_MS,
+    },
+    options.memoryLimitMB || DEFAULT_SCRIPT_MEMORY_MB,
+    ctx.log
+  );
 
-    return {
-      request: result?.request,
-      response: result?.response,
-      vars: result?.vars,
-      terminate: result?.terminate,
-    };
-  } catch (error) {
-    ctx.log(`[Script Error] ${(error as Error).message}`);
-    throw error;
-  }
+  return {
+    request: result?.request,
+    response: result?.response,
+    frame: result?.frame,
+    vars: result?.vars,
+    terminate: result?.terminate,
+  };
 }
 
 // 组件调试执行器
 export async function debugScriptComponent(
   scriptCode: string,
   config: any,
-  ctx: ComponentContext
+  ctx: ComponentContext,
+  options: ScriptRunOptions = {}
 ): Promise<{
   result: ComponentResult;
   logs: string[];
@@ -75,12 +182,13 @@ export async function debugScriptComponent(
     ...ctx,
     request: JSON.parse(JSON.stringify(ctx.request)),
     response: ctx.response ? JSON.parse(JSON.stringify(ctx.response)) : undefined,
+    frame: ctx.frame ? { ...ctx.frame } : undefined,
     vars: { ...ctx.vars },
     log: (msg) => logs.push(msg),
   };
 
   try {
-    const result = await executeScriptComponent(scriptCode, config, debugCtx);
+    const result = await executeScriptComponent(scriptCode, config, debugCtx, options);
     return { result, logs };
   } catch (error) {
     return {
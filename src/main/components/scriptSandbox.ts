@@ -0,0 +1,440 @@
+import * as crypto from 'crypto';
+import * as vm from 'vm';
+import { ScriptCapability } from '../../shared/models';
+
+// 受控 fetch 读取的响应 body 上限
+const FETCH_MAX_BYTES = 5 * 1024 * 1024;
+
+export interface SandboxScript {
+  scriptCode: string;
+  config: any;
+  ctx: {
+    request: any;
+    response?: any;
+    frame?: any;
+    vars: Record<string, any>;
+  };
+  capabilities: ScriptCapability[];
+  timeoutMs: number;
+}
+
+// 沙盒调用宿主：参数与返回值都是 JSON 字符串
+type HostCall = (op: string, payload: string) => string;
+
+interface SandboxEntry {
+  start(main: unknown): void;
+  // 宿主触发沙盒中等待的回调（定时器到期、fetch 完成）
+  dispatch(callbackId: number, payload: string): void;
+}
+
+/**
+ * 沙盒内的引导代码，以源码形式在沙盒上下文中执行，因此其中的 Promise、Error、Uint8Array 等都属于沙盒。
+ * 脚本能访问的全局对象都在这里创建；宿主只通过 hostCall 以字符串往来，宿主的函数和异常不会进入脚本。
+ */
+function sandboxBootstrap(hostCall: HostCall, input: string): SandboxEntry {
+  'use strict';
+  const global = globalThis as any;
+  const { parse, stringify } = JSON;
+  const fromCharCode = String.fromCharCode;
+  const callbacks = new Map<number, (reply: any) => void>();
+  const timers = new Set<number>();
+  let nextCallbackId = 1;
+
+  const call = (op: string, args: unknown): any => {
+    const payload = stringify(args === undefined ? null : args);
+    let reply: string;
+    try {
+      reply = hostCall(op, payload);
+    } catch {
+      // 宿主侧的异常（如栈溢出）不能交给脚本
+      throw new Error(`Sandbox call failed: ${op}`);
+    }
+    const { value, error } = parse(reply);
+    if (error !== undefined) {
+      throw new Error(error);
+    }
+    return value;
+  };
+  const describe = (error: any): string => {
+    try {
+      return String(error instanceof Error ? error.message : error);
+    } catch {
+      return 'Script error';
+    }
+  };
+  const fail = (error: unknown) => call('fail', describe(error));
+
+  // 字节在沙盒与宿主之间以 latin1 字符串传递
+  const toBinary = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return binary;
+  };
+  class SandboxBytes extends Uint8Array {
+    toString(encoding = 'utf8'): string {
+      return call('buffer.decode', [toBinary(this), encoding]);
+    }
+
+    toJSON() {
+      return { type: 'Buffer', data: Array.from(this) };
+    }
+  }
+  const fromBinary = (binary: string): SandboxBytes => {
+    const bytes = new SandboxBytes(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  };
+  const toBytes = (value: any, encoding?: string): SandboxBytes =>
+    typeof value === 'string' ? fromBinary(call('buffer.encode', [value, encoding || 'utf8'])) : new SandboxBytes(value);
+
+  const sandboxBuffer = {
+    from: (value: any, encoding?: string) => toBytes(value, encoding),
+    alloc: (size: number, fill = 0) => new SandboxBytes(size).fill(fill),
+    concat: (list: Uint8Array[]) => {
+      const out = new SandboxBytes(list.reduce((total, bytes) => total + bytes.length, 0));
+      let offset = 0;
+      for (const bytes of list) {
+        out.set(bytes, offset);
+        offset += bytes.length;
+      }
+      return out;
+    },
+    isBuffer: (value: unknown) => value instanceof SandboxBytes,
+    byteLength: (value: any, encoding?: string) => toBytes(value, encoding).length,
+  };
+
+  // createHash / createHmac：update 的数据累积在沙盒中，digest 时一次交给宿主计算
+  const digester = (op: string, algorithm: string, key?: any) => {
+    const chunks: string[] = [];
+    return {
+      update(data: any, encoding?: string) {
+        chunks.push(toBinary(toBytes(data, encoding)));
+        return this;
+      },
+      digest(encoding?: string) {
+        const digest = fromBinary(call(op, {
+          algorithm,
+          key: key === undefined ? undefined : toBinary(toBytes(key)),
+          data: chunks.join(''),
+        }));
+        return encoding ? digest.toString(encoding) : digest;
+      },
+    };
+  };
+  const sandboxCrypto = {
+    createHash: (algorithm: string) => digester('crypto.hash', String(algorithm)),
+    createHmac: (algorithm: string, key: any) => digester('crypto.hmac', String(algorithm), key),
+    randomBytes: (size: number) => fromBinary(call('crypto.randomBytes', Number(size))),
+    randomUUID: (): string => call('crypto.randomUUID', null),
+  };
+
+  const setTimer = (callback: (...args: any[]) => void, delay?: number, ...args: any[]): number => {
+    if (typeof callback !== 'function') {
+      throw new TypeError('setTimeout callback must be a function');
+    }
+    const id = nextCallbackId++;
+    callbacks.set(id, () => callback(...args));
+    timers.add(id);
+    call('timers.set', [id, Number(delay) || 0]);
+    return id;
+  };
+  const clearTimer = (id: number) => {
+    if (timers.delete(id)) {
+      callbacks.delete(id);
+      call('timers.clear', id);
+    }
+  };
+
+  // 返回精简的响应对象（status、headers、text()、json()）
+  const sandboxFetch = (input: unknown, init: any = {}) =>
+    new Promise((resolve, reject) => {
+      const id = nextCallbackId++;
+      callbacks.set(id, ({ value, error }) => {
+        if (error !== undefined) {
+          reject(new Error(error));
+          return;
+        }
+        const { body, ...response } = value;
+        resolve({ ...response, text: async () => body, json: async () => parse(body) });
+      });
+      try {
+        call('fetch', [id, String(input), { method: init.method, headers: init.headers, body: init.body }]);
+      } catch (error) {
+        callbacks.delete(id);
+        throw error;
+      }
+    });
+
+  const { config, ctx, capabilities } = parse(input);
+  const log = (message: string) => call('log', message);
+  ctx.log = (msg: any) => log(String(msg));
+  global.config = config;
+  global.ctx = ctx;
+  global.console = {
+    log: (...args: any[]) => log(args.map(String).join(' ')),
+    error: (...args: any[]) => log('[ERROR] ' + args.map(String).join(' ')),
+  };
+  if (capabilities.includes('crypto')) {
+    global.crypto = sandboxCrypto;
+  }
+  if (capabilities.includes('buffer')) {
+    global.Buffer = sandboxBuffer;
+  }
+  if (capabilities.includes('timers')) {
+    global.setTimeout = setTimer;
+    global.clearTimeout = clearTimer;
+  }
+  if (capabilities.includes('fetch')) {
+    global.fetch = sandboxFetch;
+  }
+
+  return {
+    start(main) {
+      let result: unknown;
+      try {
+        result = (main as () => unknown)();
+      } catch (error) {
+        fail(error);
+        return;
+      }
+      Promise.resolve(result).then((value) => {
+        try {
+          call('done', value === undefined ? null : value);
+        } catch (error) {
+          fail(error);
+        }
+      }, fail);
+    },
+    dispatch(callbackId, payload) {
+      const callback = callbacks.get(callbackId);
+      if (!callback) return;
+      callbacks.delete(callbackId);
+      timers.delete(callbackId);
+      try {
+        callback(parse(payload));
+      } catch (error) {
+        fail(error);
+      }
+    },
+  };
+}
+
+const BOOTSTRAP = new vm.Script(`(${sandboxBootstrap.toString()})`, { filename: 'sandbox-bootstrap.js' });
+
+function errorMessage(error: unknown): string {
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String((error as Error).message);
+  }
+  return String(error);
+}
+
+function checkEncoding(encoding: unknown): BufferEncoding {
+  const name = String(encoding);
+  if (!Buffer.isEncoding(name)) {
+    throw new Error(`Unknown encoding: ${name}`);
+  }
+  return name;
+}
+
+/**
+ * 受控 fetch：只允许 http / https，body 读取有上限；运行结束时未完成的请求随 signal 取消。
+ */
+async function fetchForScript(
+  input: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string },
+  signal: AbortSignal
+) {
+  const url = new URL(input);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`fetch only supports http and https: ${url.protocol}`);
+  }
+  const res = await fetch(url, {
+    method: init.method === undefined ? undefined : String(init.method),
+    headers: init.headers,
+    body: init.body === undefined || init.body === null ? undefined : String(init.body),
+    signal,
+  });
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  if (res.body) {
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > FETCH_MAX_BYTES) {
+        await reader.cancel();
+        throw new Error(`fetch response exceeds ${FETCH_MAX_BYTES} bytes`);
+      }
+      chunks.push(Buffer.from(value));
+    }
+  }
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return {
+    ok: res.ok,
+    status: res.status,
+    statusText: res.statusText,
+    url: res.url,
+    headers,
+    body: Buffer.concat(chunks).toString('utf-8'),
+  };
+}
+
+/**
+ * 在新的 vm 上下文中执行脚本：上下文禁止由字符串生成代码和 WebAssembly，
+ * 脚本只能看到引导代码创建的 config、ctx、console 和已开放的能力；定时器与 fetch 在运行结束时一并取消。
+ * import() 需要 --experimental-vm-modules 才会交给下面的回调，否则 Node 会以宿主的异常拒绝，脚本可借此逃出沙盒，
+ * 因此执行脚本的线程需要带上该参数。
+ */
+export function runSandboxedScript(script: SandboxScript, log: (text: string) => void): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const capabilities = new Set(script.capabilities);
+    const timers = new Map<number, NodeJS.Timeout>();
+    const requests = new Set<AbortController>();
+    let dispatch: SandboxEntry['dispatch'] | undefined;
+    let settled = false;
+
+    const settle = (error: Error | null, result?: any) => {
+      if (settled) return;
+      settled = true;
+      timers.forEach((timer) => clearTimeout(timer));
+      requests.forEach((controller) => controller.abort());
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+    const reply = (callbackId: number, payload: { value?: unknown; error?: string } | null) => {
+      if (settled || !dispatch) return;
+      try {
+        dispatch(callbackId, JSON.stringify(payload));
+      } catch (error) {
+        settle(new Error(errorMessage(error)));
+      }
+    };
+    const requireCapability = (capability: ScriptCapability) => {
+      if (!capabilities.has(capability)) {
+        throw new Error(`Capability not granted: ${capability}`);
+      }
+    };
+
+    const handle = (op: string, args: any): unknown => {
+      switch (op) {
+        case 'log':
+          log(String(args));
+          return undefined;
+        case 'done':
+          settle(null, args);
+          return undefined;
+        case 'fail':
+          settle(new Error(String(args)));
+          return undefined;
+        case 'buffer.encode':
+          return Buffer.from(String(args[0]), checkEncoding(args[1])).toString('latin1');
+        case 'buffer.decode':
+          return Buffer.from(String(args[0]), 'latin1').toString(checkEncoding(args[1]));
+        case 'crypto.hash':
+          requireCapability('crypto');
+          return crypto.createHash(String(args.algorithm)).update(Buffer.from(String(args.data), 'latin1')).digest().toString('latin1');
+        case 'crypto.hmac':
+          requireCapability('crypto');
+          return crypto
+            .createHmac(String(args.algorithm), Buffer.from(String(args.key ?? ''), 'latin1'))
+            .update(Buffer.from(String(args.data), 'latin1'))
+            .digest().toString('latin1');
+        case 'crypto.randomBytes':
+          requireCapability('crypto');
+          return crypto.randomBytes(Number(args)).toString('latin1');
+        case 'crypto.randomUUID':
+          requireCapability('crypto');
+          return crypto.randomUUID();
+        case 'timers.set': {
+          requireCapability('timers');
+          const id = Number(args[0]);
+          timers.set(id, setTimeout(() => {
+            timers.delete(id);
+            reply(id, null);
+          }, Number(args[1]) || 0));
+          return undefined;
+        }
+        case 'timers.clear':
+          clearTimeout(timers.get(Number(args)));
+          timers.delete(Number(args));
+          return undefined;
+        case 'fetch': {
+          requireCapability('fetch');
+          const id = Number(args[0]);
+          const controller = new AbortController();
+          requests.add(controller);
+          fetchForScript(String(args[1]), args[2] || {}, controller.signal)
+            .then((value) => reply(id, { value }), (error) => reply(id, { error: errorMessage(error) }))
+            .finally(() => requests.delete(controller));
+          return undefined;
+        }
+        default:
+          throw new Error(`Unknown sandbox call: ${op}`);
+      }
+    };
+
+    const hostCall: HostCall = (op, payload) => {
+      try {
+        const value = handle(String(op), JSON.parse(String(payload)));
+        return JSON.stringify({ value: value === undefined ? null : value });
+      } catch (error) {
+        return JSON.stringify({ error: errorMessage(error) });
+      }
+    };
+
+    try {
+      // 全局对象的属性先在传入的对象上查找，普通对象会把宿主的 Object（this.constructor）带进沙盒，因此不带原型
+      const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+      // 在脚本运行前取得沙盒自己的 Error，import() 以它拒绝
+      const SandboxError = vm.runInContext('Error', context) as ErrorConstructor;
+      const createEntry = BOOTSTRAP.runInContext(context) as (hostCall: HostCall, input: string) => SandboxEntry;
+      const entry = createEntry(hostCall, JSON.stringify({
+        config: script.config,
+        ctx: script.ctx,
+        capabilities: script.capabilities,
+      }));
+      dispatch = entry.dispatch;
+      const start = entry.start;
+
+      const wrappedCode = `
+        (async function() {
+          ${script.scriptCode}
+
+          // 如果脚本定义了 run 函数
+          if (typeof run === 'function') {
+            return await run(config, ctx);
+          }
+
+          // 否则返回修改后的 ctx
+          return {
+            request: ctx.request,
+            response: ctx.response,
+            frame: ctx.frame,
+            vars: ctx.vars,
+          };
+        })
+      `;
+      const main = new vm.Script(wrappedCode, {
+        filename: 'component.js',
+        importModuleDynamically: () => {
+          throw new SandboxError('import() is not available in scripts');
+        },
+      }).runInContext(context);
+      start(main);
+    } catch (error) {
+      settle(new Error(errorMessage(error)));
+    }
+  });
+}
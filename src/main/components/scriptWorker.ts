@@ -0,0 +1,29 @@
+import { parentPort } from 'worker_threads';
+import { SandboxScript, runSandboxedScript } from './scriptSandbox';
+
+// 在独立线程中执行脚本组件：脚本运行在 vm 沙盒里，只有 config、ctx、console 和显式开放的能力
+
+export interface ScriptRunMessage extends SandboxScript {
+  id: number;
+}
+
+export type ScriptWorkerMessage =
+  | { type: 'log'; id: number; message: string }
+  | { type: 'result'; id: number; result: any }
+  | { type: 'error'; id: number; error: string };
+
+function post(message: ScriptWorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+// 脚本中未处理的 Promise 拒绝不结束线程
+process.on('unhandledRejection', () => undefined);
+
+parentPort?.on('message', async (message: ScriptRunMessage) => {
+  try {
+    const log = (text: string) => post({ type: 'log', id: message.id, message: text });
+    post({ type: 'result', id: message.id, result: await runSandboxedScript(message, log) });
+  } catch (error) {
+    post({ type: 'error', id: message.id, error: (error as Error)?.message || String(error) });
+  }
+});
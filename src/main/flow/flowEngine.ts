@@ -4,23 +4,49 @@ import {
   FlowDefinition,
   FlowNode,
   EntryNode,
+  ResponseEntryNode,
+  FrameEntryNode,
   ComponentNode,
   ConditionNode,
+  SwitchNode,
+  SWITCH_DEFAULT_LABEL,
+  SubFlowNode,
   TerminatorNode,
   ComponentContext,
   ComponentResult,
+  WebSocketFrame,
+  FlowPhase,
+  FlowTraceStep,
 } from '../../shared/models';
 import { FlowStore } from '../store/flowStore';
 import { ComponentStore } from '../store/componentStore';
 import { executeBuiltinComponent } from '../components/builtins';
 import { executeScriptComponent } from '../components/scriptRunner';
+import { matchRule, matchRuleWithoutBody } from './matcher';
+import { diffContext, snapshotContext } from './trace';
 
-interface FlowProcessResult {
+export interface FlowProcessResult {
   request: HttpRequest;
   response?: HttpResponse;
+  // 第一个匹配的 Flow；matchedFlowIds 为依次执行的全部 Flow（continueToNext 链）
   matchedFlowId?: string;
+  matchedFlowIds?: string[];
+  // 请求阶段结束时的 ctx.vars，响应阶段会在此基础上继续
+  vars?: Record<string, any>;
+  // 帧阶段处理后的 WebSocket 帧
+  frame?: WebSocketFrame;
+  // 请求阶段（及之后的响应阶段）逐节点的执行轨迹
+  trace?: FlowTraceStep[];
 }
 
+// runFromNode 的结果：terminated 表示 Flow 以终止结束（组件要求终止或以 end_with_response 结束），调用它的父 Flow 随之终止
+interface NodeRunResult extends FlowProcessResult {
+  terminated: boolean;
+}
+
+// 子 Flow 最多嵌套的层数
+const MAX_SUBFLOW_DEPTH = 8;
+
 export class FlowEngine {
   private flowStore: FlowStore;
   private componentStore: ComponentStore;
@@ -30,23 +56,116 @@ export class FlowEngine {
     this.componentStore = componentStore;
   }
 
+  /**
+   * 按顺序执行匹配的 Flow：默认只执行第一个匹配的 Flow；该 Flow 开启 continueToNext 且没有给出响应时，
+   * 以改写后的请求和 ctx.vars 继续匹配并执行后面的 Flow。
+   */
   async processRequest(request: HttpRequest): Promise<FlowProcessResult> {
-    const flows = this.flowStore.getEnabled();
-    const matchedFlow = this.findMatchingFlow(flows, request);
+    const matchedFlowIds: string[] = [];
+    const trace: FlowTraceStep[] = [];
+    let result: FlowProcessResult = { request };
+
+    for (const flow of this.flowStore.getEnabled()) {
+      const match = this.matchFlow(flow, result.request);
+      if (!match) continue;
+
+      result = await this.runFlow(flow, result.request, (msg) => {
+        console.log(`[flow:${flow.id}] ${msg}`);
+      }, match.matchedBy, result.vars);
+      matchedFlowIds.push(flow.id);
+      trace.push(...(result.trace || []));
+
+      if (result.response || !flow.continueToNext) break;
+    }
 
-    if (!matchedFlow) {
+    if (!matchedFlowIds.length) {
       return { request };
     }
+    return { ...result, matchedFlowId: matchedFlowIds[0], matchedFlowIds, trace };
+  }
 
-    return this.runFlow(matchedFlow, request, (msg) => {
-      console.log(`[flow:${matchedFlow.id}] ${msg}`);
-    });
+  // 请求 body 是否需要完整读取：会执行到 buffered 模式的 Flow，或需要 body 才能判断是否匹配时才需要，否则边读边转发
+  needsRequestBody(request: HttpRequest): boolean {
+    for (const flow of this.flowStore.getEnabled()) {
+      const entryNode = this.findEntryNode(flow);
+      if (!entryNode) continue;
+      const matched = matchRuleWithoutBody(request, entryNode.match);
+      if (matched === null) return true;
+      if (!matched) continue;
+      if (this.isBuffered(flow)) return true;
+      // streaming 模式的 Flow：只有继续执行后面的 Flow 时才需要再往下看
+      if (!flow.continueToNext) return false;
+    }
+    return false;
+  }
+
+  // 上游响应 body 是否需要完整读取：任一匹配的 Flow 为 buffered 模式且含响应阶段
+  needsResponseBody(flowResult: FlowProcessResult): boolean {
+    return this.matchedFlows(flowResult).some((flow) => this.isBuffered(flow) && !!this.findResponseEntryNode(flow));
+  }
+
+  // 上游响应返回后，按匹配顺序执行各 Flow 的响应阶段（从 response_entry 节点开始），轨迹追加到 flowResult.trace
+  async processResponse(flowResult: FlowProcessResult, response: HttpResponse): Promise<HttpResponse> {
+    let current = response;
+    let vars = flowResult.vars;
+    for (const flow of this.matchedFlows(flowResult)) {
+      if (!this.findResponseEntryNode(flow)) continue;
+      const result = await this.runResponsePhase(flow, { ...flowResult, vars }, current, (msg) => {
+        console.log(`[flow:${flow.id}:response] ${msg}`);
+      });
+      current = result.response || current;
+      vars = result.vars;
+    }
+    return current;
+  }
+
+  // 是否需要对该握手匹配到的 Flow 执行逐帧处理
+  hasFramePhase(flowResult: FlowProcessResult): boolean {
+    return this.matchedFlows(flowResult).some((flow) => !!this.findFrameEntryNode(flow));
+  }
+
+  // WebSocket 帧阶段：按匹配顺序从各 Flow 的 frame_entry 节点执行，返回处理后的帧（dropped 表示丢弃）
+  async processFrame(flowResult: FlowProcessResult, frame: WebSocketFrame): Promise<WebSocketFrame> {
+    let current = frame;
+    for (const flow of this.matchedFlows(flowResult)) {
+      const frameEntryNode = this.findFrameEntryNode(flow);
+      if (!frameEntryNode) continue;
+
+      const ctx: ComponentContext = {
+        request: { ...flowResult.request },
+        frame: { ...current },
+        vars: { ...(flowResult.vars || {}) },
+        log: (msg) => console.log(`[flow:${flow.id}:frame] ${msg}`),
+      };
+
+      // 帧阶段逐帧执行，不记录轨迹
+      const result = await this.runFromNode(flow, frameEntryNode.id, ctx, 'frame');
+      current = result.frame || current;
+      if (current.dropped) break;
+    }
+    return current;
   }
 
-  // 调试单个 Flow，收集日志
-  async debugFlow(flow: FlowDefinition, request: HttpRequest): Promise<{ result: FlowProcessResult; logs: string[] }> {
+  // 调试单个 Flow，收集日志与执行轨迹；提供 response 时同时调试响应阶段
+  async debugFlow(
+    flow: FlowDefinition,
+    request: HttpRequest,
+    response?: HttpResponse,
+  ): Promise<{ result: FlowProcessResult; logs: string[] }> {
     const logs: string[] = [];
-    const result = await this.runFlow(flow, request, (msg) => logs.push(msg));
+    const logger = (msg: string) => logs.push(msg);
+    const entryNode = this.findEntryNode(flow);
+    const match = entryNode ? matchRule(request, entryNode.match) : undefined;
+    if (match && !match.matched) {
+      logs.push('Entry rule does not match this request, running the flow anyway');
+    }
+    const result = await this.runFlow(flow, request, logger, match?.matchedBy);
+
+    if (!result.response && response && this.findResponseEntryNode(flow)) {
+      logs.push('--- response phase ---');
+      const responseResult = await this.runResponsePhase(flow, result, response, logger);
+      return { result: responseResult, logs };
+    }
     return { result, logs };
   }
 
@@ -54,33 +173,99 @@ export class FlowEngine {
     flow: FlowDefinition,
     request: HttpRequest,
     logger?: (msg: string) => void,
+    matchedBy?: string[],
+    vars: Record<string, any> = {},
   ): Promise<FlowProcessResult> {
     const ctx: ComponentContext = {
       request: { ...request },
       response: undefined,
-      vars: {},
+      vars: { ...vars },
       log: (msg) => logger && logger(msg),
     };
 
     const entryNode = this.findEntryNode(flow);
     if (!entryNode) {
-      return { request, matchedFlowId: flow.id };
+      return { request, matchedFlowId: flow.id, trace: [] };
+    }
+
+    const trace: FlowTraceStep[] = [];
+    const result = await this.runFromNode(flow, entryNode.id, ctx, 'request', trace);
+    // 第一步即 Entry 节点，记录命中的匹配条件
+    if (matchedBy?.length && trace[0]) {
+      trace[0].matchedBy = matchedBy;
+    }
+    return result;
+  }
+
+  private async runResponsePhase(
+    flow: FlowDefinition,
+    flowResult: FlowProcessResult,
+    response: HttpResponse,
+    logger?: (msg: string) => void,
+  ): Promise<FlowProcessResult> {
+    const ctx: ComponentContext = {
+      request: { ...flowResult.request },
+      response: { ...response, headers: { ...response.headers } },
+      vars: { ...(flowResult.vars || {}) },
+      log: (msg) => logger && logger(msg),
+    };
+
+    const responseEntryNode = this.findResponseEntryNode(flow);
+    if (!responseEntryNode) {
+      return { ...flowResult, response };
     }
 
-    let currentNodeId: string | null = entryNode.id;
+    const result = await this.runFromNode(flow, responseEntryNode.id, ctx, 'response', flowResult.trace || []);
+    // 响应阶段总是产出响应：即使节点清空了 ctx.response，也回退到上游响应
+    return { ...result, response: result.response || response };
+  }
+
+  private async runFromNode(
+    flow: FlowDefinition,
+    startNodeId: string,
+    ctx: ComponentContext,
+    phase: FlowPhase,
+    trace?: FlowTraceStep[],
+    callStack: string[] = [flow.id],
+  ): Promise<NodeRunResult> {
+    let currentNodeId: string | null = startNodeId;
+
+    const finish = (withResponse: boolean, terminated = false): NodeRunResult => ({
+      request: ctx.request,
+      response: withResponse ? ctx.response : undefined,
+      matchedFlowId: flow.id,
+      vars: ctx.vars,
+      frame: ctx.frame,
+      trace,
+      terminated,
+    });
 
     while (currentNodeId) {
       const node = this.getNode(flow, currentNodeId);
       if (!node) break;
 
+      const step: FlowTraceStep = {
+        flowId: flow.id,
+        flowName: flow.name,
+        nodeId: node.id,
+        nodeType: node.type,
+        nodeName: node.name,
+        phase,
+      };
+      trace?.push(step);
+
       switch (node.type) {
         case 'entry':
+        case 'response_entry':
+        case 'frame_entry':
           currentNodeId = this.getNextNodeId(flow, node.id);
           break;
 
         case 'component': {
           const componentNode = node as ComponentNode;
-          const result = await this.executeComponentNode(componentNode, ctx);
+          const before = trace ? snapshotContext(ctx) : undefined;
+          const startedAt = Date.now();
+          const { result, error } = await this.executeComponentNode(componentNode, ctx);
 
           if (result.request) {
             ctx.request = result.request;
@@ -88,15 +273,39 @@ export class FlowEngine {
           if (result.response) {
             ctx.response = result.response;
           }
+          if (result.frame) {
+            ctx.frame = result.frame;
+          }
           if (result.vars) {
             ctx.vars = { ...ctx.vars, ...result.vars };
           }
+
+          step.durationMs = Date.now() - startedAt;
+          step.error = error;
+          if (before) {
+            step.changes = diffContext(before, ctx);
+          }
           if (result.terminate) {
-            return {
-              request: ctx.request,
-              response: ctx.response,
-              matchedFlowId: flow.id,
-            };
+            step.terminated = true;
+            return finish(true, true);
+          }
+          currentNodeId = this.getNextNodeId(flow, node.id);
+          break;
+        }
+
+        case 'subflow': {
+          const before = trace ? snapshotContext(ctx) : undefined;
+          const startedAt = Date.now();
+          const { terminated, error } = await this.runSubFlow(node as SubFlowNode, ctx, phase, trace, callStack);
+
+          step.durationMs = Date.now() - startedAt;
+          step.error = error;
+          if (before) {
+            step.changes = diffContext(before, ctx);
+          }
+          if (terminated) {
+            step.terminated = true;
+            return finish(true, true);
           }
           currentNodeId = this.getNextNodeId(flow, node.id);
           break;
@@ -104,7 +313,9 @@ export class FlowEngine {
 
         case 'condition': {
           const conditionNode = node as ConditionNode;
-          const result = this.evalCondition(conditionNode.expression, ctx);
+          const { result, error } = this.evalCondition(conditionNode.expression, ctx);
+          step.conditionResult = result;
+          step.error = error;
           currentNodeId = this.getNextNodeIdByLabel(
             flow,
             node.id,
@@ -113,98 +324,86 @@ export class FlowEngine {
           break;
         }
 
+        case 'switch': {
+          const switchNode = node as SwitchNode;
+          const { value, error } = this.evalExpression(switchNode.expression, ctx);
+          const label = value === undefined || value === null ? '' : String(value);
+          // 值不在 cases 中（或表达式出错）时走默认分支
+          step.branch = (switchNode.cases || []).includes(label) ? label : SWITCH_DEFAULT_LABEL;
+          step.error = error;
+          currentNodeId = this.getNextNodeIdByLabel(flow, node.id, step.branch);
+          break;
+        }
+
         case 'terminator': {
           const terminatorNode = node as TerminatorNode;
-          if (terminatorNode.mode === 'end_with_response' && ctx.response) {
-            return {
-              request: ctx.request,
-              response: ctx.response,
-              matchedFlowId: flow.id,
-            };
+          const endWithResponse = terminatorNode.mode === 'end_with_response';
+          // 响应阶段中 ctx.response 就是（可能已被修改的）上游响应，两种模式都原样返回；帧阶段同理
+          if (phase !== 'request') {
+            return finish(true, endWithResponse);
           }
-          return {
-            request: ctx.request,
-            matchedFlowId: flow.id,
-          };
+          return finish(endWithResponse && !!ctx.response, endWithResponse && !!ctx.response);
         }
       }
     }
 
-    return {
-      request: ctx.request,
-      response: ctx.response,
-      matchedFlowId: flow.id,
-    };
+    return finish(true);
   }
 
-  private findMatchingFlow(
-    flows: FlowDefinition[],
-    request: HttpRequest
-  ): FlowDefinition | null {
-    for (const flow of flows) {
-      const entryNode = this.findEntryNode(flow);
-      if (entryNode && this.matchesRule(request, entryNode.match)) {
-        return flow;
-      }
+  /**
+   * 执行子 Flow：与调用方共用 ctx，从与当前阶段对应的入口节点开始（不检查子 Flow 的匹配规则和启用状态）；
+   * 子 Flow 没有该阶段的入口时跳过。循环调用或超出嵌套层数时记录错误并跳过该节点。
+   */
+  private async runSubFlow(
+    node: SubFlowNode,
+    ctx: ComponentContext,
+    phase: FlowPhase,
+    trace: FlowTraceStep[] | undefined,
+    callStack: string[],
+  ): Promise<{ terminated: boolean; error?: string }> {
+    const subFlow = this.flowStore.getById(node.flowId);
+    let error: string | undefined;
+    if (!subFlow) {
+      error = `Sub-flow not found: ${node.flowId}`;
+    } else if (callStack.includes(subFlow.id)) {
+      const names = [...callStack, subFlow.id].map((id) => this.flowStore.getById(id)?.name || id);
+      error = `Sub-flow cycle: ${names.join(' -> ')}`;
+    } else if (callStack.length >= MAX_SUBFLOW_DEPTH) {
+      error = `Sub-flow nesting exceeds ${MAX_SUBFLOW_DEPTH} levels`;
     }
-    return null;
-  }
-
-  private matchesRule(
-    request: HttpRequest,
-    rule: EntryNode['match']
-  ): boolean {
-    // Check method
-    if (rule.methods && rule.methods.length > 0) {
-      if (!rule.methods.includes(request.method)) {
-        return false;
-      }
+    if (error || !subFlow) {
+      ctx.log(`[${node.name}] ${error}`);
+      return { terminated: false, error };
     }
 
-    // Check host pattern
-    if (rule.hostPatterns && rule.hostPatterns.length > 0) {
-      try {
-        const url = new URL(request.url);
-        const hostMatched = rule.hostPatterns.some((pattern) =>
-          this.matchWildcard(url.hostname, pattern)
-        );
-        if (!hostMatched) {
-          return false;
-        }
-      } catch {
-        return false;
-      }
+    const entryNode = phase === 'request'
+      ? this.findEntryNode(subFlow)
+      : phase === 'response' ? this.findResponseEntryNode(subFlow) : this.findFrameEntryNode(subFlow);
+    if (!entryNode) {
+      return { terminated: false };
     }
+    const result = await this.runFromNode(subFlow, entryNode.id, ctx, phase, trace, [...callStack, subFlow.id]);
+    return { terminated: result.terminated };
+  }
 
-    // Check path pattern
-    if (rule.pathPatterns && rule.pathPatterns.length > 0) {
-      try {
-        const url = new URL(request.url);
-        const pathMatched = rule.pathPatterns.some((pattern) =>
-          this.matchWildcard(url.pathname, pattern)
-        );
-        if (!pathMatched) {
-          return false;
-        }
-      } catch {
-        return false;
-      }
-    }
+  // Entry 规则命中时返回命中的条件
+  private matchFlow(flow: FlowDefinition, request: HttpRequest): { matchedBy: string[] } | null {
+    const entryNode = this.findEntryNode(flow);
+    if (!entryNode) return null;
+    const match = matchRule(request, entryNode.match);
+    return match.matched ? { matchedBy: match.matchedBy } : null;
+  }
 
-    return true;
+  // 请求阶段依次执行过的 Flow
+  private matchedFlows(flowResult: FlowProcessResult): FlowDefinition[] {
+    const ids = flowResult.matchedFlowIds || (flowResult.matchedFlowId ? [flowResult.matchedFlowId] : []);
+    return ids
+      .map((id) => this.flowStore.getById(id))
+      .filter((flow): flow is FlowDefinition => !!flow);
   }
 
-  private matchWildcard(str: string, pattern: string): boolean {
-    if (pattern === '*') return true;
-    
-    // Convert wildcard pattern to regex
-    const regexPattern = pattern
-      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-    
-    const regex = new RegExp(`^${regexPattern}$`, 'i');
-    return regex.test(str);
+  private isBuffered(flow: FlowDefinition): boolean {
+    return (flow.bodyMode || 'buffered') === 'buffered';
   }
 
   private findEntryNode(flow: FlowDefinition): EntryNode | null {
@@ -212,6 +411,16 @@ export class FlowEngine {
     return node as EntryNode | null;
   }
 
+  private findResponseEntryNode(flow: FlowDefinition): ResponseEntryNode | null {
+    const node = flow.nodes.find((n) => n.type === 'response_entry');
+    return (node as ResponseEntryNode) || null;
+  }
+
+  private findFrameEntryNode(flow: FlowDefinition): FrameEntryNode | null {
+    const node = flow.nodes.find((n) => n.type === 'frame_entry');
+    return (node as FrameEntryNode) || null;
+  }
+
   private getNode(flow: FlowDefinition, nodeId: string): FlowNode | null {
     return flow.nodes.find((n) => n.id === nodeId) || null;
   }
@@ -232,44 +441,62 @@ export class FlowEngine {
     return edge?.to || null;
   }
 
+  // 执行组件节点；出错时返回空结果和错误信息，由调用方记入轨迹
   private async executeComponentNode(
     node: ComponentNode,
     ctx: ComponentContext
-  ): Promise<ComponentResult> {
+  ): Promise<{ result: ComponentResult; error?: string }> {
     const componentDef = this.componentStore.getById(node.componentId);
     if (!componentDef) {
       console.error(`Component not found: ${node.componentId}`);
-      return {};
+      return { result: {}, error: `Component not found: ${node.componentId}` };
     }
 
     try {
       if (componentDef.type === 'builtin') {
-        return await executeBuiltinComponent(
+        const result = await executeBuiltinComponent(
           componentDef.internalName!,
           node.config,
           ctx
         );
+        return { result };
       } else {
-        return await executeScriptComponent(
+        const result = await executeScriptComponent(
           componentDef.scriptCode!,
           node.config,
-          ctx
+          ctx,
+          {
+            capabilities: componentDef.capabilities,
+            timeoutMs: componentDef.timeoutMs,
+            memoryLimitMB: componentDef.memoryLimitMB,
+          }
         );
+        return { result };
       }
     } catch (error) {
+      // 组件出错（含脚本超时、超出内存）时跳过该节点继续执行，错误写入 Flow 日志
+      const message = (error as Error).message;
       console.error(`Component execution error:`, error);
-      return {};
+      ctx.log(`[${node.name}] Component error: ${message}`);
+      return { result: {}, error: message };
     }
   }
 
-  private evalCondition(expression: string, ctx: ComponentContext): boolean {
+  // 表达式出错时按 false 处理
+  private evalCondition(expression: string, ctx: ComponentContext): { result: boolean; error?: string } {
+    const { value, error } = this.evalExpression(expression, ctx);
+    return { result: Boolean(value), error };
+  }
+
+  // Condition / Switch 节点的表达式求值
+  private evalExpression(expression: string, ctx: ComponentContext): { value: any; error?: string } {
     try {
-      // 简单的条件评估（生产环境应该使用沙盒）
+      // 简单的表达式求值（生产环境应该使用沙盒）
       const fn = new Function('ctx', `return ${expression}`);
-      return Boolean(fn(ctx));
+      return { value: fn(ctx) };
     } catch (error) {
-      console.error('Condition evaluation error:', error);
-      return false;
+      console.error('Flow expression evaluation error:', error);
+      return { value: undefined, error: (error as Error).message };
     }
   }
 }
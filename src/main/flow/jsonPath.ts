@@ -0,0 +1,47 @@
+// JSONPath 的常用子集：$、.key、['key']、[0]、[*] / .*（不支持递归下降和过滤表达式）
+const TOKEN = /\.([A-Za-z_$][\w$-]*|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+
+type PathToken = string | number | '*';
+
+function parsePath(path: string): PathToken[] {
+  const source = path.trim();
+  if (!source.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+  const tokens: PathToken[] = [];
+  TOKEN.lastIndex = 1;
+  while (TOKEN.lastIndex < source.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      throw new Error(`Invalid JSONPath at position ${start}: ${path}`);
+    }
+    const key = match[1] ?? match[2];
+    if (key === '*') {
+      tokens.push('*');
+    } else if (match[2] !== undefined && /^\d+$/.test(key)) {
+      tokens.push(Number(key));
+    } else {
+      tokens.push(match[2] !== undefined ? key.slice(1, -1) : key);
+    }
+  }
+  return tokens;
+}
+
+// 返回路径命中的所有值；路径不存在时返回空数组
+export function queryJsonPath(data: any, path: string): any[] {
+  let current: any[] = [data];
+  for (const token of parsePath(path)) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+      if (token === '*') {
+        next.push(...Object.values(value));
+      } else if (Object.prototype.hasOwnProperty.call(value, token)) {
+        next.push(value[token]);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
@@ -0,0 +1,293 @@
+import {
+  HttpRequest,
+  FlowMatchRule,
+  FlowMatchCondition,
+  FlowMatchGroup,
+  MatchConditionField,
+  MatchConditionOperator,
+  MatchPatternMode,
+} from '../../shared/models';
+import { queryJsonPath } from './jsonPath';
+
+// 匹配结果：null 表示结果取决于尚未读取的请求 body
+type MatchValue = boolean | null;
+
+interface Evaluation {
+  value: MatchValue;
+  matchedBy: string[];
+}
+
+interface MatchInput {
+  request: HttpRequest;
+  url: URL;
+  bodyKnown: boolean;
+}
+
+export interface RuleMatch {
+  matched: boolean;
+  // 命中时满足的条件描述，写入执行轨迹
+  matchedBy: string[];
+}
+
+// 这些字段按不区分大小写比较
+const CASE_INSENSITIVE_FIELDS: MatchConditionField[] = ['method', 'host', 'scheme'];
+
+// 编译过的正则，无效的正则缓存为 null
+const MAX_REGEX_CACHE = 500;
+const regexCache = new Map<string, RegExp | null>();
+
+// 按 method / host / path 及扩展条件匹配请求，Flow 的 Entry 节点与断点规则共用
+export function matchesRule(request: HttpRequest, rule: FlowMatchRule): boolean {
+  return matchRule(request, rule).matched;
+}
+
+export function matchRule(request: HttpRequest, rule: FlowMatchRule): RuleMatch {
+  const { value, matchedBy } = evaluateRule(request, rule, true);
+  return value === true ? { matched: true, matchedBy } : { matched: false, matchedBy: [] };
+}
+
+/**
+ * 请求 body 尚未读取时预判规则：true / false 与 body 无关，null 表示需要读取 body 才能确定。
+ */
+export function matchRuleWithoutBody(request: HttpRequest, rule: FlowMatchRule): boolean | null {
+  return evaluateRule(request, rule, false).value;
+}
+
+function evaluateRule(request: HttpRequest, rule: FlowMatchRule, bodyKnown: boolean): Evaluation {
+  const fail: Evaluation = { value: false, matchedBy: [] };
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return fail;
+  }
+
+  const matchedBy: string[] = [];
+  if (rule.methods && rule.methods.length > 0) {
+    if (!rule.methods.includes(request.method)) {
+      return fail;
+    }
+    matchedBy.push(`method ${request.method}`);
+  }
+
+  const mode = rule.patternMode || 'wildcard';
+  const host = matchPatternList(url.hostname, rule.hostPatterns, mode, true);
+  if (!host.matched) return fail;
+  if (host.description) matchedBy.push(`host ${host.description}`);
+
+  const path = matchPatternList(url.pathname, rule.pathPatterns, mode, false);
+  if (!path.matched) return fail;
+  if (path.description) matchedBy.push(`path ${path.description}`);
+
+  if (rule.conditions) {
+    const group = evaluateGroup(rule.conditions, { request, url, bodyKnown });
+    if (group.value !== true) {
+      return { value: group.value, matchedBy: [] };
+    }
+    matchedBy.push(...group.matchedBy);
+  }
+  return { value: true, matchedBy };
+}
+
+// 模式列表：任一普通模式命中且没有 ! 排除模式命中；列表为空或只有 * 时不参与描述
+function matchPatternList(
+  value: string,
+  patterns: string[] | undefined,
+  mode: MatchPatternMode,
+  ignoreCase: boolean
+): { matched: boolean; description?: string } {
+  if (!patterns || patterns.length === 0) return { matched: true };
+
+  const excludes = patterns.filter((p) => p.startsWith('!'));
+  if (excludes.some((p) => matchPattern(value, p.slice(1), mode, ignoreCase))) {
+    return { matched: false };
+  }
+  const includes = patterns.filter((p) => !p.startsWith('!'));
+  if (includes.length === 0) {
+    return { matched: true, description: excludes.join(', ') };
+  }
+  const hit = includes.find((p) => matchPattern(value, p, mode, ignoreCase));
+  if (hit === undefined) return { matched: false };
+  return { matched: true, description: hit === '*' && !excludes.length ? undefined : [hit, ...excludes].join(', ') };
+}
+
+function matchPattern(value: string, pattern: string, mode: MatchPatternMode, ignoreCase: boolean): boolean {
+  if (mode === 'regex') {
+    return !!compileRegex(pattern, ignoreCase)?.test(value);
+  }
+  return matchWildcard(value, pattern);
+}
+
+function evaluateGroup(group: FlowMatchGroup, input: MatchInput): Evaluation {
+  const results = [
+    ...(group.conditions || []).map((condition) => evaluateCondition(condition, input)),
+    ...(group.groups || []).map((child) => evaluateGroup(child, input)),
+  ];
+
+  let value: MatchValue;
+  let matchedBy: string[] = [];
+  if (results.length === 0) {
+    value = true;
+  } else if (group.combinator === 'or') {
+    const hit = results.find((r) => r.value === true);
+    value = hit ? true : results.some((r) => r.value === null) ? null : false;
+    matchedBy = hit ? hit.matchedBy : [];
+  } else {
+    value = results.some((r) => r.value === false) ? false : results.some((r) => r.value === null) ? null : true;
+    matchedBy = results.flatMap((r) => r.matchedBy);
+  }
+
+  if (group.negate) {
+    // 取反的组命中时没有具体满足的子条件，以整组描述
+    return {
+      value: value === null ? null : !value,
+      matchedBy: value === false ? [`not (${describeGroup(group)})`] : [],
+    };
+  }
+  return { value, matchedBy };
+}
+
+function evaluateCondition(condition: FlowMatchCondition, input: MatchInput): Evaluation {
+  if (condition.field === 'body' && !input.bodyKnown) {
+    return { value: null, matchedBy: [] };
+  }
+  const result = testCondition(condition, input);
+  const value = condition.negate ? !result : result;
+  return { value, matchedBy: value ? [describeCondition(condition)] : [] };
+}
+
+function testCondition(condition: FlowMatchCondition, input: MatchInput): boolean {
+  const values = fieldValues(condition, input);
+  if (condition.operator === 'exists') {
+    return values.length > 0;
+  }
+  if (condition.operator === 'jsonPath') {
+    return condition.field === 'body' && values.length > 0 && matchJsonPath(values[0], condition.name, condition.value);
+  }
+  const ignoreCase = CASE_INSENSITIVE_FIELDS.includes(condition.field);
+  return values.some((value) => testValue(value, condition.operator, condition.value ?? '', ignoreCase));
+}
+
+// 字段的取值；字段不存在时为空数组（header、query 可能有多个值）
+function fieldValues(condition: FlowMatchCondition, { request, url }: MatchInput): string[] {
+  switch (condition.field) {
+    case 'method':
+      return [request.method];
+    case 'host':
+      return [url.hostname];
+    case 'path':
+      return [url.pathname];
+    case 'url':
+      return [request.url];
+    case 'header': {
+      const name = condition.name?.toLowerCase();
+      if (!name) return [];
+      return Object.entries(request.headers)
+        .filter(([key, value]) => key.toLowerCase() === name && value !== undefined)
+        .flatMap(([, value]) => (Array.isArray(value) ? value : [String(value)]));
+    }
+    case 'query':
+      return condition.name ? url.searchParams.getAll(condition.name) : [];
+    case 'body': {
+      if (!request.body) return [];
+      return [request.bodyEncoding === 'base64' ? Buffer.from(request.body, 'base64').toString('latin1') : request.body];
+    }
+    case 'clientIp':
+      return request.clientIp ? [request.clientIp.replace(/^::ffff:/, '')] : [];
+    case 'port':
+      return [url.port || (url.protocol === 'https:' || url.protocol === 'wss:' ? '443' : '80')];
+    case 'scheme':
+      return [url.protocol.replace(/:$/, '')];
+    default:
+      return [];
+  }
+}
+
+function testValue(value: string, operator: MatchConditionOperator, expected: string, ignoreCase: boolean): boolean {
+  switch (operator) {
+    case 'equals':
+      return ignoreCase ? value.toLowerCase() === expected.toLowerCase() : value === expected;
+    case 'contains':
+      return ignoreCase ? value.toLowerCase().includes(expected.toLowerCase()) : value.includes(expected);
+    case 'wildcard':
+      return matchWildcard(value, expected);
+    case 'regex':
+      return !!compileRegex(expected, ignoreCase)?.test(value);
+    default:
+      return false;
+  }
+}
+
+// body 按 JSON 解析后取 JSONPath；期望值可以是 JSON（数字、布尔、对象）或普通文本，为空时只判断路径存在
+function matchJsonPath(body: string, path: string | undefined, expected: string | undefined): boolean {
+  if (!path) return false;
+  let values: any[];
+  try {
+    values = queryJsonPath(JSON.parse(body), path);
+  } catch {
+    return false;
+  }
+  if (expected === undefined || expected === '') {
+    return values.length > 0;
+  }
+  let parsed: any = expected;
+  try {
+    parsed = JSON.parse(expected);
+  } catch {
+    // 普通文本
+  }
+  return values.some((value) =>
+    JSON.stringify(value) === JSON.stringify(parsed)
+    || (value !== null && typeof value !== 'object' && String(value) === expected)
+  );
+}
+
+function compileRegex(pattern: string, ignoreCase: boolean): RegExp | null {
+  const key = `${ignoreCase ? 'i' : ''}/${pattern}`;
+  if (!regexCache.has(key)) {
+    if (regexCache.size >= MAX_REGEX_CACHE) {
+      regexCache.clear();
+    }
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(pattern, ignoreCase ? 'i' : '');
+    } catch {
+      console.warn(`Invalid match regex: ${pattern}`);
+    }
+    regexCache.set(key, regex);
+  }
+  return regexCache.get(key)!;
+}
+
+function describeCondition(condition: FlowMatchCondition): string {
+  const parts: string[] = [condition.field];
+  if (condition.name) parts.push(condition.name);
+  if (condition.operator === 'jsonPath') {
+    if (condition.value) parts.push('=', condition.value);
+  } else {
+    parts.push(condition.operator);
+    if (condition.operator !== 'exists') parts.push(condition.value ?? '');
+  }
+  return `${condition.negate ? 'not ' : ''}${parts.join(' ')}`;
+}
+
+function describeGroup(group: FlowMatchGroup): string {
+  const parts = [
+    ...(group.conditions || []).map(describeCondition),
+    ...(group.groups || []).map((child) => `${child.negate ? 'not ' : ''}(${describeGroup(child)})`),
+  ];
+  return parts.join(group.combinator === 'or' ? ' or ' : ' and ');
+}
+
+export function matchWildcard(str: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+
+  // Convert wildcard pattern to regex
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+
+  const regex = new RegExp(`^${regexPattern}$`, 'i');
+  return regex.test(str);
+}
@@ -0,0 +1,104 @@
+import { ComponentContext, FlowTraceChange, HttpRequest, HttpResponse } from '../../shared/models';
+
+// 轨迹中的长文本（body、大的变量）只保留开头部分，避免记录体积成倍增长
+const MAX_TRACE_VALUE_LENGTH = 2048;
+
+const REQUEST_FIELDS: (keyof HttpRequest)[] = ['method', 'url', 'body', 'bodyEncoding'];
+const RESPONSE_FIELDS: (keyof HttpResponse)[] = ['statusCode', 'statusMessage', 'body', 'bodyEncoding'];
+
+/**
+ * 组件执行前的 ctx 快照：headers 复制一层，vars 序列化为 JSON，组件原地修改时也能比较出差异。
+ */
+export interface TraceSnapshot {
+  request: HttpRequest;
+  response?: HttpResponse;
+  vars: Record<string, string | undefined>;
+}
+
+export function snapshotContext(ctx: ComponentContext): TraceSnapshot {
+  return {
+    request: { ...ctx.request, headers: { ...ctx.request.headers } },
+    response: ctx.response ? { ...ctx.response, headers: { ...ctx.response.headers } } : undefined,
+    vars: serializeVars(ctx.vars),
+  };
+}
+
+// 比较快照与组件执行后的 ctx，列出 request / response / vars 的逐项改动
+export function diffContext(before: TraceSnapshot, ctx: ComponentContext): FlowTraceChange[] {
+  const changes: FlowTraceChange[] = [];
+  diffMessage('request', before.request, ctx.request, REQUEST_FIELDS, changes);
+  diffMessage('response', before.response, ctx.response, RESPONSE_FIELDS, changes);
+
+  const vars = serializeVars(ctx.vars);
+  for (const key of new Set([...Object.keys(before.vars), ...Object.keys(vars)])) {
+    if (before.vars[key] !== vars[key]) {
+      changes.push(change(`vars.${key}`, parseVar(before.vars[key]), parseVar(vars[key])));
+    }
+  }
+  return changes;
+}
+
+function diffMessage<T extends HttpRequest | HttpResponse>(
+  prefix: string,
+  before: T | undefined,
+  after: T | undefined,
+  fields: (keyof T)[],
+  changes: FlowTraceChange[]
+): void {
+  for (const field of fields) {
+    if (!sameValue(before?.[field], after?.[field])) {
+      changes.push(change(`${prefix}.${String(field)}`, before?.[field], after?.[field]));
+    }
+  }
+  const beforeHeaders = before?.headers || {};
+  const afterHeaders = after?.headers || {};
+  for (const name of new Set([...Object.keys(beforeHeaders), ...Object.keys(afterHeaders)])) {
+    if (!sameValue(beforeHeaders[name], afterHeaders[name])) {
+      changes.push(change(`${prefix}.headers.${name}`, beforeHeaders[name], afterHeaders[name]));
+    }
+  }
+}
+
+function change(path: string, before: any, after: any): FlowTraceChange {
+  const result: FlowTraceChange = { path };
+  if (before !== undefined) result.before = truncate(before);
+  if (after !== undefined) result.after = truncate(after);
+  return result;
+}
+
+function sameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  // 多值 header 为数组
+  return Array.isArray(a) && Array.isArray(b) && a.join('\n') === b.join('\n');
+}
+
+function truncate(value: any): any {
+  if (typeof value === 'string' && value.length > MAX_TRACE_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_TRACE_VALUE_LENGTH)}… (${value.length} chars)`;
+  }
+  return value;
+}
+
+function serializeVars(vars: Record<string, any>): Record<string, string | undefined> {
+  const result: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(vars || {})) {
+    try {
+      result[key] = JSON.stringify(value);
+    } catch {
+      // 循环引用等无法序列化的值
+      result[key] = String(value);
+    }
+  }
+  return result;
+}
+
+// 短的变量还原为原值便于展示，过长的保留截断后的 JSON 文本
+function parseVar(json: string | undefined): any {
+  if (json === undefined) return undefined;
+  if (json.length > MAX_TRACE_VALUE_LENGTH) return json;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
@@ -1,5 +1,5 @@
-import { IpcMain, BrowserWindow } from 'electron';
-import { IPC_CHANNELS, HttpRequest, ComponentContext, ComponentDebugRequest, ComponentDebugResult, CertImportRequest, CertInstallResult, SystemProxyStatus, FlowDebugRequest, FlowDebugResult } from '../../shared/models';
+import { IpcMain, BrowserWindow, app, dialog } from 'electron';
+import { IPC_CHANNELS, HttpRequest, HttpResponse, ComponentContext, ComponentDebugRequest, ComponentDebugResult, CertImportRequest, CertInstallResult, SystemProxyStatus, FlowDebugRequest, FlowDebugResult, BreakpointResolution, ComposeRequest, ComposeResult, HarFileResult, RequestRecord, CaptureSession, CaptureSessionList, Cassette } from '../../shared/models';
 import { ProxyEngine } from '../proxy/proxyEngine';
 import { RequestStore } from '../store/requestStore';
 import { FlowStore } from '../store/flowStore';
@@ -8,10 +8,14 @@ import { ConfigStore } from '../store/configStore';
 import { executeBuiltinComponent } from '../components/builtins';
 import { debugScriptComponent } from '../components/scriptRunner';
 import { getCertManager } from '../proxy/certManager';
+import { resolveNetworkConditions } from '../proxy/throttle';
 import { FlowEngine } from '../flow/flowEngine';
+import { recordsToHar, harToRecords } from '../store/har';
+import { getCassetteStore } from '../store/cassetteStore';
 import { v4 as uuidv4 } from 'uuid';
 import { execFile } from 'child_process';
 import * as util from 'util';
+import * as fs from 'fs';
 
 const execFileAsync = util.promisify(execFile);
 
@@ -289,10 +293,140 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
     ctx.requestStore.clear();
   });
 
+  // 抓包会话
+  ipcMain.handle(IPC_CHANNELS.SESSIONS_GET, (): CaptureSessionList => {
+    return ctx.requestStore.listSessions();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SESSION_NEW, (_event, name?: string): CaptureSession => {
+    return ctx.requestStore.newSession(name);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SESSION_OPEN, (_event, id: string): boolean => {
+    return ctx.requestStore.openSession(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SESSION_RENAME, (_event, id: string, name: string): boolean => {
+    return ctx.requestStore.renameSession(id, name);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SESSION_DELETE, (_event, id: string): boolean => {
+    return ctx.requestStore.deleteSession(id);
+  });
+
   ipcMain.handle(IPC_CHANNELS.REQUEST_GET_BY_ID, (_event, id: string) => {
     return ctx.requestStore.getById(id);
   });
 
+  // HAR 导出：ids 为空时导出全部记录；经 getById 读回单独存放的大 body
+  ipcMain.handle(IPC_CHANNELS.REQUESTS_EXPORT_HAR, async (_event, ids?: string[]): Promise<HarFileResult> => {
+    try {
+      const records = ids && ids.length
+        ? ids.map((id) => ctx.requestStore.getById(id)).filter((r): r is RequestRecord => !!r)
+        : ctx.requestStore.getAll().map((r) => ctx.requestStore.getById(r.id)!);
+      const options: Electron.SaveDialogOptions = {
+        title: 'Export HAR',
+        defaultPath: `flowproxy-${new Date().toISOString().replace(/[:.]/g, '-')}.har`,
+        filters: [{ name: 'HTTP Archive', extensions: ['har'] }],
+      };
+      const mainWindow = ctx.getMainWindow();
+      const { canceled, filePath } = mainWindow
+        ? await dialog.showSaveDialog(mainWindow, options)
+        : await dialog.showSaveDialog(options);
+      if (canceled || !filePath) {
+        return { success: false, canceled: true };
+      }
+
+      fs.writeFileSync(filePath, JSON.stringify(recordsToHar(records, app.getVersion()), null, 2));
+      return { success: true, filePath, count: records.length };
+    } catch (error) {
+      return { success: false, errorMessage: (error as Error).message };
+    }
+  });
+
+  // HAR 导入：记录只保存在内存中，不写入当前会话、不计入保留策略，可用于组件 / Flow Debug
+  ipcMain.handle(IPC_CHANNELS.REQUESTS_IMPORT_HAR, async (): Promise<HarFileResult> => {
+    try {
+      const options: Electron.OpenDialogOptions = {
+        title: 'Import HAR',
+        filters: [{ name: 'HTTP Archive', extensions: ['har', 'json'] }],
+        properties: ['openFile'],
+      };
+      const mainWindow = ctx.getMainWindow();
+      const { canceled, filePaths } = mainWindow
+        ? await dialog.showOpenDialog(mainWindow, options)
+        : await dialog.showOpenDialog(options);
+      if (canceled || !filePaths.length) {
+        return { success: false, canceled: true };
+      }
+
+      const records = harToRecords(fs.readFileSync(filePaths[0], 'utf-8'));
+      ctx.requestStore.addImported(records);
+      return { success: true, filePath: filePaths[0], count: records.length };
+    } catch (error) {
+      return { success: false, errorMessage: (error as Error).message };
+    }
+  });
+
+  // 重发 / 编辑后发送
+  ipcMain.handle(IPC_CHANNELS.REQUEST_SEND, async (_event, composeReq: ComposeRequest): Promise<ComposeResult> => {
+    try {
+      let request: HttpRequest;
+      if (composeReq.rawHttpText) {
+        request = parseRawHttpRequest(composeReq.rawHttpText);
+      } else if (composeReq.request) {
+        request = { ...composeReq.request, id: uuidv4(), timestamp: Date.now() };
+      } else {
+        return { success: false, errorMessage: 'No request data provided' };
+      }
+
+      const source = composeReq.sourceRecordId ? ctx.requestStore.getById(composeReq.sourceRecordId) : undefined;
+      // 原记录的 body 是由 Protobuf 解码得到的 JSON 时，沿用其消息类型重新编码
+      if (source?.request.protobuf && request.headers['content-type'] === source.request.headers['content-type']) {
+        request.protobuf = source.request.protobuf;
+      }
+
+      const record = await ctx.proxyEngine.sendRequest(request, composeReq.applyFlows, source?.id);
+      return { success: true, record };
+    } catch (error) {
+      return { success: false, errorMessage: (error as Error).message };
+    }
+  });
+
+  // 断点
+  ipcMain.handle(IPC_CHANNELS.BREAKPOINTS_GET, () => {
+    return ctx.proxyEngine.getPendingBreakpoints();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.BREAKPOINT_RESOLVE, (_event, id: string, resolution: BreakpointResolution) => {
+    return ctx.proxyEngine.resolveBreakpoint(id, resolution);
+  });
+
+  // 录制 / 回放（Cassette）
+  ipcMain.handle(IPC_CHANNELS.CASSETTES_GET, () => {
+    return getCassetteStore().getAll();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CASSETTE_SAVE, (_event, cassette: Cassette) => {
+    return getCassetteStore().save(cassette);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CASSETTE_DELETE, (_event, id: string) => {
+    getCassetteStore().delete(id);
+  });
+
+  // 把请求列表中的记录加入 Cassette，经 getById 读回单独存放的大 body
+  ipcMain.handle(IPC_CHANNELS.CASSETTE_ADD_RECORDS, (_event, cassetteId: string, recordIds: string[]) => {
+    const records = recordIds
+      .map((id) => ctx.requestStore.getById(id))
+      .filter((r): r is RequestRecord => !!r);
+    return getCassetteStore().addRecords(cassetteId, records);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CASSETTE_DELETE_ENTRY, (_event, cassetteId: string, entryId: string) => {
+    return getCassetteStore().deleteEntry(cassetteId, entryId);
+  });
+
   // 流程管理
   ipcMain.handle(IPC_CHANNELS.FLOWS_GET, () => {
     return ctx.flowStore.getAll();
@@ -310,6 +444,10 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
     ctx.flowStore.toggle(id, enabled);
   });
 
+  ipcMain.handle(IPC_CHANNELS.FLOW_REORDER, (_event, ids: string[]) => {
+    ctx.flowStore.reorder(ids);
+  });
+
   // 组件管理
   ipcMain.handle(IPC_CHANNELS.COMPONENTS_GET, () => {
     return ctx.componentStore.getAll();
@@ -382,7 +520,12 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
         const debugResult = await debugScriptComponent(
           component.scriptCode!,
           debugReq.componentConfig,
-          componentCtx
+          componentCtx,
+          {
+            capabilities: component.capabilities,
+            timeoutMs: component.timeoutMs,
+            memoryLimitMB: component.memoryLimitMB,
+          }
         );
         result = debugResult.result;
         logs.push(...debugResult.logs);
@@ -517,8 +660,9 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
   // Flow 调试
   ipcMain.handle(IPC_CHANNELS.FLOW_DEBUG, async (_event, debugReq: FlowDebugRequest): Promise<FlowDebugResult> => {
     try {
-      // 获取请求数据
+      // 获取请求数据（选中的记录若带有响应，可用于调试响应阶段）
       let request: HttpRequest;
+      let response: HttpResponse | undefined;
       if (debugReq.requestRecordId) {
         const record = ctx.requestStore.getById(debugReq.requestRecordId);
         if (!record) {
@@ -531,6 +675,7 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
           };
         }
         request = record.request;
+        response = record.response;
       } else if (debugReq.rawHttpText) {
         request = parseRawHttpRequest(debugReq.rawHttpText);
       } else {
@@ -554,13 +699,19 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
         };
       }
 
+      // 只有包含响应阶段的 Flow 才需要记录中的上游响应
+      if (!flow.nodes.some((n) => n.type === 'response_entry')) {
+        response = undefined;
+      }
+
       const engine = new FlowEngine(ctx.flowStore, ctx.componentStore);
-      const { result, logs } = await engine.debugFlow(flow, request);
+      const { result, logs } = await engine.debugFlow(flow, request, response);
 
       return {
         success: true,
         logs,
-        before: { request },
+        trace: result.trace,
+        before: { request, response },
         after: {
           request: result.request,
           response: result.response,
@@ -593,6 +744,51 @@ export function setupIpcHandlers(ipcMain: IpcMain, ctx: HandlerContext): void {
       ctx.proxyEngine.setHttpsMitmEnabled(config.httpsMitmEnabled);
     }
 
+    // 运行时启停 SOCKS5 监听
+    if (typeof config?.socksEnabled === 'boolean' || config?.socksPort !== undefined) {
+      await ctx.proxyEngine.setSocksPort(fullConfig.socksEnabled ? fullConfig.socksPort : undefined);
+    }
+
+    // 运行时重建反向代理监听
+    if (config?.reverseProxies) {
+      await ctx.proxyEngine.setReverseProxies(fullConfig.reverseProxies || []);
+    }
+
+    // 运行时同步上游代理配置
+    if (config?.upstreamProxies || config?.upstreamRules) {
+      ctx.proxyEngine.setUpstreamConfig(fullConfig.upstreamProxies || [], fullConfig.upstreamRules || []);
+    }
+
+    // 运行时重新加载 .proto 文件与消息类型映射
+    if (config?.protoFiles || config?.protoMappings) {
+      ctx.proxyEngine.setProtobufConfig(fullConfig.protoFiles || [], fullConfig.protoMappings || []);
+    }
+
+    // 运行时同步断点规则与超时策略
+    if (config?.breakpoints || config?.breakpointTimeoutSeconds !== undefined || config?.breakpointTimeoutAction) {
+      ctx.proxyEngine.setBreakpointConfig(
+        fullConfig.breakpoints || [],
+        fullConfig.breakpointTimeoutSeconds,
+        fullConfig.breakpointTimeoutAction
+      );
+    }
+
+    // 运行时切换全局网络环境模拟
+    if (config?.networkProfile !== undefined || config?.customNetworkConditions) {
+      ctx.proxyEngine.setNetworkConditions(
+        resolveNetworkConditions(fullConfig.networkProfile, fullConfig.customNetworkConditions)
+      );
+    }
+
+    // 运行时同步请求记录的保留策略
+    if (config && ['maxRequestRecords', 'recordRetentionDays', 'recordRetentionMaxMB'].some((key) => key in config)) {
+      ctx.requestStore.setRetention({
+        maxRecords: fullConfig.maxRequestRecords,
+        maxAgeDays: fullConfig.recordRetentionDays,
+        maxSizeMB: fullConfig.recordRetentionMaxMB,
+      });
+    }
+
     // 根据配置启用/关闭系统代理
     if (typeof config?.systemProxyEnabled === 'boolean') {
       try {
@@ -642,11 +838,13 @@ function parseRawHttpRequest(rawText: string): HttpRequest {
   
   const body = bodyStartIndex >= 0 ? rest.slice(bodyStartIndex).join('\n') : undefined;
   const host = headers['host'] || 'localhost';
+  // 请求行可以是绝对地址（GET https://example.com/a HTTP/1.1），此时忽略 Host
+  const absolute = /^https?:\/\//i.test(path || '');
   
   return {
     id: uuidv4(),
     method: method || 'GET',
-    url: `http://${host}${path || '/'}`,
+    url: absolute ? path : `http://${host}${path || '/'}`,
     headers,
     body,
     timestamp: Date.now(),
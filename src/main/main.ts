@@ -1,6 +1,7 @@
 import { app, BrowserWindow, ipcMain } from 'electron';
 import * as path from 'path';
 import { ProxyEngine } from './proxy/proxyEngine';
+import { resolveNetworkConditions } from './proxy/throttle';
 import { RequestStore } from './store/requestStore';
 import { FlowStore } from './store/flowStore';
 import { ComponentStore } from './store/componentStore';
@@ -46,9 +47,24 @@ function createWindow() {
 
 function initProxyEngine() {
   const config = configStore.getConfig();
+  requestStore.setRetention({
+    maxRecords: config.maxRequestRecords,
+    maxAgeDays: config.recordRetentionDays,
+    maxSizeMB: config.recordRetentionMaxMB,
+  });
   proxyEngine = new ProxyEngine({
     port: config.proxyPort,
     httpsMitmEnabled: config.httpsMitmEnabled ?? false,
+    upstreamProxies: config.upstreamProxies || [],
+    upstreamRules: config.upstreamRules || [],
+    socksPort: config.socksEnabled ? config.socksPort : undefined,
+    reverseProxies: config.reverseProxies || [],
+    protoFiles: config.protoFiles || [],
+    protoMappings: config.protoMappings || [],
+    breakpoints: config.breakpoints || [],
+    breakpointTimeoutSeconds: config.breakpointTimeoutSeconds,
+    breakpointTimeoutAction: config.breakpointTimeoutAction,
+    networkConditions: resolveNetworkConditions(config.networkProfile, config.customNetworkConditions),
     requestStore,
     flowStore,
     componentStore,
@@ -58,6 +74,12 @@ function initProxyEngine() {
         mainWindow.webContents.send('requests:new', record);
       }
     },
+    onBreakpointsChanged: (pending) => {
+      // 通知渲染进程等待处理的断点有变化
+      if (mainWindow) {
+        mainWindow.webContents.send('breakpoints:changed', pending);
+      }
+    },
   });
 }
 
@@ -92,6 +114,8 @@ app.on('window-all-closed', () => {
 });
 
 app.on('before-quit', () => {
+  // 写入尚未落盘的请求记录
+  requestStore.flush();
   if (proxyEngine) {
     proxyEngine.stop();
   }
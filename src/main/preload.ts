@@ -12,12 +12,26 @@ const IPC_CHANNELS = {
   REQUESTS_CLEAR: 'requests:clear',
   REQUESTS_NEW: 'requests:new',
   REQUEST_GET_BY_ID: 'request:getById',
+  REQUEST_SEND: 'request:send',
+  REQUESTS_EXPORT_HAR: 'requests:exportHar',
+  REQUESTS_IMPORT_HAR: 'requests:importHar',
+  SESSIONS_GET: 'sessions:get',
+  SESSION_NEW: 'session:new',
+  SESSION_OPEN: 'session:open',
+  SESSION_RENAME: 'session:rename',
+  SESSION_DELETE: 'session:delete',
+
+  // 断点
+  BREAKPOINTS_GET: 'breakpoints:get',
+  BREAKPOINTS_CHANGED: 'breakpoints:changed',
+  BREAKPOINT_RESOLVE: 'breakpoint:resolve',
 
   // 流程管理
   FLOWS_GET: 'flows:get',
   FLOW_SAVE: 'flow:save',
   FLOW_DELETE: 'flow:delete',
   FLOW_TOGGLE: 'flow:toggle',
+  FLOW_REORDER: 'flow:reorder',
   FLOW_DEBUG: 'flow:debug',
 
   // 组件管理
@@ -25,6 +39,11 @@ const IPC_CHANNELS = {
   COMPONENT_SAVE: 'component:save',
   COMPONENT_DELETE: 'component:delete',
   COMPONENT_DEBUG: 'component:debug',
+  CASSETTES_GET: 'cassettes:get',
+  CASSETTE_SAVE: 'cassette:save',
+  CASSETTE_DELETE: 'cassette:delete',
+  CASSETTE_ADD_RECORDS: 'cassette:addRecords',
+  CASSETTE_DELETE_ENTRY: 'cassette:deleteEntry',
 
   // 证书 / HTTPS
   CERT_STATUS: 'cert:status',
@@ -51,17 +70,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getRequests: (filter?: any) => ipcRenderer.invoke(IPC_CHANNELS.REQUESTS_GET, filter),
   clearRequests: () => ipcRenderer.invoke(IPC_CHANNELS.REQUESTS_CLEAR),
   getRequestById: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.REQUEST_GET_BY_ID, id),
+  sendRequest: (payload: any) => ipcRenderer.invoke(IPC_CHANNELS.REQUEST_SEND, payload),
+  exportHar: (ids?: string[]) => ipcRenderer.invoke(IPC_CHANNELS.REQUESTS_EXPORT_HAR, ids),
+  importHar: () => ipcRenderer.invoke(IPC_CHANNELS.REQUESTS_IMPORT_HAR),
+
+  // 抓包会话
+  getSessions: () => ipcRenderer.invoke(IPC_CHANNELS.SESSIONS_GET),
+  newSession: (name?: string) => ipcRenderer.invoke(IPC_CHANNELS.SESSION_NEW, name),
+  openSession: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.SESSION_OPEN, id),
+  renameSession: (id: string, name: string) => ipcRenderer.invoke(IPC_CHANNELS.SESSION_RENAME, id, name),
+  deleteSession: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.SESSION_DELETE, id),
   onNewRequest: (callback: (record: any) => void) => {
     const listener = (_event: any, record: any) => callback(record);
     ipcRenderer.on(IPC_CHANNELS.REQUESTS_NEW, listener);
     return () => ipcRenderer.removeListener(IPC_CHANNELS.REQUESTS_NEW, listener);
   },
+
+  // 断点
+  getPendingBreakpoints: () => ipcRenderer.invoke(IPC_CHANNELS.BREAKPOINTS_GET),
+  resolveBreakpoint: (id: string, resolution: any) => ipcRenderer.invoke(IPC_CHANNELS.BREAKPOINT_RESOLVE, id, resolution),
+  onBreakpointsChanged: (callback: (pending: any[]) => void) => {
+    const listener = (_event: any, pending: any[]) => callback(pending);
+    ipcRenderer.on(IPC_CHANNELS.BREAKPOINTS_CHANGED, listener);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.BREAKPOINTS_CHANGED, listener);
+  },
   
   // 流程管理
   getFlows: () => ipcRenderer.invoke(IPC_CHANNELS.FLOWS_GET),
   saveFlow: (flow: any) => ipcRenderer.invoke(IPC_CHANNELS.FLOW_SAVE, flow),
   deleteFlow: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.FLOW_DELETE, id),
   toggleFlow: (id: string, enabled: boolean) => ipcRenderer.invoke(IPC_CHANNELS.FLOW_TOGGLE, id, enabled),
+  reorderFlows: (ids: string[]) => ipcRenderer.invoke(IPC_CHANNELS.FLOW_REORDER, ids),
   debugFlow: (payload: any) => ipcRenderer.invoke(IPC_CHANNELS.FLOW_DEBUG, payload),
   
   // 组件管理
@@ -69,6 +108,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   saveComponent: (component: any) => ipcRenderer.invoke(IPC_CHANNELS.COMPONENT_SAVE, component),
   deleteComponent: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.COMPONENT_DELETE, id),
   debugComponent: (request: any) => ipcRenderer.invoke(IPC_CHANNELS.COMPONENT_DEBUG, request),
+
+  // 录制 / 回放
+  getCassettes: () => ipcRenderer.invoke(IPC_CHANNELS.CASSETTES_GET),
+  saveCassette: (cassette: any) => ipcRenderer.invoke(IPC_CHANNELS.CASSETTE_SAVE, cassette),
+  deleteCassette: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.CASSETTE_DELETE, id),
+  addRecordsToCassette: (cassetteId: string, recordIds: string[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CASSETTE_ADD_RECORDS, cassetteId, recordIds),
+  deleteCassetteEntry: (cassetteId: string, entryId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CASSETTE_DELETE_ENTRY, cassetteId, entryId),
   
   // 证书 / HTTPS
   getCertStatus: () => ipcRenderer.invoke(IPC_CHANNELS.CERT_STATUS),
@@ -94,16 +142,33 @@ declare global {
       getRequests: (filter?: any) => Promise<any[]>;
       clearRequests: () => Promise<void>;
       getRequestById: (id: string) => Promise<any>;
+      sendRequest: (payload: any) => Promise<any>;
+      exportHar: (ids?: string[]) => Promise<any>;
+      importHar: () => Promise<any>;
+      getSessions: () => Promise<any>;
+      newSession: (name?: string) => Promise<any>;
+      openSession: (id: string) => Promise<boolean>;
+      renameSession: (id: string, name: string) => Promise<boolean>;
+      deleteSession: (id: string) => Promise<boolean>;
       onNewRequest: (callback: (record: any) => void) => () => void;
+      getPendingBreakpoints: () => Promise<any[]>;
+      resolveBreakpoint: (id: string, resolution: any) => Promise<boolean>;
+      onBreakpointsChanged: (callback: (pending: any[]) => void) => () => void;
       getFlows: () => Promise<any[]>;
       saveFlow: (flow: any) => Promise<void>;
       deleteFlow: (id: string) => Promise<void>;
       toggleFlow: (id: string, enabled: boolean) => Promise<void>;
+      reorderFlows: (ids: string[]) => Promise<void>;
       debugFlow: (payload: any) => Promise<any>;
       getComponents: () => Promise<any[]>;
       saveComponent: (component: any) => Promise<void>;
       deleteComponent: (id: string) => Promise<void>;
       debugComponent: (request: any) => Promise<any>;
+      getCassettes: () => Promise<any[]>;
+      saveCassette: (cassette: any) => Promise<any>;
+      deleteCassette: (id: string) => Promise<void>;
+      addRecordsToCassette: (cassetteId: string, recordIds: string[]) => Promise<number>;
+      deleteCassetteEntry: (cassetteId: string, entryId: string) => Promise<boolean>;
       // 证书 / HTTPS
       getCertStatus: () => Promise<any>;
       generateCA: () => Promise<any>;
@@ -0,0 +1,31 @@
+// 请求记录中最多保留的 body 字节数，超出部分只计数不保存
+export const MAX_CAPTURED_BODY_BYTES = 1024 * 1024;
+
+/**
+ * 流式转发时在旁边保留一份有上限的 body 副本，用于写入请求记录。
+ */
+export class BodyCapture {
+  private chunks: Buffer[] = [];
+  private captured = 0;
+  size = 0;
+
+  constructor(private limit: number = MAX_CAPTURED_BODY_BYTES) {}
+
+  push(chunk: Buffer): void {
+    this.size += chunk.length;
+    const remaining = this.limit - this.captured;
+    if (remaining <= 0) return;
+
+    const part = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+    this.chunks.push(part);
+    this.captured += part.length;
+  }
+
+  get truncated(): boolean {
+    return this.size > this.captured;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
@@ -0,0 +1,133 @@
+import * as zlib from 'zlib';
+import { isUtf8 } from 'buffer';
+import { Decompress as ZstdDecompress } from 'fzstd';
+import { BodyEncoding } from '../../shared/models';
+
+// 解压后最多保留的字节数，防止压缩炸弹占满内存
+const MAX_DECODED_BODY_BYTES = 32 * 1024 * 1024;
+
+// Content-Encoding 可以叠加（如 "gzip, br"），按逗号拆分，identity 表示未编码
+function parseEncodings(contentEncoding: string): string[] {
+  return contentEncoding
+    .split(',')
+    .map((e) => e.trim().toLowerCase())
+    .filter((e) => e && e !== 'identity');
+}
+
+/**
+ * 按 Content-Encoding 解压 body，不支持的编码或数据损坏时返回 null。
+ * partial 为 true 时表示只有 body 的前一部分（流式转发的截断副本），尽量解出已有数据。
+ */
+export function decodeContentEncoding(buffer: Buffer, contentEncoding: string, partial = false): Buffer | null {
+  let data = buffer;
+  try {
+    // 编码按出现顺序依次施加，解码时逆序
+    for (const encoding of parseEncodings(contentEncoding).reverse()) {
+      data = decodeOne(data, encoding, partial);
+    }
+    return data;
+  } catch (error) {
+    console.warn('[bodyCodec] failed to decode %s body: %s', contentEncoding, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * 按 Content-Encoding 重新压缩改写后的 body；包含不支持压缩的编码（如 zstd）时返回 null，由调用方改为不压缩发送。
+ */
+export function encodeContentEncoding(buffer: Buffer, contentEncoding: string): Buffer | null {
+  let data = buffer;
+  for (const encoding of parseEncodings(contentEncoding)) {
+    switch (encoding) {
+      case 'gzip':
+      case 'x-gzip':
+        data = zlib.gzipSync(data);
+        break;
+      case 'deflate':
+        data = zlib.deflateSync(data);
+        break;
+      case 'br':
+        data = zlib.brotliCompressSync(data);
+        break;
+      default:
+        return null;
+    }
+  }
+  return data;
+}
+
+function decodeOne(data: Buffer, encoding: string, partial: boolean): Buffer {
+  const zlibOptions: zlib.ZlibOptions = {
+    maxOutputLength: MAX_DECODED_BODY_BYTES,
+    finishFlush: partial ? zlib.constants.Z_SYNC_FLUSH : zlib.constants.Z_FINISH,
+  };
+
+  switch (encoding) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.gunzipSync(data, zlibOptions);
+    case 'deflate':
+      // 规范要求 zlib 格式，但不少服务端发送的是不带头的 raw deflate
+      try {
+        return zlib.inflateSync(data, zlibOptions);
+      } catch {
+        return zlib.inflateRawSync(data, zlibOptions);
+      }
+    case 'br':
+      return zlib.brotliDecompressSync(data, {
+        maxOutputLength: MAX_DECODED_BODY_BYTES,
+        finishFlush: partial ? zlib.constants.BROTLI_OPERATION_FLUSH : zlib.constants.BROTLI_OPERATION_FINISH,
+      });
+    case 'zstd':
+      return zstdDecode(data, partial);
+    default:
+      throw new Error(`unsupported content-encoding ${encoding}`);
+  }
+}
+
+// fzstd 没有输出上限，改用流式解码逐块累计，超过上限时抛出异常，由调用方退回原始 body
+function zstdDecode(data: Buffer, partial: boolean): Buffer {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const stream = new ZstdDecompress((chunk) => {
+    size += chunk.length;
+    if (size > MAX_DECODED_BODY_BYTES) {
+      throw new RangeError(`zstd output exceeds ${MAX_DECODED_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  });
+  // partial 时不结束流，只取出已完整解出的块
+  stream.push(data, !partial);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 记录 / Flow 中使用的 body 字符串：合法 UTF-8 按文本保存，其余以 base64 保存，保证与原始字节往返无损。
+ * truncated 表示只有前一部分，末尾可能截断了一个多字节字符。
+ */
+export function bodyFromBuffer(buffer: Buffer, truncated = false): { body?: string; bodyEncoding?: BodyEncoding } {
+  if (!buffer.length) {
+    return { body: undefined, bodyEncoding: undefined };
+  }
+  // UTF-8 字符最长 4 字节，截断时最多丢掉末尾 3 个字节再判断
+  const maxTrim = truncated ? Math.min(3, buffer.length - 1) : 0;
+  for (let trim = 0; trim <= maxTrim; trim++) {
+    const text = trim ? buffer.subarray(0, buffer.length - trim) : buffer;
+    if (isUtf8(text)) {
+      return { body: text.toString('utf-8'), bodyEncoding: undefined };
+    }
+  }
+  return { body: buffer.toString('base64'), bodyEncoding: 'base64' };
+}
+
+// 把 body 字符串还原为发送用的字节
+export function bodyToBuffer(message: { body?: string; bodyEncoding?: BodyEncoding }): Buffer | undefined {
+  if (message.body === undefined) return undefined;
+  return Buffer.from(message.body, message.bodyEncoding === 'base64' ? 'base64' : 'utf-8');
+}
+
+// Content-Type 中的 MIME 类型部分，如 application/json
+export function mimeTypeOf(contentType?: string): string | undefined {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  return mimeType || undefined;
+}
@@ -0,0 +1,104 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BreakpointPhase,
+  BreakpointResolution,
+  BreakpointRule,
+  BreakpointTimeoutAction,
+  HttpRequest,
+  HttpResponse,
+  PendingBreakpoint,
+} from '../../shared/models';
+import { matchesRule } from '../flow/matcher';
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+interface PausedExchange {
+  pending: PendingBreakpoint;
+  resolve: (resolution: BreakpointResolution) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * 断点：按规则暂停请求 / 响应，直到界面给出处理结果或超时。
+ * 超时后按配置继续或中止，避免客户端一直挂起。
+ */
+export class BreakpointManager {
+  private rules: BreakpointRule[] = [];
+  private timeoutSeconds = DEFAULT_TIMEOUT_SECONDS;
+  private timeoutAction: BreakpointTimeoutAction = 'continue';
+  private paused: Map<string, PausedExchange> = new Map();
+  private onChange?: (pending: PendingBreakpoint[]) => void;
+
+  constructor(onChange?: (pending: PendingBreakpoint[]) => void) {
+    this.onChange = onChange;
+  }
+
+  configure(rules: BreakpointRule[], timeoutSeconds?: number, timeoutAction?: BreakpointTimeoutAction): void {
+    this.rules = rules.filter((r) => r && r.enabled && r.match);
+    this.timeoutSeconds = timeoutSeconds && timeoutSeconds > 0 ? timeoutSeconds : DEFAULT_TIMEOUT_SECONDS;
+    this.timeoutAction = timeoutAction || 'continue';
+  }
+
+  matches(request: HttpRequest, phase: BreakpointPhase): boolean {
+    return this.rules.some((rule) => (rule.phases || []).includes(phase) && matchesRule(request, rule.match));
+  }
+
+  /**
+   * 暂停一次交换，返回断点 id 以及处理结果（resolve 或超时后完成）。
+   */
+  pause(
+    recordId: string,
+    phase: BreakpointPhase,
+    request: HttpRequest,
+    response?: HttpResponse
+  ): { id: string; resolution: Promise<BreakpointResolution> } {
+    const id = uuidv4();
+    const now = Date.now();
+    const pending: PendingBreakpoint = {
+      id,
+      recordId,
+      phase,
+      request: { ...request, headers: { ...request.headers } },
+      response: response ? { ...response, headers: { ...response.headers } } : undefined,
+      pausedAt: now,
+      expiresAt: now + this.timeoutSeconds * 1000,
+    };
+
+    const resolution = new Promise<BreakpointResolution>((resolve) => {
+      const timer = setTimeout(() => {
+        console.log('[breakpoint] %s timed out, %s', request.url, this.timeoutAction);
+        this.resolve(id, { action: this.timeoutAction });
+      }, this.timeoutSeconds * 1000);
+      this.paused.set(id, { pending, resolve, timer });
+    });
+
+    this.notify();
+    return { id, resolution };
+  }
+
+  resolve(id: string, resolution: BreakpointResolution): boolean {
+    const paused = this.paused.get(id);
+    if (!paused) return false;
+
+    clearTimeout(paused.timer);
+    this.paused.delete(id);
+    paused.resolve(resolution);
+    this.notify();
+    return true;
+  }
+
+  getPending(): PendingBreakpoint[] {
+    return Array.from(this.paused.values(), (p) => p.pending);
+  }
+
+  // 代理停止时中止所有等待中的断点
+  releaseAll(): void {
+    for (const id of Array.from(this.paused.keys())) {
+      this.resolve(id, { action: 'abort' });
+    }
+  }
+
+  private notify(): void {
+    this.onChange?.(this.getPending());
+  }
+}
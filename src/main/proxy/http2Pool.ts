@@ -0,0 +1,89 @@
+import * as http2 from 'http2';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export type UpstreamAlpn = 'h2' | 'http/1.1';
+
+// h2 会话空闲多久后关闭
+const SESSION_IDLE_TIMEOUT_MS = 60000;
+
+export interface NegotiatedConnection {
+  // 协商到 h2 时的会话
+  session?: http2.ClientHttp2Session;
+  // 协商到 HTTP/1.1 时已完成握手的 TLS socket，交给 https.request 使用一次
+  tlsSocket?: tls.TLSSocket;
+}
+
+/**
+ * 上游 HTTPS 连接的 HTTP/2 会话池。
+ * 首次访问某个源站时通过 ALPN 协商协议并记住结果：支持 h2 的源站复用同一会话，其余走 HTTP/1.1。
+ * key 由调用方决定（源站 + 上游代理），经不同上游代理的会话不会混用。
+ */
+export class Http2SessionPool {
+  private sessions: Map<string, http2.ClientHttp2Session> = new Map();
+  private protocols: Map<string, UpstreamAlpn> = new Map();
+
+  getSession(key: string): http2.ClientHttp2Session | undefined {
+    const session = this.sessions.get(key);
+    if (session && !session.closed && !session.destroyed) {
+      return session;
+    }
+    this.sessions.delete(key);
+    return undefined;
+  }
+
+  knownProtocol(key: string): UpstreamAlpn | undefined {
+    return this.protocols.get(key);
+  }
+
+  /**
+   * 建立 TLS 连接并协商协议；socket 为经上游代理建立的隧道，未提供时直连。
+   */
+  async negotiate(key: string, hostname: string, port: number, socket?: net.Socket): Promise<NegotiatedConnection> {
+    const tlsSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const connection = tls.connect({
+        socket,
+        host: hostname,
+        port,
+        servername: net.isIP(hostname) ? undefined : hostname,
+        ALPNProtocols: ['h2', 'http/1.1'],
+      });
+      connection.once('secureConnect', () => {
+        connection.removeListener('error', reject);
+        resolve(connection);
+      });
+      connection.once('error', reject);
+    });
+
+    const protocol: UpstreamAlpn = tlsSocket.alpnProtocol === 'h2' ? 'h2' : 'http/1.1';
+    this.protocols.set(key, protocol);
+    if (protocol !== 'h2') {
+      return { tlsSocket };
+    }
+
+    const authority = net.isIPv6(hostname) ? `[${hostname}]:${port}` : `${hostname}:${port}`;
+    const session = http2.connect(`https://${authority}`, { createConnection: () => tlsSocket });
+    session.on('error', (err) => {
+      console.error('[http2] upstream session error (%s):', key, err.message);
+    });
+    session.once('close', () => {
+      if (this.sessions.get(key) === session) {
+        this.sessions.delete(key);
+      }
+    });
+    session.setTimeout(SESSION_IDLE_TIMEOUT_MS, () => session.close());
+
+    // 并发协商时可能得到多个会话，只缓存第一个，其余随空闲超时关闭
+    if (!this.getSession(key)) {
+      this.sessions.set(key, session);
+    }
+    return { session };
+  }
+
+  closeAll(): void {
+    for (const session of this.sessions.values()) {
+      session.close();
+    }
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as protobuf from 'protobufjs';
+import 'protobufjs/ext/descriptor';
+import { HttpHeaders, ProtoMapping, ProtobufBodyInfo } from '../../shared/models';
+
+// ext/descriptor 在运行时给 Root 加上 fromDescriptor，类型声明中没有
+const DescriptorRoot = protobuf.Root as typeof protobuf.Root & {
+  fromDescriptor(descriptor: Uint8Array): protobuf.Root;
+};
+
+const GRPC_CONTENT_TYPES = ['application/grpc', 'application/grpc+proto', 'application/grpc-web', 'application/grpc-web+proto'];
+const PROTOBUF_CONTENT_TYPES = ['application/x-protobuf', 'application/protobuf', 'application/x-google-protobuf', 'application/vnd.google.protobuf'];
+
+// gRPC 消息帧头：压缩标志(1) + 长度(4)
+const GRPC_FRAME_HEADER = 5;
+// gRPC-Web 中标记 trailers 帧的标志位
+const GRPC_WEB_TRAILER_FLAG = 0x80;
+
+export type ProtobufDirection = 'request' | 'response';
+
+export interface DecodedProtobufBody {
+  body: string;
+  protobuf: ProtobufBodyInfo;
+}
+
+/**
+ * Protobuf / gRPC body 编解码。
+ * 消息类型来源（按优先级）：Settings 中的 URL 映射、gRPC 路径对应的服务方法、Content-Type 的 messageType 参数。
+ */
+export class ProtobufRegistry {
+  private roots: protobuf.Root[] = [];
+  private mappings: ProtoMapping[] = [];
+
+  load(files: string[], mappings: ProtoMapping[]): void {
+    this.roots = [];
+    this.mappings = mappings.filter((m) => m && m.urlPattern);
+
+    for (const file of files.filter(Boolean)) {
+      try {
+        this.roots.push(file.endsWith('.proto') ? this.loadProtoFile(file) : DescriptorRoot.fromDescriptor(fs.readFileSync(file)));
+      } catch (error) {
+        console.error('[protobuf] failed to load %s: %s', file, (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * 尝试把 body 解码为 JSON 文本；不是 Protobuf、找不到消息类型或解码失败时返回 null。
+   */
+  decode(url: string, headers: HttpHeaders, buffer: Buffer, direction: ProtobufDirection): DecodedProtobufBody | null {
+    if (!this.roots.length || !buffer.length) return null;
+
+    const contentType = headers['content-type'] || '';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const grpc = GRPC_CONTENT_TYPES.includes(mimeType);
+    if (!grpc && !PROTOBUF_CONTENT_TYPES.includes(mimeType)) return null;
+
+    const type = this.resolveType(url, contentType, direction, grpc);
+    if (!type) return null;
+
+    try {
+      if (!grpc) {
+        return {
+          body: JSON.stringify(this.toObject(type, buffer), null, 2),
+          protobuf: { messageType: this.typeName(type) },
+        };
+      }
+
+      const messages: unknown[] = [];
+      let grpcWebTrailers: string | undefined;
+      for (const frame of readGrpcFrames(buffer)) {
+        if (frame.flags & GRPC_WEB_TRAILER_FLAG) {
+          grpcWebTrailers = frame.payload.toString('utf-8');
+          continue;
+        }
+        const payload = frame.flags & 0x01 ? decompress(frame.payload, headers['grpc-encoding']) : frame.payload;
+        messages.push(this.toObject(type, payload));
+      }
+      return {
+        body: JSON.stringify(messages.length === 1 ? messages[0] : messages, null, 2),
+        protobuf: { messageType: this.typeName(type), grpc: true, grpcWebTrailers },
+      };
+    } catch (error) {
+      console.warn('[protobuf] failed to decode %s body of %s: %s', direction, url, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * 把（可能被组件改写过的）JSON 文本重新编码为二进制；gRPC 消息一律以不压缩的帧发送。
+   */
+  encode(body: string, info: ProtobufBodyInfo): Buffer {
+    const type = this.findType(info.messageType);
+    if (!type) {
+      throw new Error(`Unknown protobuf message type ${info.messageType}`);
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(body);
+    } catch (error) {
+      throw new Error(`Protobuf body of ${info.messageType} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    if (!info.grpc) {
+      return this.fromObject(type, value);
+    }
+
+    const messages = Array.isArray(value) ? value : [value];
+    const frames = messages.map((message) => grpcFrame(0, this.fromObject(type, message)));
+    if (info.grpcWebTrailers) {
+      frames.push(grpcFrame(GRPC_WEB_TRAILER_FLAG, Buffer.from(info.grpcWebTrailers, 'utf-8')));
+    }
+    return Buffer.concat(frames);
+  }
+
+  private loadProtoFile(file: string): protobuf.Root {
+    const root = new protobuf.Root();
+    const baseDir = path.dirname(path.resolve(file));
+    // import 默认相对于当前文件解析；找不到时再相对于登记的 .proto 所在目录（相当于 protoc -I）
+    root.resolvePath = (origin, target) => {
+      const resolved = protobuf.util.path.resolve(origin, target);
+      if (fs.existsSync(resolved)) return resolved;
+      const fromBase = path.join(baseDir, target);
+      return fs.existsSync(fromBase) ? fromBase : resolved;
+    };
+    return root.loadSync(file, { keepCase: true });
+  }
+
+  private resolveType(
+    url: string,
+    contentType: string,
+    direction: ProtobufDirection,
+    grpc: boolean
+  ): protobuf.Type | null {
+    for (const mapping of this.mappings) {
+      if (!matchUrlPattern(url, mapping.urlPattern)) continue;
+      const typeName = direction === 'request' ? mapping.requestType : mapping.responseType;
+      if (typeName) {
+        return this.findType(typeName);
+      }
+    }
+
+    if (grpc) {
+      const method = this.findGrpcMethod(url);
+      if (method) {
+        return direction === 'request' ? method.resolvedRequestType : method.resolvedResponseType;
+      }
+    }
+
+    const param = /(?:messagetype|proto)=["']?([\w.]+)/i.exec(contentType);
+    return param ? this.findType(param[1]) : null;
+  }
+
+  // gRPC 路径形如 /package.Service/Method
+  private findGrpcMethod(url: string): protobuf.Method | null {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return null;
+    }
+    const [, serviceName, methodName] = pathname.split('/');
+    if (!serviceName || !methodName) return null;
+
+    for (const root of this.roots) {
+      const service = root.lookup(serviceName);
+      const method = service instanceof protobuf.Service ? service.methods[methodName] : undefined;
+      if (method) {
+        method.resolve();
+        return method;
+      }
+    }
+    return null;
+  }
+
+  private findType(name: string): protobuf.Type | null {
+    for (const root of this.roots) {
+      const type = root.lookup(name);
+      if (type instanceof protobuf.Type) {
+        return type;
+      }
+    }
+    return null;
+  }
+
+  private typeName(type: protobuf.Type): string {
+    return type.fullName.replace(/^\./, '');
+  }
+
+  private toObject(type: protobuf.Type, payload: Buffer): unknown {
+    return type.toObject(type.decode(payload), { longs: String, enums: String, bytes: String });
+  }
+
+  private fromObject(type: protobuf.Type, value: unknown): Buffer {
+    const message = type.fromObject(value as Record<string, unknown>);
+    return Buffer.from(type.encode(message).finish());
+  }
+}
+
+function readGrpcFrames(buffer: Buffer): { flags: number; payload: Buffer }[] {
+  const frames: { flags: number; payload: Buffer }[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    if (offset + GRPC_FRAME_HEADER > buffer.length) {
+      throw new Error('incomplete gRPC frame header');
+    }
+    const flags = buffer[offset];
+    const length = buffer.readUInt32BE(offset + 1);
+    const end = offset + GRPC_FRAME_HEADER + length;
+    if (end > buffer.length) {
+      throw new Error('incomplete gRPC frame');
+    }
+    frames.push({ flags, payload: buffer.subarray(offset + GRPC_FRAME_HEADER, end) });
+    offset = end;
+  }
+  return frames;
+}
+
+function grpcFrame(flags: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(GRPC_FRAME_HEADER);
+  header[0] = flags;
+  header.writeUInt32BE(payload.length, 1);
+  return Buffer.concat([header, payload]);
+}
+
+function decompress(payload: Buffer, encoding?: string): Buffer {
+  switch ((encoding || '').toLowerCase()) {
+    case 'gzip':
+      return zlib.gunzipSync(payload);
+    case 'deflate':
+      return zlib.inflateSync(payload);
+    default:
+      throw new Error(`unsupported grpc-encoding ${encoding || '(none)'}`);
+  }
+}
+
+function matchUrlPattern(url: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regexPattern}$`, 'i').test(url);
+}
@@ -1,15 +1,78 @@
 import * as http from 'http';
 import * as https from 'https';
+import * as http2 from 'http2';
 import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
 import { AddressInfo } from 'net';
 import { URL } from 'url';
+import { Readable, Transform, Writable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
-import { HttpRequest, HttpResponse, RequestRecord } from '../../shared/models';
+import {
+  HttpRequest,
+  HttpResponse,
+  RequestRecord,
+  RequestAttempt,
+  WebSocketFrameRecord,
+  UpstreamProxy,
+  UpstreamRule,
+  ReverseProxyListener,
+  DIRECT_UPSTREAM,
+  ProtoMapping,
+  BreakpointPhase,
+  BreakpointResolution,
+  BreakpointRule,
+  BreakpointTimeoutAction,
+  PendingBreakpoint,
+  NetworkConditions,
+} from '../../shared/models';
 import { RequestStore } from '../store/requestStore';
 import { FlowStore } from '../store/flowStore';
 import { ComponentStore } from '../store/componentStore';
+import { CassetteStore, getCassetteStore } from '../store/cassetteStore';
 import { FlowEngine } from '../flow/flowEngine';
 import { getCertManager } from './certManager';
+import { relayWebSocket } from './webSocketRelay';
+import { MapRemoteMapping, rewriteMappedResponseHeaders } from '../components/mapRemote';
+import { BodyCapture } from './bodyCapture';
+import { RetryPolicy, parseRetryPolicy, retryDelay } from './retry';
+import { createThrottle, normalizeNetworkConditions } from './throttle';
+import { bodyFromBuffer, bodyToBuffer, decodeContentEncoding, encodeContentEncoding, mimeTypeOf } from './bodyCodec';
+import { resolveUpstream, connectThroughUpstream, proxyAuthorization } from './upstream';
+import { SOCKS_REPLY, SocksServer, socksReplyForError } from './socksServer';
+import { sniffTunnel } from './tunnelSniffer';
+import { Http2SessionPool, NegotiatedConnection, UpstreamAlpn } from './http2Pool';
+import { ProtobufDirection, ProtobufRegistry } from './protobufCodec';
+import { BreakpointManager } from './breakpointManager';
+
+// 每个 WebSocket 连接最多保留的帧日志条数
+const MAX_WS_FRAMES = 1000;
+
+// HTTP/2 中不允许出现的连接级头（host 由 :authority 表示）
+const HTTP2_CONNECTION_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'transfer-encoding',
+  'upgrade',
+  'http2-settings',
+  'host',
+]);
+
+// 客户端请求 / 响应：HTTPS 解密时可能是 HTTP/2 兼容层对象
+type ClientRequest = http.IncomingMessage | http2.Http2ServerRequest;
+type ClientResponse = http.ServerResponse | http2.Http2ServerResponse;
+
+// 上游响应（HTTP/1.1 或 h2），收到响应头时即可用
+interface UpstreamResponse {
+  statusCode: number;
+  statusMessage?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Readable;
+  protocol: UpstreamAlpn;
+  // body 读完后才可用
+  getTrailers: () => Record<string, string> | undefined;
+}
 
 interface ProxyEngineOptions {
   port: number;
@@ -19,6 +82,22 @@ interface ProxyEngineOptions {
   onRequest?: (record: RequestRecord) => void;
   // 是否启用 HTTPS MITM 解密
   httpsMitmEnabled?: boolean;
+  // 上游代理与按 Host 的选择规则
+  upstreamProxies?: UpstreamProxy[];
+  upstreamRules?: UpstreamRule[];
+  // SOCKS5 监听端口，未设置时不启用
+  socksPort?: number;
+  reverseProxies?: ReverseProxyListener[];
+  // 用于解码 gRPC / Protobuf body 的 .proto 文件与消息类型映射
+  protoFiles?: string[];
+  protoMappings?: ProtoMapping[];
+  // 断点规则与超时策略；等待处理的断点变化时回调
+  breakpoints?: BreakpointRule[];
+  breakpointTimeoutSeconds?: number;
+  breakpointTimeoutAction?: BreakpointTimeoutAction;
+  onBreakpointsChanged?: (pending: PendingBreakpoint[]) => void;
+  // 全局网络环境模拟，未设置时不整形
+  networkConditions?: NetworkConditions;
 }
 
 export class ProxyEngine {
@@ -32,8 +111,22 @@ export class ProxyEngine {
   private running: boolean = false;
   private httpsMitmEnabled: boolean;
   private certManager = getCertManager();
-  private httpsMitmServers: Map<string, { server: https.Server; port: number }> = new Map();
+  private httpsMitmServers: Map<string, { server: http2.Http2SecureServer; port: number }> = new Map();
+  private http2Pool = new Http2SessionPool();
   private connections: Set<net.Socket> = new Set();
+  private upstreamProxies: UpstreamProxy[];
+  private upstreamRules: UpstreamRule[];
+  private socksPort?: number;
+  private socksServer: SocksServer;
+  // 隧道中明文 HTTP 的内部服务，以及连接（按本地端口）对应的隧道目标
+  private tunnelHttpServer: { server: http.Server; port: number } | null = null;
+  private tunnelHttpTargets: Map<number, { hostname: string; port: number }> = new Map();
+  private reverseProxies: ReverseProxyListener[];
+  private reverseServers: Map<string, net.Server> = new Map();
+  private protobufRegistry = new ProtobufRegistry();
+  private breakpoints: BreakpointManager;
+  private cassettes: CassetteStore = getCassetteStore();
+  private networkConditions?: NetworkConditions;
 
   constructor(options: ProxyEngineOptions) {
     this.port = options.port;
@@ -43,6 +136,21 @@ export class ProxyEngine {
     this.onRequest = options.onRequest;
     this.flowEngine = new FlowEngine(this.flowStore, this.componentStore);
     this.httpsMitmEnabled = !!options.httpsMitmEnabled;
+    this.upstreamProxies = options.upstreamProxies || [];
+    this.upstreamRules = options.upstreamRules || [];
+    this.socksPort = options.socksPort;
+    this.reverseProxies = options.reverseProxies || [];
+    this.protobufRegistry.load(options.protoFiles || [], options.protoMappings || []);
+    this.breakpoints = new BreakpointManager(options.onBreakpointsChanged);
+    this.breakpoints.configure(
+      options.breakpoints || [],
+      options.breakpointTimeoutSeconds,
+      options.breakpointTimeoutAction
+    );
+    this.networkConditions = options.networkConditions;
+    this.socksServer = new SocksServer((socket, hostname, port, reply) => {
+      this.handleSocksConnect(socket, hostname, port, reply);
+    });
     console.log('[ProxyEngine] init, port=%d, httpsMitmEnabled=%s', this.port, this.httpsMitmEnabled);
   }
 
@@ -51,6 +159,60 @@ export class ProxyEngine {
     console.log('[ProxyEngine] httpsMitmEnabled set to', enabled);
   }
 
+  setUpstreamConfig(proxies: UpstreamProxy[], rules: UpstreamRule[]): void {
+    this.upstreamProxies = proxies;
+    this.upstreamRules = rules;
+    console.log('[ProxyEngine] upstream config updated, proxies=%d, rules=%d', proxies.length, rules.length);
+  }
+
+  // 重新加载 .proto 文件（文件内容变化后再次保存设置即可生效）
+  setProtobufConfig(files: string[], mappings: ProtoMapping[]): void {
+    this.protobufRegistry.load(files, mappings);
+    console.log('[ProxyEngine] protobuf config updated, files=%d, mappings=%d', files.length, mappings.length);
+  }
+
+  setBreakpointConfig(rules: BreakpointRule[], timeoutSeconds?: number, timeoutAction?: BreakpointTimeoutAction): void {
+    this.breakpoints.configure(rules, timeoutSeconds, timeoutAction);
+    console.log('[ProxyEngine] breakpoints updated, rules=%d', rules.length);
+  }
+
+  setNetworkConditions(conditions: NetworkConditions | undefined): void {
+    this.networkConditions = conditions;
+    console.log('[ProxyEngine] network conditions updated:', conditions ? JSON.stringify(conditions) : 'none');
+  }
+
+  getPendingBreakpoints(): PendingBreakpoint[] {
+    return this.breakpoints.getPending();
+  }
+
+  // 界面处理断点（继续 / 中止 / Mock）；断点已超时或不存在时返回 false
+  resolveBreakpoint(id: string, resolution: BreakpointResolution): boolean {
+    return this.breakpoints.resolve(id, resolution);
+  }
+
+  // 更新 SOCKS5 监听端口（undefined 表示关闭），代理运行中时立即生效
+  async setSocksPort(port?: number): Promise<void> {
+    if (port === this.socksPort) return;
+    this.socksPort = port;
+    console.log('[ProxyEngine] socksPort set to', port);
+    await this.socksServer.stop();
+    if (this.running) {
+      await this.startSocksServer();
+    }
+  }
+
+  // 更新反向代理监听，代理运行中时按新配置重建
+  async setReverseProxies(listeners: ReverseProxyListener[]): Promise<void> {
+    // 保存设置时会整体提交配置，未变化时不重建，避免断开现有连接
+    if (JSON.stringify(listeners) === JSON.stringify(this.reverseProxies)) return;
+    this.reverseProxies = listeners;
+    console.log('[ProxyEngine] reverse proxies updated, count=%d', listeners.length);
+    if (this.running) {
+      await this.stopReverseProxies();
+      await this.startReverseProxies();
+    }
+  }
+
   start(): Promise<boolean> {
     return new Promise((resolve, reject) => {
       if (this.running) {
@@ -63,11 +225,12 @@ export class ProxyEngine {
       });
 
       // 跟踪所有连接，便于优雅关闭时快速销毁
-      this.server.on('connection', (socket: net.Socket) => {
-        this.connections.add(socket);
-        socket.on('close', () => {
-          this.connections.delete(socket);
-        });
+      this.server.on('connection', (socket: net.Socket) => this.trackConnection(socket));
+
+      // WebSocket 握手（ws:// 绝对地址形式）
+      this.server.on('upgrade', (req, socket: net.Socket, head) => {
+        req.url = (req.url || '/').replace(/^ws(s?):\/\//i, 'http$1://');
+        this.handleUpgrade(req, socket, head, this.toAbsoluteUrl(req));
       });
 
       // Handle CONNECT method for HTTPS
@@ -80,9 +243,11 @@ export class ProxyEngine {
         reject(err);
       });
 
-      this.server.listen(this.port, () => {
+      this.server.listen(this.port, async () => {
         console.log(`Proxy server listening on port ${this.port}`);
         this.running = true;
+        await this.startSocksServer();
+        await this.startReverseProxies();
         resolve(true);
       });
     });
@@ -104,6 +269,10 @@ export class ProxyEngine {
         }
       }
       this.connections.clear();
+      this.socksServer.stop();
+      this.stopReverseProxies();
+      this.http2Pool.closeAll();
+      this.breakpoints.releaseAll();
 
       this.server.close(() => {
         this.running = false;
@@ -118,6 +287,10 @@ export class ProxyEngine {
           }
         }
         this.httpsMitmServers.clear();
+        if (this.tunnelHttpServer) {
+          this.tunnelHttpServer.server.close();
+          this.tunnelHttpServer = null;
+        }
         resolve(true);
       });
     });
@@ -139,258 +312,1088 @@ export class ProxyEngine {
     const requestId = uuidv4();
 
     try {
-      // 构建 HttpRequest
-      const httpRequest = await this.buildHttpRequest(requestId, clientReq);
-      
-      // 创建请求记录
-      const record: RequestRecord = {
-        id: requestId,
-        request: httpRequest,
-      };
-      
+      // 构建 HttpRequest（body 在 processExchange 中按需读取）
+      const httpRequest = this.buildHttpRequest(requestId, clientReq);
+      if (this.isSelfUrl(httpRequest.url)) {
+        // 直接访问代理端口本身，转发只会回到自己
+        clientRes.writeHead(400, { 'Content-Type': 'text/plain' });
+        clientRes.end('FlowProxy is a proxy server. Configure it as your HTTP proxy, or add a reverse proxy listener in Settings.');
+        return;
+      }
+      await this.processExchange(clientReq, httpRequest, clientRes, startTime);
+    } catch (error) {
+      console.error('Request handling error:', error);
+      this.sendProxyError(clientRes, 'Proxy Error: ' + (error as Error).message);
+    }
+  }
+
+  // 请求阶段 Flow → 转发上游 → 响应阶段 Flow → 回写客户端，并维护请求记录
+  private async processExchange(
+    clientReq: ClientRequest,
+    httpRequest: HttpRequest,
+    clientRes: ClientResponse,
+    startTime: number
+  ): Promise<void> {
+    // 只有匹配到需要 body 的 Flow、请求断点或录制中的 Cassette 时才先读完请求 body，否则转发时边读边发
+    const requestBreakpoint = this.breakpoints.matches(httpRequest, 'request');
+    const recording = this.cassettes.isRecording(httpRequest);
+    const bufferRequest = requestBreakpoint || recording || this.flowEngine.needsRequestBody(httpRequest);
+    let rawRequestBody: Buffer | undefined;
+    if (bufferRequest) {
+      rawRequestBody = await this.readBody(clientReq);
+      this.applyCapturedBody(httpRequest, httpRequest.url, rawRequestBody, 'request');
+      httpRequest.bodySize = rawRequestBody.length;
+    }
+
+    // 创建请求记录
+    const record: RequestRecord = {
+      id: httpRequest.id,
+      request: httpRequest,
+      protocol: clientReq.httpVersion === '2.0' ? 'h2' : `http/${clientReq.httpVersion}`,
+    };
+
+    this.requestStore.add(record);
+    this.onRequest?.(record);
+
+    // 执行流程引擎
+    let flowResult = await this.flowEngine.processRequest(httpRequest);
+
+    // 请求断点：在 Flow 之后、转发上游之前暂停，可编辑请求或直接给出响应
+    if (requestBreakpoint && !flowResult.response) {
+      const resolution = await this.pauseAtBreakpoint(clientRes, record, 'request', flowResult.request);
+      if (resolution.action === 'continue') {
+        flowResult = { ...flowResult, request: resolution.request || flowResult.request };
+      } else {
+        flowResult = { ...flowResult, response: this.breakpointResponse(resolution) };
+      }
+    }
+    // 流式模式下组件也可以直接给出新的请求 body，此时不再转发客户端的 body
+    const streamRequest = !bufferRequest && flowResult.request.body === undefined;
+    const retryPolicy = parseRetryPolicy(flowResult.vars?.retry);
+    const conditions = this.conditionsFor(flowResult.vars);
+
+    if (flowResult.response) {
+      // 流程返回了响应（如 mock）
+      if (!bufferRequest) {
+        clientReq.resume();
+      }
+      record.response = flowResult.response;
+      record.durationMs = Date.now() - startTime;
+      record.matchedFlowId = flowResult.matchedFlowId;
+      record.flowTrace = flowResult.trace;
       this.requestStore.add(record);
       this.onRequest?.(record);
 
-      // 执行流程引擎
-      const flowResult = await this.flowEngine.processRequest(httpRequest);
-      
-      if (flowResult.response) {
-        // 流程返回了响应（如 mock）
-        record.response = flowResult.response;
-        record.durationMs = Date.now() - startTime;
-        record.matchedFlowId = flowResult.matchedFlowId;
-        this.requestStore.add(record);
-        this.onRequest?.(record);
-        
-        this.sendResponse(clientRes, flowResult.response);
-        return;
+      this.sendResponse(clientRes, flowResult.response, undefined, conditions);
+      return;
+    }
+
+    let forwardedRequest = flowResult.request;
+    let requestBody: Buffer | string | Readable | undefined;
+    if (streamRequest && retryPolicy) {
+      // 重试时需要重新发送 body，先完整读取
+      const rawBody = await this.readBody(clientReq);
+      this.applyCapturedBody(httpRequest, httpRequest.url, rawBody, 'request');
+      httpRequest.bodySize = rawBody.length;
+      requestBody = rawBody;
+    } else if (streamRequest) {
+      this.captureBody(clientReq, (capture) => {
+        this.applyCapturedBody(httpRequest, httpRequest.url, capture.toBuffer(), 'request', capture.truncated);
+        httpRequest.bodySize = capture.size;
+        httpRequest.bodyTruncated = capture.truncated || undefined;
+      });
+      requestBody = clientReq;
+    } else {
+      if (!bufferRequest) {
+        clientReq.resume();
+      }
+      // body 未被改写时发送原始字节，否则以 Flow / 断点给出的 body 为准
+      const bodyChanged = flowResult.request.body !== httpRequest.body
+        || flowResult.request.bodyEncoding !== httpRequest.bodyEncoding;
+      if (bodyChanged || !rawRequestBody) {
+        ({ request: forwardedRequest, body: requestBody } = this.encodeRequestBody(flowResult.request));
+      } else {
+        requestBody = rawRequestBody;
       }
+    }
+
+    // 转发请求到目标服务器
+    const targetUrl = new URL(flowResult.request.url);
+    const upstreamRes = await this.forwardWithRetry(
+      record,
+      retryPolicy,
+      forwardedRequest,
+      targetUrl,
+      requestBody,
+      flowResult.vars?.upstreamProxy,
+      conditions
+    );
+    const upstreamHead: HttpResponse = {
+      statusCode: upstreamRes.statusCode,
+      statusMessage: upstreamRes.statusMessage,
+      headers: this.upstreamResponseHeaders(upstreamRes.headers, flowResult.vars),
+    };
+    record.matchedFlowId = flowResult.matchedFlowId;
+    record.flowTrace = flowResult.trace;
+    record.upstreamProtocol = upstreamRes.protocol;
+
+    const responseBreakpoint = this.breakpoints.matches(httpRequest, 'response');
+    if (responseBreakpoint || recording || this.flowEngine.needsResponseBody(flowResult)) {
+      const rawBody = await this.readBody(upstreamRes.body);
+      const upstreamResponse: HttpResponse = {
+        ...upstreamHead,
+        bodySize: rawBody.length,
+        trailers: upstreamRes.getTrailers(),
+      };
+      this.applyCapturedBody(upstreamResponse, httpRequest.url, rawBody, 'response');
+      // Cassette 录制的是客户端原始请求与上游原始响应，回放时再经过 Flow
+      if (recording) {
+        this.cassettes.record(httpRequest, upstreamResponse);
+      }
+
+      // 响应阶段：已匹配 Flow 可以检查 / 改写真实的上游响应
+      let response = await this.flowEngine.processResponse(flowResult, upstreamResponse);
+
+      // 响应断点：在回写客户端之前暂停，可编辑响应
+      if (responseBreakpoint) {
+        const resolution = await this.pauseAtBreakpoint(clientRes, record, 'response', flowResult.request, response);
+        response = resolution.action === 'continue' ? resolution.response || response : this.breakpointResponse(resolution);
+      }
+      const bodyChanged = response.body !== upstreamResponse.body
+        || response.bodyEncoding !== upstreamResponse.bodyEncoding;
 
-      // 转发请求到目标服务器
-      const targetUrl = new URL(flowResult.request.url);
-      const { response, rawBody } = await this.forwardRequest(flowResult.request, targetUrl);
- 
       record.response = response;
       record.durationMs = Date.now() - startTime;
-      record.matchedFlowId = flowResult.matchedFlowId;
       this.requestStore.add(record);
       this.onRequest?.(record);
- 
-      this.sendResponse(clientRes, response, rawBody);
-    } catch (error) {
-      console.error('Request handling error:', error);
-      clientRes.writeHead(502, { 'Content-Type': 'text/plain' });
-      clientRes.end('Proxy Error: ' + (error as Error).message);
+
+      // body 未被改写时继续透传原始字节，否则以改写后的文本为准
+      this.sendResponse(clientRes, response, bodyChanged ? undefined : rawBody, conditions);
+      return;
     }
+
+    // 流式响应：响应阶段（如有）只能看到状态码和 headers
+    const response = await this.flowEngine.processResponse(flowResult, upstreamHead);
+
+    if (response.body !== undefined) {
+      // 组件直接给出了响应 body，丢弃上游 body
+      upstreamRes.body.resume();
+      record.response = response;
+      record.durationMs = Date.now() - startTime;
+      this.requestStore.add(record);
+      this.onRequest?.(record);
+
+      this.sendResponse(clientRes, response, undefined, conditions);
+      return;
+    }
+
+    record.response = response;
+    this.requestStore.add(record);
+    this.onRequest?.(record);
+
+    const capture = await this.streamResponse(clientRes, response, upstreamRes, conditions);
+    this.applyCapturedBody(response, httpRequest.url, capture.toBuffer(), 'response', capture.truncated);
+    response.bodySize = capture.size;
+    response.bodyTruncated = capture.truncated || undefined;
+    record.durationMs = Date.now() - startTime;
+    this.requestStore.add(record);
+    this.onRequest?.(record);
   }
 
-  private async buildHttpRequest(
-    id: string,
-    req: http.IncomingMessage
-  ): Promise<HttpRequest> {
+  /**
+   * Resend / Compose：不经过客户端连接，直接按 Flow（可选）→ 上游 → 响应阶段发送，结果记录为新的请求。
+   * 不触发断点；请求 body 按记录中的解码形式给出，发送前按 Content-Encoding / Protobuf 重新编码。
+   */
+  async sendRequest(request: HttpRequest, applyFlows: boolean, resentFromId?: string): Promise<RequestRecord> {
+    const startTime = Date.now();
+    const httpRequest: HttpRequest = {
+      ...request,
+      id: uuidv4(),
+      headers: { ...request.headers },
+      contentType: mimeTypeOf(request.headers['content-type']),
+      bodySize: bodyToBuffer(request)?.length,
+      bodyTruncated: undefined,
+      timestamp: startTime,
+      clientIp: undefined,
+      clientPort: undefined,
+    };
+    const record: RequestRecord = { id: httpRequest.id, request: httpRequest, resentFromId };
+    this.requestStore.add(record);
+    this.onRequest?.(record);
+
+    const flowResult = applyFlows ? await this.flowEngine.processRequest(httpRequest) : { request: httpRequest };
+    record.matchedFlowId = flowResult.matchedFlowId;
+    record.flowTrace = flowResult.trace;
+
+    if (flowResult.response) {
+      record.response = flowResult.response;
+    } else {
+      const { request: forwardedRequest, body } = this.encodeRequestBody(flowResult.request);
+      const upstreamRes = await this.forwardWithRetry(
+        record,
+        parseRetryPolicy(flowResult.vars?.retry),
+        forwardedRequest,
+        new URL(flowResult.request.url),
+        body,
+        flowResult.vars?.upstreamProxy
+      );
+      const rawBody = await this.readBody(upstreamRes.body);
+      const upstreamResponse: HttpResponse = {
+        statusCode: upstreamRes.statusCode,
+        statusMessage: upstreamRes.statusMessage,
+        headers: this.upstreamResponseHeaders(upstreamRes.headers, flowResult.vars),
+        bodySize: rawBody.length,
+        trailers: upstreamRes.getTrailers(),
+      };
+      this.applyCapturedBody(upstreamResponse, httpRequest.url, rawBody, 'response');
+      record.upstreamProtocol = upstreamRes.protocol;
+      record.response = applyFlows ? await this.flowEngine.processResponse(flowResult, upstreamResponse) : upstreamResponse;
+    }
+
+    record.durationMs = Date.now() - startTime;
+    this.requestStore.add(record);
+    this.onRequest?.(record);
+    return record;
+  }
+
+  private async pauseAtBreakpoint(
+    clientRes: ClientResponse,
+    record: RequestRecord,
+    phase: BreakpointPhase,
+    request: HttpRequest,
+    response?: HttpResponse
+  ): Promise<BreakpointResolution> {
+    const { id, resolution } = this.breakpoints.pause(record.id, phase, request, response);
+    // 客户端在等待期间断开时直接中止，不再占用断点列表
+    const onClose = () => this.breakpoints.resolve(id, { action: 'abort' });
+    clientRes.once('close', onClose);
+    try {
+      return await resolution;
+    } finally {
+      clientRes.off('close', onClose);
+    }
+  }
+
+  // 断点被 Mock 时返回界面给出的响应，被中止（或超时中止）时返回 502
+  private breakpointResponse(resolution: BreakpointResolution): HttpResponse {
+    if (resolution.action === 'mock' && resolution.response) {
+      return resolution.response;
+    }
+    return {
+      statusCode: 502,
+      statusMessage: 'Bad Gateway',
+      headers: { 'content-type': 'text/plain' },
+      body: 'Aborted at breakpoint by FlowProxy',
+    };
+  }
+
+  // Flow 中的 Bandwidth Throttle 组件（ctx.vars.throttle）优先于全局网络环境
+  private conditionsFor(vars: Record<string, any> | undefined): NetworkConditions | undefined {
+    return vars?.throttle ? normalizeNetworkConditions(vars.throttle) : this.networkConditions;
+  }
+
+  // Map Remote 改写过 URL 时，把上游响应的 Location / Set-Cookie 映射回客户端请求的原始地址
+  private upstreamResponseHeaders(
+    rawHeaders: http.IncomingHttpHeaders | http2.IncomingHttpHeaders,
+    vars: Record<string, any> | undefined
+  ): Record<string, string> {
+    const headers = this.collectHeaders(rawHeaders);
+    const mapping = vars?.mapRemote as MapRemoteMapping | undefined;
+    return mapping ? rewriteMappedResponseHeaders(headers, mapping) : headers;
+  }
+
+  private collectHeaders(rawHeaders: http.IncomingHttpHeaders | http2.IncomingHttpHeaders): Record<string, string> {
     const headers: Record<string, string> = {};
-    for (const [key, value] of Object.entries(req.headers)) {
+    for (const [key, value] of Object.entries(rawHeaders)) {
+      // HTTP/2 伪头（:method、:path 等）不属于普通 header
+      if (key.startsWith(':')) continue;
       if (value) {
-        headers[key] = Array.isArray(value) ? value.join(', ') : value;
+        headers[key] = Array.isArray(value) ? value.join(', ') : String(value);
       }
     }
+    // HTTP/2 请求没有 Host 头，用 :authority 代替
+    const authority = (rawHeaders as http2.IncomingHttpHeaders)[':authority'];
+    if (!headers.host && authority) {
+      headers.host = authority;
+    }
+    return headers;
+  }
 
-    const body = await this.readBody(req);
+  private buildHttpRequest(
+    id: string,
+    req: http.IncomingMessage
+  ): HttpRequest {
+    const headers = this.collectHeaders(req.headers);
 
     return {
       id,
       method: req.method || 'GET',
-      url: req.url || '/',
+      url: this.toAbsoluteUrl(req),
       headers,
-      body: body || undefined,
       timestamp: Date.now(),
       clientIp: req.socket.remoteAddress,
       clientPort: req.socket.remotePort,
     };
   }
 
-  private readBody(req: http.IncomingMessage): Promise<string> {
+  // 代理请求为绝对地址（absolute-form）；直接发到代理端口的 origin-form 请求按 Host 头补全
+  private toAbsoluteUrl(req: http.IncomingMessage): string {
+    const rawUrl = req.url || '/';
+    if (!rawUrl.startsWith('/')) {
+      return rawUrl;
+    }
+    const host = req.headers.host || `localhost:${this.port}`;
+    return `http://${host}${rawUrl}`;
+  }
+
+  private isSelfUrl(url: string): boolean {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return false;
+    }
+    const port = Number(target.port) || (target.protocol === 'https:' ? 443 : 80);
+    if (port !== this.port) {
+      return false;
+    }
+
+    const hostname = this.stripBrackets(target.hostname);
+    if (hostname === 'localhost' || hostname === '0.0.0.0') {
+      return true;
+    }
+    return Object.values(os.networkInterfaces()).some((addresses) =>
+      (addresses || []).some((address) => address.address === hostname)
+    );
+  }
+
+  private readBody(stream: Readable): Promise<Buffer> {
     return new Promise((resolve) => {
       const chunks: Buffer[] = [];
-      req.on('data', (chunk) => chunks.push(chunk));
-      req.on('end', () => {
-        const body = Buffer.concat(chunks).toString('utf-8');
-        resolve(body);
-      });
-      req.on('error', () => resolve(''));
+      stream.on('data', (chunk) => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', () => resolve(Buffer.concat(chunks)));
     });
   }
 
+  // 边转发边保留有上限的 body 副本，流结束（或中断）时回调
+  private captureBody(stream: Readable, onDone: (capture: BodyCapture) => void): void {
+    const capture = new BodyCapture();
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      onDone(capture);
+    };
+    stream.on('data', (chunk: Buffer) => capture.push(chunk));
+    stream.on('end', finish);
+    stream.on('close', finish);
+    // 监听 data 会让流开始流动；在调用方 pipe 之前（如等待上游连接）先暂停，避免数据丢失
+    stream.pause();
+  }
+
+  /**
+   * 为请求记录和 Flow 生成 body 文本：先按 Content-Encoding 解压，再按 Protobuf 或文本规则解码。
+   * 转发时仍使用原始字节；truncated 表示 buffer 只是流式转发时保留的前一部分。
+   */
+  private applyCapturedBody(
+    message: HttpRequest | HttpResponse,
+    url: string,
+    buffer: Buffer,
+    direction: ProtobufDirection,
+    truncated = false
+  ): void {
+    message.contentType = mimeTypeOf(message.headers['content-type']);
+    const contentEncoding = message.headers['content-encoding'];
+    const decoded = contentEncoding ? decodeContentEncoding(buffer, contentEncoding, truncated) : buffer;
+    if (!decoded) {
+      // 无法解压：不提供 body，仅用原始字节透传
+      message.body = undefined;
+      message.bodyEncoding = undefined;
+      return;
+    }
+
+    if (!truncated) {
+      const protobufBody = this.protobufRegistry.decode(url, message.headers, decoded, direction);
+      if (protobufBody) {
+        message.body = protobufBody.body;
+        message.bodyEncoding = undefined;
+        message.protobuf = protobufBody.protobuf;
+        return;
+      }
+    }
+
+    Object.assign(message, bodyFromBuffer(decoded, truncated));
+  }
+
+  // 改写过的 body：按原 Content-Encoding 重新压缩；包含不支持压缩的编码（如 zstd）时去掉该头以明文发送
+  // Flow / 断点 / Compose 给出的请求 body：Protobuf 按消息类型重新编码，其余按 bodyEncoding 还原为字节，
+  // 再按请求声明的 Content-Encoding 重新压缩
+  private encodeRequestBody(request: HttpRequest): { request: HttpRequest; body?: Buffer } {
+    const body = request.protobuf && request.body !== undefined
+      ? this.protobufRegistry.encode(request.body, request.protobuf)
+      : bodyToBuffer(request);
+    if (!body) {
+      return { request };
+    }
+    const encoded = this.encodeChangedBody(request.headers, body);
+    return { request: { ...request, headers: encoded.headers }, body: encoded.body };
+  }
+
+  private encodeChangedBody(
+    headers: Record<string, string>,
+    body: Buffer
+  ): { headers: Record<string, string>; body: Buffer } {
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === 'content-encoding');
+    if (!key) {
+      return { headers, body };
+    }
+    const encoded = encodeContentEncoding(body, headers[key]);
+    if (encoded) {
+      return { headers, body: encoded };
+    }
+    const rest = { ...headers };
+    delete rest[key];
+    return { headers: rest, body };
+  }
+
   private async handleHttpsRequest(
     hostname: string,
     targetPort: number,
-    clientReq: http.IncomingMessage,
-    clientRes: http.ServerResponse
+    clientReq: ClientRequest,
+    clientRes: ClientResponse
   ): Promise<void> {
     const startTime = Date.now();
     const requestId = uuidv4();
 
     try {
-      const httpRequest = await this.buildHttpsHttpRequest(requestId, clientReq, hostname, targetPort);
-
-      const record: RequestRecord = {
-        id: requestId,
-        request: httpRequest,
-      };
-
-      this.requestStore.add(record);
-      this.onRequest?.(record);
-
-      const flowResult = await this.flowEngine.processRequest(httpRequest);
-
-      if (flowResult.response) {
-        record.response = flowResult.response;
-        record.durationMs = Date.now() - startTime;
-        record.matchedFlowId = flowResult.matchedFlowId;
-        this.requestStore.add(record);
-        this.onRequest?.(record);
-
-        this.sendResponse(clientRes, flowResult.response);
-        return;
-      }
-
-      const targetUrl = new URL(flowResult.request.url);
-      const { response, rawBody } = await this.forwardRequest(flowResult.request, targetUrl);
-      
-      record.response = response;
-      record.durationMs = Date.now() - startTime;
-      record.matchedFlowId = flowResult.matchedFlowId;
-      this.requestStore.add(record);
-      this.onRequest?.(record);
- 
-      this.sendResponse(clientRes, response, rawBody);
+      const httpRequest = this.buildHttpsHttpRequest(requestId, clientReq, hostname, targetPort);
+      await this.processExchange(clientReq, httpRequest, clientRes, startTime);
     } catch (error) {
       console.error('HTTPS MITM request handling error:', error);
-      clientRes.writeHead(502, { 'Content-Type': 'text/plain' });
-      clientRes.end('HTTPS Proxy Error: ' + (error as Error).message);
+      this.sendProxyError(clientRes, 'HTTPS Proxy Error: ' + (error as Error).message);
     }
   }
 
-  private async buildHttpsHttpRequest(
+  private buildHttpsHttpRequest(
     id: string,
-    req: http.IncomingMessage,
+    req: ClientRequest,
     hostname: string,
     targetPort: number
-  ): Promise<HttpRequest> {
-    const headers: Record<string, string> = {};
-    for (const [key, value] of Object.entries(req.headers)) {
-      if (value) {
-        headers[key] = Array.isArray(value) ? value.join(', ') : value;
-      }
-    }
-
-    const body = await this.readBody(req);
-    const rawPath = req.url || '/';
-    const pathWithSlash = rawPath.startsWith('/') ? rawPath : `/${rawPath}`;
-    const portPart = targetPort && targetPort !== 443 ? `:${targetPort}` : '';
-    const fullUrl = `https://${hostname}${portPart}${pathWithSlash}`;
+  ): HttpRequest {
+    const headers = this.collectHeaders(req.headers);
+    const fullUrl = this.buildHttpsUrl(hostname, targetPort, req.url);
 
     return {
       id,
       method: req.method || 'GET',
       url: fullUrl,
       headers,
-      body: body || undefined,
       timestamp: Date.now(),
       clientIp: req.socket.remoteAddress,
       clientPort: req.socket.remotePort,
     };
   }
 
-  private forwardRequest(
+  private buildHttpsUrl(hostname: string, targetPort: number, rawPath?: string): string {
+    const path = rawPath || '/';
+    const pathWithSlash = path.startsWith('/') ? path : `/${path}`;
+    const portPart = targetPort && targetPort !== 443 ? `:${targetPort}` : '';
+    return `https://${hostname}${portPart}${pathWithSlash}`;
+  }
+
+  /**
+   * Retry Hint 生效时按策略转发：网络错误或命中的状态码会丢弃本次响应，等待后重新发送，
+   * 每次尝试记录在 record.attempts 中。流式 body 无法重发，按普通转发处理。
+   */
+  private async forwardWithRetry(
+    record: RequestRecord,
+    policy: RetryPolicy | undefined,
     httpRequest: HttpRequest,
-    targetUrl: URL
-  ): Promise<{ response: HttpResponse; rawBody: Buffer }> {
-    return new Promise((resolve, reject) => {
-      const isHttps = targetUrl.protocol === 'https:';
-      const headers: Record<string, string> = { ...httpRequest.headers };
-      // Remove hop-by-hop headers
-      delete headers['proxy-connection'];
-      delete headers['connection'];
+    targetUrl: URL,
+    body?: Buffer | string | Readable,
+    upstreamOverride?: string,
+    conditions?: NetworkConditions
+  ): Promise<UpstreamResponse> {
+    if (!policy || body instanceof Readable) {
+      return this.forwardRequest(httpRequest, targetUrl, body, upstreamOverride, conditions);
+    }
 
-      const options: http.RequestOptions = {
-        hostname: targetUrl.hostname,
-        port: targetUrl.port || (isHttps ? 443 : 80),
-        path: targetUrl.pathname + targetUrl.search,
-        method: httpRequest.method,
-        headers,
-      };
+    const attempts: RequestAttempt[] = [];
+    record.attempts = attempts;
+    for (let attempt = 1; ; attempt++) {
+      const entry: RequestAttempt = { attempt, startedAt: Date.now(), durationMs: 0 };
+      attempts.push(entry);
+      let upstreamRes: UpstreamResponse | undefined;
+      let failure: unknown;
+      try {
+        upstreamRes = await this.forwardRequest(httpRequest, targetUrl, body, upstreamOverride, conditions);
+        entry.statusCode = upstreamRes.statusCode;
+      } catch (error) {
+        failure = error;
+        entry.error = (error as Error).message;
+      }
+      // 只统计到收到响应头（或出错）为止
+      entry.durationMs = Date.now() - entry.startedAt;
 
-      const requester = isHttps ? https : http;
-      const proxyReq = requester.request(options, (proxyRes) => {
-        const responseHeaders: Record<string, string> = {};
-        for (const [key, value] of Object.entries(proxyRes.headers)) {
-          if (value) {
-            responseHeaders[key] = Array.isArray(value) ? value.join(', ') : value;
-          }
+      const retryable = upstreamRes
+        ? policy.retryOnStatusCodes.includes(upstreamRes.statusCode)
+        : policy.retryOnNetworkError;
+      if (!retryable || attempt > policy.maxRetries) {
+        if (upstreamRes) {
+          return upstreamRes;
         }
+        // 最终失败时调用方不会再更新记录，这里写入已有的尝试
+        this.requestStore.add(record);
+        this.onRequest?.(record);
+        throw failure;
+      }
 
-        const chunks: Buffer[] = [];
-        proxyRes.on('data', (chunk) => chunks.push(chunk));
-        proxyRes.on('end', () => {
-          const buffer = Buffer.concat(chunks);
-
-          // 根据内容类型和编码决定是否提供可读的 body 字符串
-          const ct = responseHeaders['content-type'] || responseHeaders['Content-Type'] || '';
-          const ce = responseHeaders['content-encoding'] || responseHeaders['Content-Encoding'];
-
-          let body: string | undefined;
-          const isTextLike =
-            !ce && (
-              ct.startsWith('text/') ||
-              ct.includes('json') ||
-              ct.includes('javascript') ||
-              ct.includes('xml') ||
-              ct.includes('x-www-form-urlencoded')
-            );
-
-          if (isTextLike) {
-            body = buffer.toString('utf-8');
-          } else {
-            // 压缩或二进制内容：不提供 body 文本，仅用原始字节透传
-            body = undefined;
-          }
+      // 丢弃本次响应 body，释放连接
+      upstreamRes?.body.resume();
+      entry.retryDelayMs = retryDelay(policy, attempt);
+      this.requestStore.add(record);
+      this.onRequest?.(record);
+      await new Promise((resolve) => setTimeout(resolve, entry.retryDelayMs));
+    }
+  }
 
-          resolve({
-            response: {
-              statusCode: proxyRes.statusCode || 200,
-              statusMessage: proxyRes.statusMessage,
-              headers: responseHeaders,
-              body,
-            },
-            rawBody: buffer,
-          });
+  // 发送请求到上游，收到响应头即返回；body 为流时以 pipe 方式边读边发
+  private async forwardRequest(
+    httpRequest: HttpRequest,
+    targetUrl: URL,
+    body?: Buffer | string | Readable,
+    upstreamOverride?: string,
+    conditions?: NetworkConditions
+  ): Promise<UpstreamResponse> {
+    const isHttps = targetUrl.protocol === 'https:';
+    const headers: Record<string, string> = { ...httpRequest.headers };
+    // Remove hop-by-hop headers
+    delete headers['proxy-connection'];
+    delete headers['connection'];
+
+    if (typeof body === 'string' || Buffer.isBuffer(body)) {
+      // 已完整读取（可能被 Flow 改写过）的 body，按实际长度发送；组件可能以不同大小写写过长度头
+      for (const key of Object.keys(headers)) {
+        const lower = key.toLowerCase();
+        if (lower === 'content-length' || lower === 'transfer-encoding') {
+          delete headers[key];
+        }
+      }
+      headers['content-length'] = String(Buffer.byteLength(body));
+    }
+
+    let options: http.RequestOptions;
+    if (isHttps) {
+      const connection = await this.connectHttps(targetUrl, upstreamOverride);
+      if (connection.session) {
+        return this.forwardHttp2(connection.session, httpRequest.method, targetUrl, headers, body, conditions);
+      }
+      const tlsSocket = connection.tlsSocket;
+      options = tlsSocket
+        ? { ...this.directRequestOptions(targetUrl, httpRequest.method, headers), createConnection: () => tlsSocket }
+        : await this.buildRequestOptions(targetUrl, httpRequest.method, headers, upstreamOverride);
+    } else {
+      options = await this.buildRequestOptions(targetUrl, httpRequest.method, headers, upstreamOverride);
+    }
+
+    return new Promise((resolve, reject) => {
+      const requester = isHttps ? https : http;
+      const proxyReq = requester.request(options, (proxyRes) => {
+        resolve({
+          statusCode: proxyRes.statusCode || 200,
+          statusMessage: proxyRes.statusMessage,
+          headers: proxyRes.headers,
+          body: proxyRes,
+          protocol: 'http/1.1',
+          getTrailers: () => (Object.keys(proxyRes.trailers).length ? this.collectHeaders(proxyRes.trailers) : undefined),
         });
       });
 
       proxyReq.on('error', reject);
+      this.writeRequestBody(proxyReq, body, conditions);
+    });
+  }
+
+  /**
+   * HTTPS 上游：已有 h2 会话时直接复用；协议未知时经 ALPN 协商（h2 优先），
+   * 已知源站只支持 HTTP/1.1 时返回空对象，由调用方走普通 https 请求。
+   */
+  private async connectHttps(targetUrl: URL, upstreamOverride?: string): Promise<NegotiatedConnection> {
+    const hostname = this.stripBrackets(targetUrl.hostname);
+    const port = Number(targetUrl.port) || 443;
+    const upstream = resolveUpstream(this.upstreamProxies, this.upstreamRules, hostname, upstreamOverride);
+    const key = `${hostname}:${port}|${upstream ? upstream.id : DIRECT_UPSTREAM}`;
+
+    const session = this.http2Pool.getSession(key);
+    if (session) {
+      return { session };
+    }
+    if (this.http2Pool.knownProtocol(key) === 'http/1.1') {
+      return {};
+    }
+
+    const socket = upstream ? await connectThroughUpstream(upstream, hostname, port) : undefined;
+    return this.http2Pool.negotiate(key, hostname, port, socket);
+  }
 
-      if (httpRequest.body) {
-        proxyReq.write(httpRequest.body);
+  // 在 h2 会话上发送请求：普通 header 转为小写，连接级头去掉，Host 改为 :authority
+  private forwardHttp2(
+    session: http2.ClientHttp2Session,
+    method: string,
+    targetUrl: URL,
+    headers: Record<string, string>,
+    body?: Buffer | string | Readable,
+    conditions?: NetworkConditions
+  ): Promise<UpstreamResponse> {
+    return new Promise((resolve, reject) => {
+      const requestHeaders: http2.OutgoingHttpHeaders = {
+        ':method': method,
+        ':path': targetUrl.pathname + targetUrl.search,
+        ':authority': headers.host || headers.Host || targetUrl.host,
+        ':scheme': 'https',
+      };
+      for (const [key, value] of Object.entries(headers)) {
+        const lower = key.toLowerCase();
+        if (HTTP2_CONNECTION_HEADERS.has(lower)) continue;
+        // h2 中 te 只允许 trailers
+        if (lower === 'te' && value.trim().toLowerCase() !== 'trailers') continue;
+        requestHeaders[lower] = value;
       }
-      proxyReq.end();
+
+      const stream = session.request(requestHeaders);
+      let trailers: Record<string, string> | undefined;
+      stream.once('trailers', (rawTrailers) => {
+        trailers = this.collectHeaders(rawTrailers);
+      });
+      stream.once('response', (responseHeaders) => {
+        resolve({
+          statusCode: Number(responseHeaders[':status']) || 200,
+          headers: responseHeaders,
+          body: stream,
+          protocol: 'h2',
+          getTrailers: () => trailers,
+        });
+      });
+      // 响应头之后的错误由 body 的读取方处理（close 时未读完）
+      stream.on('error', reject);
+      this.writeRequestBody(stream, body, conditions);
     });
   }
 
-  private sendResponse(clientRes: http.ServerResponse, response: HttpResponse, rawBody?: Buffer): void {
-    clientRes.writeHead(response.statusCode, response.statusMessage, response.headers);
+  // 按网络环境模拟时，body 经过限速流后再写给上游
+  private writeRequestBody(
+    target: http.ClientRequest | http2.ClientHttp2Stream,
+    body?: Buffer | string | Readable,
+    conditions?: NetworkConditions
+  ): void {
+    const throttle = body ? createThrottle(conditions, 'upload') : undefined;
+    if (body instanceof Readable) {
+      (throttle ? body.pipe(throttle) : body).pipe(target);
+      // 客户端中途断开时不再等待上游
+      body.on('close', () => {
+        if (!body.readableEnded) {
+          throttle?.destroy();
+          target.destroy();
+        }
+      });
+      return;
+    }
+
+    if (throttle) {
+      throttle.pipe(target);
+      throttle.end(body);
+      return;
+    }
+    if (body) {
+      target.write(body);
+    }
+    target.end();
+  }
+
+  /**
+   * 生成发往目标的请求参数，按规则（或 Flow 指定）决定直连还是经过上游代理。
+   * 明文 HTTP 经 HTTP 上游时使用绝对地址形式，其余情况先建立隧道再在隧道上发请求。
+   */
+  private async buildRequestOptions(
+    targetUrl: URL,
+    method: string,
+    headers: Record<string, string>,
+    upstreamOverride?: string,
+    tunnelOnly = false
+  ): Promise<http.RequestOptions> {
+    const isHttps = targetUrl.protocol === 'https:';
+    const hostname = this.stripBrackets(targetUrl.hostname);
+    const port = Number(targetUrl.port) || (isHttps ? 443 : 80);
+    const options = this.directRequestOptions(targetUrl, method, headers);
+
+    const upstream = resolveUpstream(this.upstreamProxies, this.upstreamRules, hostname, upstreamOverride);
+    if (!upstream) {
+      return options;
+    }
+
+    if (upstream.type === 'http' && !isHttps && !tunnelOnly) {
+      const auth = proxyAuthorization(upstream);
+      return {
+        hostname: upstream.host,
+        port: upstream.port,
+        path: targetUrl.href,
+        method,
+        headers: auth ? { ...headers, 'proxy-authorization': auth } : headers,
+      };
+    }
+
+    const socket = await connectThroughUpstream(upstream, hostname, port);
+    options.createConnection = () => {
+      if (isHttps) {
+        return tls.connect({ socket, servername: net.isIP(hostname) ? undefined : hostname });
+      }
+      // 握手结束后隧道处于暂停状态，HTTP 客户端不会自动恢复读取
+      socket.resume();
+      return socket;
+    };
+    return options;
+  }
+
+  private directRequestOptions(targetUrl: URL, method: string, headers: Record<string, string>): http.RequestOptions {
+    const isHttps = targetUrl.protocol === 'https:';
+    return {
+      hostname: this.stripBrackets(targetUrl.hostname),
+      port: Number(targetUrl.port) || (isHttps ? 443 : 80),
+      path: targetUrl.pathname + targetUrl.search,
+      method,
+      headers,
+    };
+  }
+
+  // 直连或经上游代理建立到目标的 TCP 连接（CONNECT 隧道模式）
+  private openConnection(hostname: string, port: number): Promise<net.Socket> {
+    const upstream = resolveUpstream(this.upstreamProxies, this.upstreamRules, this.stripBrackets(hostname));
+    if (upstream) {
+      return connectThroughUpstream(upstream, this.stripBrackets(hostname), port);
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(port, hostname);
+      socket.once('connect', () => {
+        socket.removeListener('error', reject);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  private stripBrackets(hostname: string): string {
+    return hostname.startsWith('[') && hostname.endsWith(']') ? hostname.slice(1, -1) : hostname;
+  }
+
+  // 先写出响应头，再把上游 body 原样 pipe 给客户端，同时保留有上限的副本
+  private streamResponse(
+    clientRes: ClientResponse,
+    response: HttpResponse,
+    upstreamRes: UpstreamResponse,
+    conditions?: NetworkConditions
+  ): Promise<BodyCapture> {
+    return new Promise((resolve) => {
+      const upstreamBody = upstreamRes.body;
+      this.writeResponseHead(clientRes, response.statusCode, response.statusMessage, response.headers);
+      // SSE 等场景需要立即把响应头发给客户端（h2 的 writeHead 会立即发送）
+      if (clientRes instanceof http.ServerResponse) {
+        clientRes.flushHeaders();
+      }
+
+      this.captureBody(upstreamBody, (capture) => {
+        response.trailers = upstreamRes.getTrailers();
+        resolve(capture);
+      });
+      // 需在 pipe 结束响应之前加上 trailers（gRPC 的 grpc-status 等）
+      upstreamBody.once('end', () => {
+        const trailers = upstreamRes.getTrailers();
+        if (trailers) {
+          clientRes.addTrailers(trailers);
+        }
+      });
+      const throttle = createThrottle(conditions, 'download');
+      (throttle ? upstreamBody.pipe(throttle) : upstreamBody).pipe(clientRes);
+
+      // 客户端提前断开（如关闭 SSE 页面）时停止读取上游；上游中断时也断开客户端
+      clientRes.on('close', () => {
+        throttle?.destroy();
+        if (!upstreamBody.readableEnded) {
+          upstreamBody.destroy();
+        }
+      });
+      upstreamBody.on('close', () => {
+        if (!upstreamBody.readableEnded) {
+          clientRes.destroy();
+        }
+      });
+    });
+  }
 
-    if (rawBody) {
-      // 优先使用原始字节，保证二进制 / 压缩内容完全一致
-      clientRes.write(rawBody);
-    } else if (response.body) {
-      // 只在明确是文本类且未压缩时才会有 body 字符串
-      clientRes.write(response.body);
+  // 写出响应头；HTTP/2 客户端不支持状态描述和连接级头
+  private writeResponseHead(
+    clientRes: ClientResponse,
+    statusCode: number,
+    statusMessage: string | undefined,
+    headers: Record<string, string>
+  ): void {
+    if (clientRes instanceof http2.Http2ServerResponse) {
+      const h2Headers: Record<string, string> = {};
+      for (const [key, value] of Object.entries(headers)) {
+        if (!HTTP2_CONNECTION_HEADERS.has(key.toLowerCase())) {
+          h2Headers[key] = value;
+        }
+      }
+      clientRes.writeHead(statusCode, h2Headers);
+      return;
+    }
+    if (statusMessage) {
+      clientRes.writeHead(statusCode, statusMessage, headers);
+    } else {
+      clientRes.writeHead(statusCode, headers);
     }
+  }
 
+  private sendProxyError(clientRes: ClientResponse, message: string): void {
+    if (clientRes.headersSent) {
+      // 流式转发途中出错，只能直接断开
+      clientRes.destroy();
+      return;
+    }
+    this.writeResponseHead(clientRes, 502, undefined, { 'Content-Type': 'text/plain' });
+    clientRes.end(message);
+  }
+
+  private sendResponse(
+    clientRes: ClientResponse,
+    response: HttpResponse,
+    rawBody?: Buffer,
+    conditions?: NetworkConditions
+  ): void {
+    let headers = response.headers;
+    let body: Buffer | undefined = rawBody;
+    if (!rawBody) {
+      // Protobuf body 被改写过时重新编码为二进制，否则按 bodyEncoding 还原为字节
+      body = response.protobuf && response.body !== undefined
+        ? this.protobufRegistry.encode(response.body, response.protobuf)
+        : bodyToBuffer(response);
+      // 发送的是 mock 或被 Flow 改写过的 body，原有的长度头已不再准确
+      headers = {};
+      for (const [key, value] of Object.entries(response.headers)) {
+        const lower = key.toLowerCase();
+        if (lower === 'content-length' || lower === 'transfer-encoding' || (lower === 'content-encoding' && !body)) {
+          continue;
+        }
+        headers[key] = value;
+      }
+      if (body) {
+        ({ headers, body } = this.encodeChangedBody(headers, body));
+        headers['content-length'] = String(Buffer.byteLength(body));
+      }
+    }
+
+    this.writeResponseHead(clientRes, response.statusCode, response.statusMessage, headers);
+
+    if (response.trailers) {
+      clientRes.addTrailers(response.trailers);
+    }
+
+    // 模拟网络环境时经过限速流分块写出，客户端断开后停止
+    const throttle = body ? createThrottle(conditions, 'download') : undefined;
+    if (throttle) {
+      throttle.pipe(clientRes);
+      clientRes.on('close', () => throttle.destroy());
+      throttle.end(body);
+      return;
+    }
+
+    // rawBody 为原始字节，保证二进制 / 压缩内容完全一致
+    if (body) {
+      const writable: Writable = clientRes;
+      writable.write(body);
+    }
     clientRes.end();
   }
 
+  // 序列化响应头，用于直接写入 socket 的场景（WebSocket 握手）
+  private serializeResponseHead(response: HttpResponse): string {
+    const statusMessage = response.statusMessage || http.STATUS_CODES[response.statusCode] || '';
+    let head = `HTTP/1.1 ${response.statusCode} ${statusMessage}\r\n`;
+    for (const [key, value] of Object.entries(response.headers)) {
+      head += `${key}: ${value}\r\n`;
+    }
+    return head + '\r\n';
+  }
+
+  // WebSocket 握手：记录握手请求，转发到上游并在升级成功后逐帧转发
+  private async handleUpgrade(
+    clientReq: http.IncomingMessage,
+    clientSocket: net.Socket,
+    head: Buffer,
+    fullUrl: string
+  ): Promise<void> {
+    const startTime = Date.now();
+    const requestId = uuidv4();
+
+    clientSocket.on('error', (err) => {
+      console.error('WebSocket handshake socket error:', err);
+    });
+
+    try {
+      const httpRequest: HttpRequest = {
+        id: requestId,
+        method: clientReq.method || 'GET',
+        url: fullUrl,
+        headers: this.collectHeaders(clientReq.headers),
+        timestamp: Date.now(),
+        clientIp: clientReq.socket.remoteAddress,
+        clientPort: clientReq.socket.remotePort,
+      };
+
+      const record: RequestRecord = {
+        id: requestId,
+        request: httpRequest,
+        websocket: { frames: [] },
+      };
+      this.requestStore.add(record);
+      this.onRequest?.(record);
+
+      const flowResult = await this.flowEngine.processRequest(httpRequest);
+      record.matchedFlowId = flowResult.matchedFlowId;
+      record.flowTrace = flowResult.trace;
+
+      if (flowResult.response) {
+        // 流程直接返回了响应：不升级，按普通 HTTP 响应回写
+        const body = bodyToBuffer(flowResult.response) || Buffer.alloc(0);
+        record.response = flowResult.response;
+        record.durationMs = Date.now() - startTime;
+        record.websocket!.closedAt = Date.now();
+        this.requestStore.add(record);
+        this.onRequest?.(record);
+
+        clientSocket.write(
+          this.serializeResponseHead({
+            ...flowResult.response,
+            headers: {
+              ...flowResult.response.headers,
+              'content-length': String(body.length),
+              connection: 'close',
+            },
+          })
+        );
+        clientSocket.end(body);
+        return;
+      }
+
+      const targetUrl = new URL(flowResult.request.url);
+      const isHttps = targetUrl.protocol === 'https:';
+      const headers: Record<string, string> = { ...flowResult.request.headers };
+      delete headers['proxy-connection'];
+      // 不协商 permessage-deflate，保证帧内容可读、可改写
+      delete headers['sec-websocket-extensions'];
+
+      // 升级请求经过上游代理时总是走隧道
+      const options = await this.buildRequestOptions(
+        targetUrl,
+        httpRequest.method,
+        headers,
+        flowResult.vars?.upstreamProxy,
+        true
+      );
+      const requester = isHttps ? https : http;
+      const proxyReq = requester.request(options);
+
+      proxyReq.on('upgrade', (proxyRes, upstreamSocket: net.Socket, upstreamHead) => {
+        const response: HttpResponse = {
+          statusCode: proxyRes.statusCode || 101,
+          statusMessage: proxyRes.statusMessage,
+          headers: this.upstreamResponseHeaders(proxyRes.headers, flowResult.vars),
+        };
+        record.response = response;
+        record.durationMs = Date.now() - startTime;
+        this.requestStore.add(record);
+        this.onRequest?.(record);
+
+        clientSocket.write(this.serializeResponseHead(response));
+
+        // 帧日志更新较频繁，合并后再通知渲染进程
+        let notifyTimer: NodeJS.Timeout | null = null;
+        const scheduleNotify = () => {
+          if (notifyTimer) return;
+          notifyTimer = setTimeout(() => {
+            notifyTimer = null;
+            this.onRequest?.(record);
+          }, 200);
+        };
+
+        const session = record.websocket!;
+        const hasFramePhase = this.flowEngine.hasFramePhase(flowResult);
+
+        relayWebSocket({
+          clientSocket,
+          upstreamSocket,
+          clientHead: head,
+          upstreamHead,
+          onFrame: (frame) =>
+            hasFramePhase ? this.flowEngine.processFrame(flowResult, frame) : Promise.resolve(frame),
+          onRecord: (frameRecord: WebSocketFrameRecord) => {
+            session.frames.push(frameRecord);
+            if (session.frames.length > MAX_WS_FRAMES) {
+              session.frames.shift();
+              session.framesTruncated = true;
+            }
+            scheduleNotify();
+          },
+          onClose: () => {
+            session.closedAt = Date.now();
+            // 帧日志只在连接关闭时写入会话
+            this.requestStore.add(record);
+            scheduleNotify();
+          },
+        });
+      });
+
+      // 上游拒绝升级：按普通响应回写后关闭
+      proxyReq.on('response', (proxyRes) => {
+        const chunks: Buffer[] = [];
+        proxyRes.on('data', (chunk) => chunks.push(chunk));
+        proxyRes.on('end', () => {
+          const rawBody = Buffer.concat(chunks);
+          const response: HttpResponse = {
+            statusCode: proxyRes.statusCode || 502,
+            statusMessage: proxyRes.statusMessage,
+            headers: this.upstreamResponseHeaders(proxyRes.headers, flowResult.vars),
+          };
+          record.response = response;
+          record.durationMs = Date.now() - startTime;
+          record.websocket!.closedAt = Date.now();
+          this.requestStore.add(record);
+          this.onRequest?.(record);
+
+          const responseHeaders: Record<string, string> = { ...response.headers, connection: 'close' };
+          delete responseHeaders['transfer-encoding'];
+          responseHeaders['content-length'] = String(rawBody.length);
+          clientSocket.write(this.serializeResponseHead({ ...response, headers: responseHeaders }));
+          clientSocket.end(rawBody);
+        });
+      });
+
+      proxyReq.on('error', (err) => {
+        console.error('WebSocket upstream error:', err);
+        record.websocket!.closedAt = Date.now();
+        this.requestStore.add(record);
+        this.onRequest?.(record);
+        clientSocket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n');
+      });
+
+      proxyReq.end();
+    } catch (error) {
+      console.error('WebSocket handshake error:', error);
+      clientSocket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n');
+    }
+  }
+
   private async getOrCreateHttpsMitmPort(hostname: string, targetPort: number): Promise<number> {
     const existing = this.httpsMitmServers.get(hostname);
     if (existing) {
@@ -399,10 +1402,16 @@ export class ProxyEngine {
 
     const { key, cert } = await this.certManager.getCertificateForHost(hostname);
 
-    const server = https.createServer({ key, cert }, (req, res) => {
+    // 同时支持 h2 与 HTTP/1.1，由客户端在 TLS 握手时通过 ALPN 选择
+    const server = http2.createSecureServer({ key, cert, allowHTTP1: true }, (req, res) => {
       this.handleHttpsRequest(hostname, targetPort, req, res);
     });
 
+    // wss:// 握手（仅 HTTP/1.1 连接）
+    server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      this.handleUpgrade(req, socket, head, this.buildHttpsUrl(hostname, targetPort, req.url));
+    });
+
     const port = await new Promise<number>((resolve, reject) => {
       server.listen(0, () => {
         const address = server.address() as AddressInfo | null;
@@ -431,69 +1440,254 @@ export class ProxyEngine {
     const targetPort = parseInt(port, 10) || 443;
     console.log('[ProxyEngine] CONNECT %s, targetPort=%d, httpsMitmEnabled=%s', req.url, targetPort, this.httpsMitmEnabled);
 
-    if (!hostname || !this.httpsMitmEnabled) {
-      // 回退到简单隧道模式
-      const serverSocket = net.connect(targetPort, hostname, () => {
-        clientSocket.write(
-          'HTTP/1.1 200 Connection Established\r\n' +
-          'Proxy-agent: FlowProxy\r\n' +
-          '\r\n'
-        );
-        if (head && head.length) {
-          serverSocket.write(head);
-        }
-        serverSocket.pipe(clientSocket);
-        clientSocket.pipe(serverSocket);
-      });
+    if (!hostname) {
+      clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
 
-      serverSocket.on('error', (err) => {
-        console.error('CONNECT tunnel error:', err);
+    clientSocket.write(
+      'HTTP/1.1 200 Connection Established\r\n' +
+      'Proxy-agent: FlowProxy\r\n' +
+      '\r\n'
+    );
+    this.handleTunnel(clientSocket, hostname, targetPort, head);
+  }
+
+  /**
+   * 处理已建立的隧道（HTTP CONNECT / SOCKS5）：探测客户端首批数据，
+   * TLS 且开启解密时交给 MITM 服务，明文 HTTP 交给内部 HTTP 服务，其余按规则原样转发。
+   * dialed 为事先连好的目标连接（SOCKS5），原样转发时直接使用，交给本地服务时关闭。
+   */
+  private async handleTunnel(
+    clientSocket: net.Socket,
+    hostname: string,
+    targetPort: number,
+    head?: Buffer,
+    dialed?: net.Socket
+  ): Promise<void> {
+    let targetSocket: net.Socket | null = dialed || null;
+    let download: Transform | undefined;
+    let upload: Transform | undefined;
+
+    clientSocket.on('error', (err) => {
+      console.error('Client socket error (tunnel):', err);
+      targetSocket?.end();
+    });
+    // 探测期间目标断开时一并断开客户端
+    const onDialedError = (err: Error) => {
+      console.error('Tunnel target socket error:', err);
+      clientSocket.destroy();
+    };
+    dialed?.once('error', onDialedError);
+
+    try {
+      const sniffed = await sniffTunnel(clientSocket, head);
+      dialed?.removeListener('error', onDialedError);
+      if (clientSocket.destroyed) {
+        dialed?.destroy();
+        return;
+      }
+
+      if (sniffed.protocol === 'tls' && this.httpsMitmEnabled) {
+        dialed?.destroy();
+        // 优先使用 SNI 中的域名签发证书（SOCKS5 客户端常常只给出 IP）
+        const mitmPort = await this.getOrCreateHttpsMitmPort(sniffed.serverName || hostname, targetPort);
+        targetSocket = await this.connectLocal(mitmPort);
+      } else if (sniffed.protocol === 'http') {
+        dialed?.destroy();
+        const tunnelHttpPort = await this.getOrCreateTunnelHttpPort();
+        targetSocket = await this.connectLocal(tunnelHttpPort);
+        const localPort = targetSocket.localPort!;
+        this.tunnelHttpTargets.set(localPort, { hostname, port: targetPort });
+        targetSocket.once('close', () => this.tunnelHttpTargets.delete(localPort));
+      } else {
+        targetSocket = dialed || await this.openConnection(hostname, targetPort);
+        // 原样转发的隧道按全局网络环境整形；解密后的 HTTP 在普通处理流程中整形
+        download = createThrottle(this.networkConditions, 'download');
+        upload = createThrottle(this.networkConditions, 'upload');
+      }
+
+      const socket = targetSocket;
+      socket.on('error', (err) => {
+        console.error('Tunnel target socket error:', err);
         clientSocket.end();
       });
+      if (sniffed.data.length) {
+        (upload || socket).write(sniffed.data);
+      }
+      (download ? socket.pipe(download) : socket).pipe(clientSocket);
+      (upload ? clientSocket.pipe(upload) : clientSocket).pipe(socket);
+      // 接收方断开后丢弃尚未写出的数据
+      clientSocket.once('close', () => download?.destroy());
+      socket.once('close', () => upload?.destroy());
+    } catch (error) {
+      console.error('Tunnel setup error:', error);
+      dialed?.destroy();
+      clientSocket.destroy();
+    }
+  }
 
-      clientSocket.on('error', (err) => {
-        console.error('Client socket error:', err);
-        serverSocket.end();
+  private connectLocal(port: number): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(port, '127.0.0.1');
+      socket.once('connect', () => {
+        socket.removeListener('error', reject);
+        resolve(socket);
       });
+      socket.once('error', reject);
+    });
+  }
 
-      return;
+  // 隧道中的明文 HTTP 使用 origin-form（/path），按隧道目标或 Host 头补全为绝对地址后进入普通处理流程
+  private async getOrCreateTunnelHttpPort(): Promise<number> {
+    if (this.tunnelHttpServer) {
+      return this.tunnelHttpServer.port;
     }
 
-    // HTTPS MITM 模式
-    (async () => {
-      try {
-        const mitmPort = await this.getOrCreateHttpsMitmPort(hostname, targetPort);
+    const toAbsoluteUrl = (req: http.IncomingMessage): string => {
+      const target = this.tunnelHttpTargets.get(req.socket.remotePort || 0);
+      const defaultHost = target
+        ? (target.port === 80 ? target.hostname : `${target.hostname}:${target.port}`)
+        : 'localhost';
+      const host = req.headers.host || defaultHost;
+      return `http://${host}${req.url || '/'}`;
+    };
 
-        clientSocket.write(
-          'HTTP/1.1 200 Connection Established\r\n' +
-          'Proxy-agent: FlowProxy\r\n' +
-          '\r\n'
-        );
+    const server = http.createServer((req, res) => {
+      req.url = toAbsoluteUrl(req);
+      this.handleRequest(req, res);
+    });
+    server.on('upgrade', (req, socket: net.Socket, head) => {
+      this.handleUpgrade(req, socket, head, toAbsoluteUrl(req));
+    });
 
-        const mitmSocket = net.connect(mitmPort, '127.0.0.1', () => {
-          if (head && head.length) {
-            mitmSocket.write(head);
-          }
-          clientSocket.pipe(mitmSocket);
-          mitmSocket.pipe(clientSocket);
-        });
+    const port = await new Promise<number>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => {
+        resolve((server.address() as AddressInfo).port);
+      });
+      server.on('error', (err) => {
+        console.error('Tunnel HTTP server error:', err);
+        reject(err);
+      });
+    });
 
-        mitmSocket.on('error', (err) => {
-          console.error('HTTPS MITM socket error:', err);
-          clientSocket.end();
-        });
+    this.tunnelHttpServer = { server, port };
+    return port;
+  }
 
-        clientSocket.on('error', (err) => {
-          console.error('Client socket error (MITM):', err);
-          mitmSocket.end();
-        });
+  private async startSocksServer(): Promise<void> {
+    if (!this.socksPort || this.socksServer.isRunning()) {
+      return;
+    }
+    try {
+      await this.socksServer.start(this.socksPort);
+    } catch (error) {
+      // SOCKS5 监听失败（如端口被占用）不影响 HTTP 代理
+      console.error('Failed to start SOCKS5 server:', error);
+    }
+  }
+
+  /**
+   * SOCKS5 CONNECT：开启 HTTPS 解密时隧道会在本地探测并解密，先回复成功，目标的错误以 HTTP 响应体现；
+   * 否则先连接目标，把真实的连接结果（拒绝、不可达等）回复给客户端，成功后再探测隧道。
+   */
+  private async handleSocksConnect(
+    clientSocket: net.Socket,
+    hostname: string,
+    port: number,
+    reply: (status: number) => void
+  ): Promise<void> {
+    console.log('[ProxyEngine] SOCKS5 CONNECT %s:%d', hostname, port);
+    this.trackConnection(clientSocket);
+    if (this.httpsMitmEnabled) {
+      reply(SOCKS_REPLY.SUCCEEDED);
+      this.handleTunnel(clientSocket, hostname, port);
+      return;
+    }
+
+    let targetSocket: net.Socket;
+    try {
+      targetSocket = await this.openConnection(hostname, port);
+    } catch (error) {
+      console.error('SOCKS5 connect to %s:%d failed:', hostname, port, error);
+      reply(socksReplyForError(error));
+      return;
+    }
+    if (clientSocket.destroyed) {
+      targetSocket.destroy();
+      return;
+    }
+    reply(SOCKS_REPLY.SUCCEEDED);
+    this.handleTunnel(clientSocket, hostname, port, undefined, targetSocket);
+  }
+
+  private trackConnection(socket: net.Socket): void {
+    this.connections.add(socket);
+    socket.on('close', () => {
+      this.connections.delete(socket);
+    });
+  }
+
+  private async startReverseProxies(): Promise<void> {
+    for (const listener of this.reverseProxies) {
+      if (!listener.enabled) continue;
+      try {
+        await this.startReverseProxy(listener);
       } catch (error) {
-        console.error('HTTPS MITM setup error:', error);
-        try {
-          clientSocket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
-        } catch {}
-        clientSocket.end();
+        // 单个监听失败（端口被占用、目标地址无效等）不影响其它监听
+        console.error(`Failed to start reverse proxy "${listener.name}":`, error);
       }
-    })();
+    }
+  }
+
+  private async stopReverseProxies(): Promise<void> {
+    const servers = Array.from(this.reverseServers.values());
+    this.reverseServers.clear();
+    await Promise.all(servers.map((server) => new Promise<void>((resolve) => server.close(() => resolve()))));
+  }
+
+  // 反向代理：请求为 origin-form，固定补全为目标源站地址后进入普通处理流程
+  private async startReverseProxy(listener: ReverseProxyListener): Promise<void> {
+    const target = new URL(listener.targetOrigin);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Unsupported target origin: ${listener.targetOrigin}`);
+    }
+
+    const toTargetUrl = (req: http.IncomingMessage): string => {
+      if (!listener.preserveHost) {
+        req.headers.host = target.host;
+      }
+      return `${target.origin}${req.url || '/'}`;
+    };
+
+    const onRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+      req.url = toTargetUrl(req);
+      this.handleRequest(req, res);
+    };
+
+    let server: http.Server | https.Server;
+    if (listener.tls) {
+      const { key, cert } = await this.certManager.getCertificateForHost(listener.tlsHostname || 'localhost');
+      server = https.createServer({ key, cert }, onRequest);
+    } else {
+      server = http.createServer(onRequest);
+    }
+
+    server.on('upgrade', (req, socket: net.Socket, head) => {
+      this.handleUpgrade(req, socket, head, toTargetUrl(req));
+    });
+    server.on('connection', (socket: net.Socket) => this.trackConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(listener.listenPort, () => {
+        server.removeListener('error', reject);
+        server.on('error', (err) => console.error(`Reverse proxy "${listener.name}" error:`, err));
+        resolve();
+      });
+    });
+
+    this.reverseServers.set(listener.id, server);
+    console.log(`Reverse proxy "${listener.name}" listening on port ${listener.listenPort} -> ${target.origin}`);
   }
 }
@@ -0,0 +1,44 @@
+// 单次重试等待的上限，避免指数退避无限增长
+const MAX_RETRY_DELAY_MS = 60000;
+// 最多重试次数，防止配置错误导致请求长时间挂起
+const MAX_RETRIES = 10;
+
+/**
+ * 由 retryHint 组件写入 ctx.vars.retry 的重试策略。
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  retryDelayMs: number;
+  retryOnStatusCodes: number[];
+  retryOnNetworkError: boolean;
+  // 指数退避：第 n 次重试等待 retryDelayMs * 2^(n-1)
+  backoff: boolean;
+  // 在等待时间上叠加 0 ~ 50% 的随机抖动
+  jitter: boolean;
+}
+
+// 解析 ctx.vars.retry；未配置或重试次数为 0 时返回 undefined
+export function parseRetryPolicy(value: any): RetryPolicy | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const maxRetries = Math.min(Math.max(0, Math.floor(Number(value.maxRetries) || 0)), MAX_RETRIES);
+  if (!maxRetries) return undefined;
+  return {
+    maxRetries,
+    retryDelayMs: Math.max(0, Number(value.retryDelayMs) || 0),
+    retryOnStatusCodes: Array.isArray(value.retryOnStatusCodes)
+      ? value.retryOnStatusCodes.map(Number).filter((n: number) => !isNaN(n))
+      : [],
+    retryOnNetworkError: value.retryOnNetworkError !== false,
+    backoff: !!value.backoff,
+    jitter: !!value.jitter,
+  };
+}
+
+// 第 retry 次重试（从 1 开始）之前的等待时间
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  let delay = policy.backoff ? policy.retryDelayMs * 2 ** (retry - 1) : policy.retryDelayMs;
+  if (policy.jitter) {
+    delay += delay * 0.5 * Math.random();
+  }
+  return Math.round(Math.min(delay, MAX_RETRY_DELAY_MS));
+}
@@ -0,0 +1,64 @@
+import * as net from 'net';
+
+// 按需读取握手数据（上游代理 / SOCKS5 握手）：socket 的数据块边界与协议字段无关
+export class SocketReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private waiting: (() => void) | null = null;
+  private closed = false;
+
+  constructor(private socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.once('close', this.onClose);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    this.wake();
+  };
+
+  private onClose = () => {
+    this.closed = true;
+    this.wake();
+  };
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  private async waitForData(): Promise<void> {
+    if (this.closed) {
+      throw new Error('connection closed during handshake');
+    }
+    await new Promise<void>((resolve) => { this.waiting = resolve; });
+  }
+
+  async read(length: number): Promise<Buffer> {
+    while (this.buffer.length < length) {
+      await this.waitForData();
+    }
+    const out = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return out;
+  }
+
+  async readUntil(delimiter: string): Promise<Buffer> {
+    let index = this.buffer.indexOf(delimiter);
+    while (index === -1) {
+      await this.waitForData();
+      index = this.buffer.indexOf(delimiter);
+    }
+    return this.read(index + delimiter.length);
+  }
+
+  // 握手结束：停止读取，把多读到的字节还给 socket
+  release(): void {
+    this.socket.removeListener('data', this.onData);
+    this.socket.removeListener('close', this.onClose);
+    this.socket.pause();
+    if (this.buffer.length) {
+      this.socket.unshift(this.buffer);
+    }
+  }
+}
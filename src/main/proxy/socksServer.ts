@@ -0,0 +1,156 @@
+import * as net from 'net';
+import { SocketReader } from './socketReader';
+
+/**
+ * 客户端发起 CONNECT 后的回调：由调用方决定何时、以什么状态回复（reply），
+ * 回复成功后即可读写隧道数据，回复失败时连接随之关闭。
+ */
+export type SocksConnectHandler = (
+  clientSocket: net.Socket,
+  hostname: string,
+  port: number,
+  reply: (status: number) => void
+) => void;
+
+// RFC 1928 中 CONNECT 响应的 REP 字段
+export const SOCKS_REPLY = {
+  SUCCEEDED: 0x00,
+  GENERAL_FAILURE: 0x01,
+  NETWORK_UNREACHABLE: 0x03,
+  HOST_UNREACHABLE: 0x04,
+  CONNECTION_REFUSED: 0x05,
+  TTL_EXPIRED: 0x06,
+  COMMAND_NOT_SUPPORTED: 0x07,
+  ADDRESS_TYPE_NOT_SUPPORTED: 0x08,
+} as const;
+
+const SOCKS_VERSION = 0x05;
+const CMD_CONNECT = 0x01;
+
+// 连接目标失败时按错误码选择回复的状态，未知错误统一为 general failure
+export function socksReplyForError(error: unknown): number {
+  switch ((error as NodeJS.ErrnoException)?.code) {
+    case 'ECONNREFUSED':
+      return SOCKS_REPLY.CONNECTION_REFUSED;
+    case 'ENETUNREACH':
+      return SOCKS_REPLY.NETWORK_UNREACHABLE;
+    case 'EHOSTUNREACH':
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+      return SOCKS_REPLY.HOST_UNREACHABLE;
+    case 'ETIMEDOUT':
+      return SOCKS_REPLY.TTL_EXPIRED;
+    default:
+      return SOCKS_REPLY.GENERAL_FAILURE;
+  }
+}
+
+/**
+ * 最小化的 SOCKS5 服务端（RFC 1928）：仅支持无认证 + CONNECT，
+ * 握手完成后把隧道交给 ProxyEngine，与 HTTP CONNECT 走同一条处理链路。
+ */
+export class SocksServer {
+  private server: net.Server | null = null;
+
+  constructor(private onConnect: SocksConnectHandler) {}
+
+  start(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = net.createServer((socket) => {
+        this.handleSocket(socket);
+      });
+
+      server.once('error', reject);
+      server.listen(port, () => {
+        server.removeListener('error', reject);
+        server.on('error', (err) => console.error('SOCKS5 server error:', err));
+        this.server = server;
+        console.log(`SOCKS5 server listening on port ${port}`);
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  isRunning(): boolean {
+    return !!this.server;
+  }
+
+  private async handleSocket(socket: net.Socket): Promise<void> {
+    socket.on('error', (err) => {
+      console.error('SOCKS5 client socket error:', err);
+    });
+
+    const reader = new SocketReader(socket);
+    try {
+      // 1. 协商认证方式，只接受无认证
+      const [version, methodCount] = await reader.read(2);
+      if (version !== SOCKS_VERSION) {
+        socket.destroy();
+        return;
+      }
+      const methods = await reader.read(methodCount);
+      if (!methods.includes(0x00)) {
+        socket.end(Buffer.from([SOCKS_VERSION, 0xff]));
+        return;
+      }
+      socket.write(Buffer.from([SOCKS_VERSION, 0x00]));
+
+      // 2. 请求：VER CMD RSV ATYP DST.ADDR DST.PORT
+      const [, command, , addressType] = await reader.read(4);
+      let hostname: string;
+      if (addressType === 0x01) {
+        hostname = Array.from(await reader.read(4)).join('.');
+      } else if (addressType === 0x03) {
+        const [length] = await reader.read(1);
+        hostname = (await reader.read(length)).toString('utf-8');
+      } else if (addressType === 0x04) {
+        const raw = await reader.read(16);
+        const parts: string[] = [];
+        for (let i = 0; i < 16; i += 2) {
+          parts.push(raw.readUInt16BE(i).toString(16));
+        }
+        hostname = parts.join(':');
+      } else {
+        socket.end(this.reply(SOCKS_REPLY.ADDRESS_TYPE_NOT_SUPPORTED));
+        return;
+      }
+      const port = (await reader.read(2)).readUInt16BE(0);
+
+      if (command !== CMD_CONNECT) {
+        socket.end(this.reply(SOCKS_REPLY.COMMAND_NOT_SUPPORTED));
+        return;
+      }
+
+      reader.release();
+      let replied = false;
+      this.onConnect(socket, hostname, port, (status) => {
+        if (replied || socket.destroyed) return;
+        replied = true;
+        if (status === SOCKS_REPLY.SUCCEEDED) {
+          socket.write(this.reply(status));
+        } else {
+          socket.end(this.reply(status));
+        }
+      });
+    } catch (error) {
+      console.error('SOCKS5 handshake error:', error);
+      socket.destroy();
+    }
+  }
+
+  // 响应中的 BND.ADDR / BND.PORT 对客户端没有意义，统一返回 0.0.0.0:0
+  private reply(status: number): Buffer {
+    return Buffer.from([SOCKS_VERSION, status, 0x00, 0x01, 0, 0, 0, 0, 0, 0]);
+  }
+}
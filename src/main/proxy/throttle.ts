@@ -0,0 +1,86 @@
+import { Transform, TransformCallback } from 'stream';
+import { NetworkConditions, NetworkProfileId, NETWORK_PROFILES } from '../../shared/models';
+
+// 限速时按小块写出，每块约 100ms 的流量，速率更平滑
+const MIN_SLICE_BYTES = 1024;
+const MAX_SLICE_BYTES = 64 * 1024;
+
+export type ThrottleDirection = 'download' | 'upload';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 按 profile 取得网络环境；none 或未配置时返回 undefined
+export function resolveNetworkConditions(
+  profile: NetworkProfileId | undefined,
+  custom?: Partial<NetworkConditions>
+): NetworkConditions | undefined {
+  if (!profile || profile === 'none') return undefined;
+  if (profile === 'custom') return normalizeNetworkConditions(custom);
+  return NETWORK_PROFILES[profile]?.conditions;
+}
+
+export function normalizeNetworkConditions(value?: Partial<NetworkConditions>): NetworkConditions | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const num = (n: any) => Math.max(0, Number(n) || 0);
+  return {
+    downloadKBps: num(value.downloadKBps),
+    uploadKBps: num(value.uploadKBps),
+    latencyMs: num(value.latencyMs),
+    stallRate: Math.min(num(value.stallRate), 1),
+    stallMs: num(value.stallMs),
+  };
+}
+
+/**
+ * 按网络环境对数据流整形：每个数据块先等待 latencyMs（按 stallRate 的概率再卡顿 stallMs），
+ * 再按限速分小块写出。
+ */
+export class ThrottleStream extends Transform {
+  private nextAt = 0;
+  private readonly sliceBytes: number;
+
+  constructor(private readonly bytesPerSecond: number, private readonly conditions: NetworkConditions) {
+    super();
+    this.sliceBytes = bytesPerSecond
+      ? Math.min(Math.max(Math.floor(bytesPerSecond / 10), MIN_SLICE_BYTES), MAX_SLICE_BYTES)
+      : Infinity;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.shape(chunk).then(() => callback(), callback);
+  }
+
+  private async shape(chunk: Buffer): Promise<void> {
+    let wait = this.conditions.latencyMs;
+    if (this.conditions.stallRate > 0 && Math.random() < this.conditions.stallRate) {
+      wait += this.conditions.stallMs;
+    }
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    for (let offset = 0; offset < chunk.length && !this.destroyed; offset += this.sliceBytes) {
+      const part = chunk.subarray(offset, offset + this.sliceBytes);
+      this.push(part);
+      if (this.bytesPerSecond) {
+        this.nextAt = Math.max(this.nextAt, Date.now()) + (part.length * 1000) / this.bytesPerSecond;
+        const delay = this.nextAt - Date.now();
+        if (delay > 0) {
+          await sleep(delay);
+        }
+      }
+    }
+  }
+}
+
+// 该方向没有任何整形时返回 undefined，调用方直接 pipe
+export function createThrottle(
+  conditions: NetworkConditions | undefined,
+  direction: ThrottleDirection
+): ThrottleStream | undefined {
+  if (!conditions) return undefined;
+  const kbps = direction === 'download' ? conditions.downloadKBps : conditions.uploadKBps;
+  const stalls = conditions.stallRate > 0 && conditions.stallMs > 0;
+  if (!kbps && !conditions.latencyMs && !stalls) return undefined;
+  return new ThrottleStream(Math.round(kbps * 1024), conditions);
+}
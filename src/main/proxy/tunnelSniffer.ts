@@ -0,0 +1,115 @@
+import * as net from 'net';
+
+// 等待客户端首批数据的时间；超时（如 SSH 等服务端先发言的协议）按原样转发
+const SNIFF_TIMEOUT_MS = 500;
+// TLS ClientHello 最多等待的字节数
+const MAX_SNIFF_BYTES = 16 * 1024;
+
+const HTTP_METHOD_RE = /^(GET|POST|PUT|DELETE|HEAD|OPTIONS|PATCH|TRACE) /;
+
+export type TunnelProtocol = 'tls' | 'http' | 'unknown';
+
+export interface SniffResult {
+  protocol: TunnelProtocol;
+  // 探测过程中已读到的数据，转发时需要先写给目标
+  data: Buffer;
+  // TLS ClientHello 中的 SNI
+  serverName?: string;
+}
+
+/**
+ * 读取隧道（CONNECT / SOCKS5）中客户端发来的首批数据，判断是 TLS、明文 HTTP 还是其它协议。
+ * 返回时 socket 处于暂停状态，由调用方 pipe 后恢复。
+ */
+export function sniffTunnel(socket: net.Socket, head?: Buffer): Promise<SniffResult> {
+  return new Promise((resolve) => {
+    let buffer = head && head.length ? head : Buffer.alloc(0);
+    let done = false;
+
+    const finish = (protocol: TunnelProtocol) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      socket.removeListener('data', onData);
+      socket.removeListener('close', onClose);
+      socket.pause();
+      resolve({
+        protocol,
+        data: buffer,
+        serverName: protocol === 'tls' ? parseSniHostname(buffer) : undefined,
+      });
+    };
+
+    const check = () => {
+      if (!buffer.length) return;
+      if (buffer[0] === 0x16) {
+        // TLS 记录头 5 字节，等到完整的 ClientHello 记录再解析 SNI
+        if (buffer.length < 5) return;
+        const recordLength = 5 + buffer.readUInt16BE(3);
+        if (buffer.length >= recordLength || buffer.length >= MAX_SNIFF_BYTES) {
+          finish('tls');
+        }
+        return;
+      }
+      const start = buffer.subarray(0, 8).toString('latin1');
+      if (HTTP_METHOD_RE.test(start)) {
+        finish('http');
+      } else if (buffer.length >= 8 || start.includes(' ')) {
+        finish('unknown');
+      }
+    };
+
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      check();
+    };
+    const onClose = () => finish('unknown');
+
+    const timer = setTimeout(() => {
+      finish(buffer.length && buffer[0] === 0x16 ? 'tls' : 'unknown');
+    }, SNIFF_TIMEOUT_MS);
+
+    socket.on('data', onData);
+    socket.once('close', onClose);
+    socket.resume();
+    check();
+  });
+}
+
+/**
+ * 从 TLS ClientHello 中解析 server_name 扩展，数据不完整或不存在时返回 undefined。
+ */
+export function parseSniHostname(data: Buffer): string | undefined {
+  try {
+    // 记录头(5) + 握手类型(1) + 长度(3) + 版本(2) + 随机数(32)
+    if (data[0] !== 0x16 || data[5] !== 0x01) return undefined;
+    let offset = 5 + 4 + 2 + 32;
+
+    const sessionIdLength = data[offset];
+    offset += 1 + sessionIdLength;
+    const cipherSuitesLength = data.readUInt16BE(offset);
+    offset += 2 + cipherSuitesLength;
+    const compressionLength = data[offset];
+    offset += 1 + compressionLength;
+
+    const extensionsEnd = offset + 2 + data.readUInt16BE(offset);
+    offset += 2;
+
+    while (offset + 4 <= extensionsEnd && offset + 4 <= data.length) {
+      const type = data.readUInt16BE(offset);
+      const length = data.readUInt16BE(offset + 2);
+      offset += 4;
+      if (type === 0x0000) {
+        // server_name_list: 列表长度(2) + 名称类型(1) + 名称长度(2) + 名称
+        const nameType = data[offset + 2];
+        const nameLength = data.readUInt16BE(offset + 3);
+        if (nameType !== 0x00) return undefined;
+        return data.subarray(offset + 5, offset + 5 + nameLength).toString('ascii') || undefined;
+      }
+      offset += length;
+    }
+  } catch {
+    // 数据不完整
+  }
+  return undefined;
+}
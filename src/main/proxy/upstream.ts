@@ -0,0 +1,202 @@
+import * as net from 'net';
+import { DIRECT_UPSTREAM, UpstreamProxy, UpstreamRule } from '../../shared/models';
+import { SocketReader } from './socketReader';
+
+// 连接上游代理并完成握手的超时时间
+const UPSTREAM_CONNECT_TIMEOUT_MS = 15000;
+
+/**
+ * 选择本次连接使用的上游代理，返回 null 表示直连。
+ * override 来自 Flow（ctx.vars.upstreamProxy），优先于 Host 规则。
+ */
+export function resolveUpstream(
+  proxies: UpstreamProxy[],
+  rules: UpstreamRule[],
+  hostname: string,
+  override?: string
+): UpstreamProxy | null {
+  if (override) {
+    if (override === DIRECT_UPSTREAM) return null;
+    const proxy = proxies.find((p) => p.id === override || p.name === override);
+    if (proxy) return proxy;
+    console.warn('[upstream] unknown upstream proxy "%s", falling back to rules', override);
+  }
+
+  for (const rule of rules) {
+    if (!rule.hostPattern || !matchHostPattern(hostname, rule.hostPattern)) continue;
+    if (rule.upstreamId === DIRECT_UPSTREAM) return null;
+    const proxy = proxies.find((p) => p.id === rule.upstreamId);
+    if (proxy) return proxy;
+  }
+  return null;
+}
+
+function matchHostPattern(hostname: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regexPattern}$`, 'i').test(hostname);
+}
+
+export function proxyAuthorization(proxy: UpstreamProxy): string | undefined {
+  if (!proxy.username) return undefined;
+  const token = Buffer.from(`${proxy.username}:${proxy.password || ''}`).toString('base64');
+  return `Basic ${token}`;
+}
+
+/**
+ * 通过上游代理建立到 host:port 的 TCP 隧道（HTTP CONNECT 或 SOCKS5），
+ * 返回的 socket 已可直接读写目标流量。
+ */
+export function connectThroughUpstream(
+  proxy: UpstreamProxy,
+  host: string,
+  port: number
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(proxy.port, proxy.host);
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      reject(new Error(`Upstream proxy ${proxy.name || proxy.host}: ${error.message}`));
+    };
+    const onTimeout = () => fail(new Error('handshake timed out'));
+    const onClose = () => fail(new Error('connection closed during handshake'));
+
+    socket.setTimeout(UPSTREAM_CONNECT_TIMEOUT_MS);
+    socket.on('timeout', onTimeout);
+    socket.on('error', fail);
+    socket.on('close', onClose);
+
+    socket.once('connect', () => {
+      const handshake = proxy.type === 'socks5'
+        ? socks5Handshake(socket, proxy, host, port)
+        : httpConnectHandshake(socket, proxy, host, port);
+
+      handshake.then(
+        () => {
+          if (settled) return;
+          settled = true;
+          socket.setTimeout(0);
+          socket.removeListener('timeout', onTimeout);
+          socket.removeListener('error', fail);
+          socket.removeListener('close', onClose);
+          resolve(socket);
+        },
+        fail
+      );
+    });
+  });
+}
+
+async function httpConnectHandshake(
+  socket: net.Socket,
+  proxy: UpstreamProxy,
+  host: string,
+  port: number
+): Promise<void> {
+  const reader = new SocketReader(socket);
+  const authority = net.isIPv6(host) ? `[${host}]:${port}` : `${host}:${port}`;
+  let request = `CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n`;
+  const auth = proxyAuthorization(proxy);
+  if (auth) {
+    request += `Proxy-Authorization: ${auth}\r\n`;
+  }
+  socket.write(request + '\r\n');
+
+  const head = (await reader.readUntil('\r\n\r\n')).toString('latin1');
+  reader.release();
+  const statusLine = head.split('\r\n')[0];
+  const statusCode = parseInt(statusLine.split(' ')[1], 10);
+  if (statusCode !== 200) {
+    throw new Error(`CONNECT rejected: ${statusLine}`);
+  }
+}
+
+const SOCKS5_ERRORS: Record<number, string> = {
+  1: 'general failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+async function socks5Handshake(
+  socket: net.Socket,
+  proxy: UpstreamProxy,
+  host: string,
+  port: number
+): Promise<void> {
+  const reader = new SocketReader(socket);
+
+  // 1. 协商认证方式：0x00 无认证，0x02 用户名 / 密码
+  const methods = proxy.username ? [0x00, 0x02] : [0x00];
+  socket.write(Buffer.from([0x05, methods.length, ...methods]));
+  const [version, method] = await reader.read(2);
+  if (version !== 0x05) {
+    throw new Error('not a SOCKS5 server');
+  }
+
+  if (method === 0x02) {
+    const user = Buffer.from(proxy.username || '');
+    const pass = Buffer.from(proxy.password || '');
+    socket.write(Buffer.concat([
+      Buffer.from([0x01, user.length]), user,
+      Buffer.from([pass.length]), pass,
+    ]));
+    const [, status] = await reader.read(2);
+    if (status !== 0x00) {
+      throw new Error('SOCKS5 authentication failed');
+    }
+  } else if (method !== 0x00) {
+    throw new Error('no acceptable SOCKS5 authentication method');
+  }
+
+  // 2. CONNECT 请求
+  let address: Buffer;
+  if (net.isIPv4(host)) {
+    address = Buffer.from([0x01, ...host.split('.').map((n) => parseInt(n, 10))]);
+  } else if (net.isIPv6(host)) {
+    address = Buffer.concat([Buffer.from([0x04]), ipv6ToBuffer(host)]);
+  } else {
+    const name = Buffer.from(host);
+    address = Buffer.concat([Buffer.from([0x03, name.length]), name]);
+  }
+  const portBuf = Buffer.alloc(2);
+  portBuf.writeUInt16BE(port);
+  socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), address, portBuf]));
+
+  // 3. 响应：VER REP RSV ATYP BND.ADDR BND.PORT
+  const [, reply, , atyp] = await reader.read(4);
+  if (reply !== 0x00) {
+    throw new Error(`SOCKS5 connect failed: ${SOCKS5_ERRORS[reply] || reply}`);
+  }
+  if (atyp === 0x01) {
+    await reader.read(4 + 2);
+  } else if (atyp === 0x04) {
+    await reader.read(16 + 2);
+  } else {
+    const [length] = await reader.read(1);
+    await reader.read(length + 2);
+  }
+  reader.release();
+}
+
+function ipv6ToBuffer(address: string): Buffer {
+  const [head, tail] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  const parts = [...headParts, ...Array(tail !== undefined ? missing : 0).fill('0'), ...tailParts];
+  const out = Buffer.alloc(16);
+  parts.forEach((part, i) => out.writeUInt16BE(parseInt(part, 16) || 0, i * 2));
+  return out;
+}
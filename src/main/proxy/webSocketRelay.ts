@@ -0,0 +1,199 @@
+import * as net from 'net';
+import { WebSocketDirection, WebSocketFrame, WebSocketFrameRecord } from '../../shared/models';
+import { WsFrame, WsFrameParser, WS_OPCODE, encodeWsFrame, isControlOpcode } from './wsFrames';
+
+// 分片消息重组的大小上限，超出后该消息的分片不经过 Flow 原样转发
+const MAX_REASSEMBLED_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+interface WebSocketRelayOptions {
+  clientSocket: net.Socket;
+  upstreamSocket: net.Socket;
+  // 握手时已经读到、但尚未处理的字节
+  clientHead?: Buffer;
+  upstreamHead?: Buffer;
+  // 数据帧钩子（Flow 帧阶段），控制帧不经过钩子
+  onFrame: (frame: WebSocketFrame) => Promise<WebSocketFrame>;
+  onRecord: (record: WebSocketFrameRecord) => void;
+  onClose: () => void;
+}
+
+/**
+ * 在客户端和上游之间逐帧转发 WebSocket 流量。
+ * 每个方向串行处理，Flow 中的延迟 / 丢弃不会打乱帧顺序；分片消息凑齐后作为一条消息交给 Flow。
+ * 队列中有未转发完的帧时暂停读取来源连接，背压一直传到发送方。
+ */
+export function relayWebSocket(options: WebSocketRelayOptions): void {
+  const { clientSocket, upstreamSocket } = options;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clientSocket.destroy();
+    upstreamSocket.destroy();
+    options.onClose();
+  };
+
+  const relayDirection = (
+    direction: WebSocketDirection,
+    source: net.Socket,
+    target: net.Socket,
+    head?: Buffer
+  ) => {
+    const parser = new WsFrameParser();
+    let queue: Promise<void> = Promise.resolve();
+    // 分片消息的后续帧 opcode 为 0，需要沿用首帧的类型判断是否文本
+    let messageOpcode: number = WS_OPCODE.TEXT;
+    // 尚未收齐的分片消息
+    let fragments: WsFrame[] = [];
+    let fragmentBytes = 0;
+    // 当前分片消息超出重组上限，剩余分片原样转发
+    let passThroughMessage = false;
+    // 已解析、尚未转发完的帧数；不为 0 时暂停读取 source，避免 Flow 较慢或对端读取较慢时无限堆积
+    let pendingFrames = 0;
+
+    // 对端缓冲区已满时等待 drain 再继续，期间队列不为空，source 保持暂停
+    const write = async (data: Buffer) => {
+      if (target.write(data) || target.destroyed) return;
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          target.removeListener('drain', done);
+          target.removeListener('close', done);
+          resolve();
+        };
+        target.once('drain', done);
+        target.once('close', done);
+      });
+    };
+
+    // 转发一条消息（单帧或重组后的分片）；runFlow 为 false 时不经过 Flow 帧阶段
+    const relayMessage = async (wsFrames: WsFrame[], runFlow: boolean) => {
+      const first = wsFrames[0];
+      const messagePayload = wsFrames.length === 1 ? first.payload : Buffer.concat(wsFrames.map((f) => f.payload));
+      const effectiveOpcode = first.opcode === WS_OPCODE.CONTINUATION ? messageOpcode : first.opcode;
+      const isText = effectiveOpcode === WS_OPCODE.TEXT;
+
+      const frame: WebSocketFrame = {
+        direction,
+        opcode: first.opcode,
+        payload: messagePayload.toString(isText ? 'utf-8' : 'base64'),
+        payloadEncoding: isText ? 'text' : 'base64',
+      };
+
+      const processed = runFlow ? await options.onFrame(frame) : frame;
+      const modified =
+        processed.payload !== frame.payload || processed.payloadEncoding !== frame.payloadEncoding;
+
+      options.onRecord({
+        ...processed,
+        timestamp: Date.now(),
+        size: messagePayload.length,
+        modified: modified || undefined,
+      });
+
+      if (processed.dropped || target.destroyed) {
+        return;
+      }
+      if (processed.delayMs && processed.delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, processed.delayMs));
+        if (target.destroyed) return;
+      }
+
+      // 客户端发往服务端的帧必须重新加掩码
+      const mask = direction === 'client_to_server';
+      if (!modified) {
+        for (const wsFrame of wsFrames) {
+          await write(encodeWsFrame(wsFrame, mask));
+        }
+        return;
+      }
+      // 改写后的消息合并为一个完整的帧发送
+      const payload = Buffer.from(processed.payload, processed.payloadEncoding === 'text' ? 'utf-8' : 'base64');
+      await write(encodeWsFrame({ ...first, fin: true, payload }, mask));
+    };
+
+    const relayFrame = async (wsFrame: WsFrame) => {
+      // 控制帧可以夹在分片之间，直接转发
+      if (isControlOpcode(wsFrame.opcode)) {
+        await relayMessage([wsFrame], false);
+        return;
+      }
+      if (wsFrame.opcode !== WS_OPCODE.CONTINUATION) {
+        messageOpcode = wsFrame.opcode;
+      }
+      if (passThroughMessage) {
+        passThroughMessage = !wsFrame.fin;
+        await relayMessage([wsFrame], false);
+        return;
+      }
+      if (wsFrame.fin && fragments.length === 0) {
+        await relayMessage([wsFrame], true);
+        return;
+      }
+
+      fragments.push(wsFrame);
+      fragmentBytes += wsFrame.payload.length;
+      const buffered = fragments;
+      if (fragmentBytes > MAX_REASSEMBLED_MESSAGE_BYTES) {
+        fragments = [];
+        fragmentBytes = 0;
+        passThroughMessage = !wsFrame.fin;
+        for (const fragment of buffered) {
+          await relayMessage([fragment], false);
+        }
+        return;
+      }
+      if (wsFrame.fin) {
+        fragments = [];
+        fragmentBytes = 0;
+        await relayMessage(buffered, true);
+      }
+    };
+
+    const handleChunk = (chunk: Buffer) => {
+      let frames: WsFrame[];
+      try {
+        frames = parser.push(chunk);
+      } catch (error) {
+        console.error('WebSocket frame parse error:', error);
+        close();
+        return;
+      }
+      if (!frames.length) return;
+      pendingFrames += frames.length;
+      source.pause();
+      for (const wsFrame of frames) {
+        queue = queue
+          .then(() => relayFrame(wsFrame))
+          .catch((error) => console.error('WebSocket frame relay error:', error))
+          .then(() => {
+            pendingFrames--;
+            if (pendingFrames === 0 && !closed) {
+              source.resume();
+            }
+          });
+      }
+    };
+
+    if (head && head.length) {
+      handleChunk(head);
+    }
+    source.on('data', handleChunk);
+    // 等待已排队的帧发送完毕后再关闭另一侧连接
+    source.on('close', () => {
+      queue.then(close);
+    });
+  };
+
+  relayDirection('client_to_server', clientSocket, upstreamSocket, options.clientHead);
+  relayDirection('server_to_client', upstreamSocket, clientSocket, options.upstreamHead);
+
+  clientSocket.on('error', (err) => {
+    console.error('WebSocket client socket error:', err);
+    close();
+  });
+  upstreamSocket.on('error', (err) => {
+    console.error('WebSocket upstream socket error:', err);
+    close();
+  });
+}
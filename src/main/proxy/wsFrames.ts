@@ -0,0 +1,133 @@
+import * as crypto from 'crypto';
+
+// WebSocket 帧（RFC 6455），payload 已去掉掩码
+export interface WsFrame {
+  fin: boolean;
+  rsv: number;       // RSV1-3 三个比特
+  opcode: number;
+  payload: Buffer;
+}
+
+export const WS_OPCODE = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+export function isControlOpcode(opcode: number): boolean {
+  return opcode >= 0x8;
+}
+
+/**
+ * 增量解析 WebSocket 帧：socket 的数据块可能在任意位置被截断，
+ * 未凑齐的字节会保留到下一次 push。
+ */
+export class WsFrameParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): WsFrame[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: WsFrame[] = [];
+
+    while (true) {
+      const frame = this.readFrame();
+      if (!frame) break;
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  private readFrame(): WsFrame | null {
+    const buf = this.buffer;
+    if (buf.length < 2) return null;
+
+    const fin = (buf[0] & 0x80) !== 0;
+    const rsv = (buf[0] >> 4) & 0x07;
+    const opcode = buf[0] & 0x0f;
+    const masked = (buf[1] & 0x80) !== 0;
+    let length = buf[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buf.length < offset + 2) return null;
+      length = buf.readUInt16BE(offset);
+      offset += 2;
+    } else if (length === 127) {
+      if (buf.length < offset + 8) return null;
+      const big = buf.readBigUInt64BE(offset);
+      if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error('WebSocket frame too large');
+      }
+      length = Number(big);
+      offset += 8;
+    }
+
+    let mask: Buffer | null = null;
+    if (masked) {
+      if (buf.length < offset + 4) return null;
+      mask = buf.subarray(offset, offset + 4);
+      offset += 4;
+    }
+
+    if (buf.length < offset + length) return null;
+
+    const payload = Buffer.from(buf.subarray(offset, offset + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    this.buffer = buf.subarray(offset + length);
+    return { fin, rsv, opcode, payload };
+  }
+}
+
+/**
+ * 编码 WebSocket 帧。客户端发往服务端的帧必须带掩码（mask = true）。
+ */
+export function encodeWsFrame(frame: WsFrame, mask: boolean): Buffer {
+  const length = frame.payload.length;
+  let headerLength = 2;
+  if (length >= 126 && length <= 0xffff) {
+    headerLength += 2;
+  } else if (length > 0xffff) {
+    headerLength += 8;
+  }
+  if (mask) {
+    headerLength += 4;
+  }
+
+  const out = Buffer.alloc(headerLength + length);
+  out[0] = (frame.fin ? 0x80 : 0) | ((frame.rsv & 0x07) << 4) | (frame.opcode & 0x0f);
+
+  let offset = 2;
+  if (length < 126) {
+    out[1] = length;
+  } else if (length <= 0xffff) {
+    out[1] = 126;
+    out.writeUInt16BE(length, offset);
+    offset += 2;
+  } else {
+    out[1] = 127;
+    out.writeBigUInt64BE(BigInt(length), offset);
+    offset += 8;
+  }
+
+  if (mask) {
+    out[1] |= 0x80;
+    const maskKey = crypto.randomBytes(4);
+    maskKey.copy(out, offset);
+    offset += 4;
+    for (let i = 0; i < length; i++) {
+      out[offset + i] = frame.payload[i] ^ maskKey[i % 4];
+    }
+  } else {
+    frame.payload.copy(out, offset);
+  }
+
+  return out;
+}
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { app } from 'electron';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Cassette,
+  CassetteEntry,
+  CassetteMatchMode,
+  HttpRequest,
+  HttpResponse,
+  RequestRecord,
+} from '../../shared/models';
+import { matchWildcard } from '../flow/matcher';
+
+// 录制时合并写盘的时间窗口
+const SAVE_DELAY_MS = 500;
+
+export interface ReplayOptions {
+  mode: CassetteMatchMode;
+  // 不参与匹配的 query 参数（如时间戳、随机数）
+  ignoreParams?: string[];
+}
+
+export function hashBody(request: Pick<HttpRequest, 'body'>): string | undefined {
+  if (request.body === undefined || request.body === '') return undefined;
+  return crypto.createHash('sha256').update(request.body).digest('hex');
+}
+
+/**
+ * 回放匹配键：method + host + path，normal 模式加上排序后的 query，strict 模式再加 body hash。
+ */
+export function cassetteKey(
+  method: string,
+  url: string,
+  bodyHash: string | undefined,
+  options: ReplayOptions
+): string {
+  let target = url;
+  try {
+    const parsed = new URL(url);
+    target = `${parsed.host}${parsed.pathname}`;
+    if (options.mode !== 'loose') {
+      const ignored = new Set(options.ignoreParams || []);
+      const params = Array.from(parsed.searchParams).filter(([name]) => !ignored.has(name));
+      params.sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)));
+      target += '?' + new URLSearchParams(params).toString();
+    }
+  } catch {
+    // 非绝对 URL 按原文比较
+  }
+
+  const parts = [method.toUpperCase(), target];
+  if (options.mode === 'strict') {
+    parts.push(bodyHash || '');
+  }
+  return parts.join(' ');
+}
+
+export class CassetteStore {
+  private cassettesDir: string;
+  private cassettes: Map<string, Cassette> = new Map();
+  private saveTimers: Map<string, NodeJS.Timeout> = new Map();
+  // 同一请求录制了多个响应时按顺序回放（最后一个重复使用），记录每个匹配键已回放的次数
+  private replayCursors: Map<string, number> = new Map();
+
+  constructor() {
+    const userDataPath = app?.getPath('userData') || path.join(process.env.HOME || '', '.flowproxy');
+    this.cassettesDir = path.join(userDataPath, 'cassettes');
+    if (!fs.existsSync(this.cassettesDir)) {
+      fs.mkdirSync(this.cassettesDir, { recursive: true });
+    }
+    this.loadCassettes();
+  }
+
+  private loadCassettes(): void {
+    try {
+      for (const file of fs.readdirSync(this.cassettesDir)) {
+        if (file.endsWith('.json')) {
+          const content = fs.readFileSync(path.join(this.cassettesDir, file), 'utf-8');
+          const cassette = JSON.parse(content) as Cassette;
+          this.cassettes.set(cassette.id, cassette);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load cassettes:', error);
+    }
+  }
+
+  getAll(): Cassette[] {
+    return Array.from(this.cassettes.values());
+  }
+
+  getById(id: string): Cassette | undefined {
+    return this.cassettes.get(id);
+  }
+
+  // 组件配置中可以写 id 或名称
+  find(ref: string): Cassette | undefined {
+    return this.cassettes.get(ref) || this.getAll().find((c) => c.name === ref);
+  }
+
+  /**
+   * 保存名称、Host 与录制开关；已有 Cassette 的条目只能通过录制 / 添加 / 删除条目修改，避免覆盖录制中新增的条目。
+   */
+  save(cassette: Cassette): Cassette {
+    const existing = this.cassettes.get(cassette.id);
+    const saved: Cassette = {
+      ...cassette,
+      hostPatterns: (cassette.hostPatterns || []).filter(Boolean),
+      entries: existing ? existing.entries : cassette.entries || [],
+      createdAt: existing?.createdAt || cassette.createdAt || Date.now(),
+      updatedAt: Date.now(),
+    };
+    this.cassettes.set(saved.id, saved);
+    this.replayCursors.clear();
+    this.persist(saved);
+    return saved;
+  }
+
+  delete(id: string): void {
+    this.cassettes.delete(id);
+    const timer = this.saveTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.saveTimers.delete(id);
+    }
+    const filePath = path.join(this.cassettesDir, `${id}.json`);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  deleteEntry(cassetteId: string, entryId: string): boolean {
+    const cassette = this.cassettes.get(cassetteId);
+    if (!cassette) return false;
+    cassette.entries = cassette.entries.filter((e) => e.id !== entryId);
+    cassette.updatedAt = Date.now();
+    this.replayCursors.clear();
+    this.persist(cassette);
+    return true;
+  }
+
+  // 是否有录制中的 Cassette 需要这条请求（需要完整读取请求与响应 body）
+  isRecording(request: HttpRequest): boolean {
+    return this.recordingFor(request).length > 0;
+  }
+
+  // 录制一次上游交换：追加到所有命中 Host 的录制中 Cassette
+  record(request: HttpRequest, response: HttpResponse): void {
+    for (const cassette of this.recordingFor(request)) {
+      cassette.entries.push(this.toEntry(request, response));
+      cassette.updatedAt = Date.now();
+      this.schedulePersist(cassette);
+    }
+  }
+
+  /**
+   * 把已有的请求记录加入 Cassette，返回加入的条数；没有响应或 body 不完整的记录会被跳过。
+   */
+  addRecords(cassetteId: string, records: RequestRecord[]): number {
+    const cassette = this.cassettes.get(cassetteId);
+    if (!cassette) return 0;
+
+    let added = 0;
+    for (const record of records) {
+      if (!record.response || record.response.bodyTruncated || record.websocket) continue;
+      cassette.entries.push(this.toEntry(record.request, record.response));
+      added++;
+    }
+    if (added) {
+      cassette.updatedAt = Date.now();
+      this.replayCursors.clear();
+      this.persist(cassette);
+    }
+    return added;
+  }
+
+  /**
+   * 在 Cassette 中查找与请求匹配的响应；多个条目匹配时按录制顺序依次返回，用完后重复最后一个。
+   */
+  replay(cassette: Cassette, request: HttpRequest, options: ReplayOptions): CassetteEntry | undefined {
+    const key = cassetteKey(request.method, request.url, hashBody(request), options);
+    const matched = cassette.entries.filter(
+      (entry) => cassetteKey(entry.method, entry.url, entry.bodyHash, options) === key
+    );
+    if (!matched.length) return undefined;
+
+    const cursorKey = `${cassette.id} ${options.mode} ${key}`;
+    const index = this.replayCursors.get(cursorKey) || 0;
+    this.replayCursors.set(cursorKey, index + 1);
+    return matched[Math.min(index, matched.length - 1)];
+  }
+
+  private recordingFor(request: HttpRequest): Cassette[] {
+    const recording = this.getAll().filter((c) => c.recording && c.hostPatterns.length > 0);
+    if (!recording.length) return [];
+    let hostname: string;
+    try {
+      hostname = new URL(request.url).hostname;
+    } catch {
+      return [];
+    }
+    return recording.filter((c) => c.hostPatterns.some((pattern) => matchWildcard(hostname, pattern)));
+  }
+
+  private toEntry(request: HttpRequest, response: HttpResponse): CassetteEntry {
+    return {
+      id: uuidv4(),
+      method: request.method,
+      url: request.url,
+      bodyHash: hashBody(request),
+      response: {
+        statusCode: response.statusCode,
+        statusMessage: response.statusMessage,
+        headers: { ...response.headers },
+        body: response.body,
+        bodyEncoding: response.bodyEncoding,
+        contentType: response.contentType,
+        bodySize: response.bodySize,
+        protobuf: response.protobuf,
+        trailers: response.trailers,
+      },
+      recordedAt: Date.now(),
+    };
+  }
+
+  private schedulePersist(cassette: Cassette): void {
+    if (this.saveTimers.has(cassette.id)) return;
+    this.saveTimers.set(cassette.id, setTimeout(() => {
+      this.saveTimers.delete(cassette.id);
+      // 等待期间可能已被删除
+      if (this.cassettes.get(cassette.id) === cassette) {
+        this.persist(cassette);
+      }
+    }, SAVE_DELAY_MS));
+  }
+
+  private persist(cassette: Cassette): void {
+    try {
+      fs.writeFileSync(path.join(this.cassettesDir, `${cassette.id}.json`), JSON.stringify(cassette, null, 2));
+    } catch (error) {
+      console.error('Failed to save cassette:', error);
+    }
+  }
+}
+
+// Singleton instance：代理引擎录制、replayFromCassette 组件回放共用
+let cassetteStore: CassetteStore | null = null;
+
+export function getCassetteStore(): CassetteStore {
+  if (!cassetteStore) {
+    cassetteStore = new CassetteStore();
+  }
+  return cassetteStore;
+}
@@ -291,15 +291,21 @@ const BUILTIN_COMPONENTS: ComponentDefinition[] = [
       { name: 'overrideExisting', label: 'Override Existing', type: 'boolean', defaultValue: true },
     ],
   },
-  // 9. Bandwidth Throttle (simple delay-based)
+  // 9. Bandwidth Throttle（延时 + 网络环境模拟，覆盖全局设置）
   {
     id: 'bandwidth-throttle',
     name: 'Bandwidth Throttle',
     type: 'builtin',
     internalName: 'bandwidthThrottle',
-    description: 'Simulate slow network with additional delay (simple)',
+    description: 'Simulate a slow or flaky network for matching requests',
     params: [
       { name: 'delayMs', label: 'Extra Delay (ms)', type: 'number', defaultValue: 0 },
+      { name: 'profile', label: 'Network Profile', type: 'string', description: '3g, edge, flaky_wifi, custom, or none to disable the global profile' },
+      { name: 'downloadKBps', label: 'Download (KB/s)', type: 'number', defaultValue: 0, description: 'custom profile only, 0 = unlimited' },
+      { name: 'uploadKBps', label: 'Upload (KB/s)', type: 'number', defaultValue: 0, description: 'custom profile only, 0 = unlimited' },
+      { name: 'latencyMs', label: 'Latency per Chunk (ms)', type: 'number', defaultValue: 0, description: 'custom profile only' },
+      { name: 'stallRate', label: 'Stall Rate (0-1)', type: 'number', defaultValue: 0, description: 'custom profile only' },
+      { name: 'stallMs', label: 'Stall Duration (ms)', type: 'number', defaultValue: 0, description: 'custom profile only' },
     ],
   },
   // 10. Random Failure Injection
@@ -315,17 +321,20 @@ const BUILTIN_COMPONENTS: ComponentDefinition[] = [
       { name: 'body', label: 'Error Body', type: 'string', defaultValue: 'Injected failure by FlowProxy' },
     ],
   },
-  // 11. Retry Hint (metadata only, 目前只写入 ctx.vars)
+  // 11. Retry Hint（写入 ctx.vars.retry，由 ProxyEngine 执行重试）
   {
     id: 'retry-hint',
     name: 'Retry Hint',
     type: 'builtin',
     internalName: 'retryHint',
-    description: 'Attach retry metadata (for future engine support)',
+    description: 'Retry the upstream request on network errors or selected status codes',
     params: [
       { name: 'maxRetries', label: 'Max Retries', type: 'number', defaultValue: 3 },
       { name: 'retryDelayMs', label: 'Retry Delay (ms)', type: 'number', defaultValue: 1000 },
       { name: 'retryOnStatusCodes', label: 'Retry On Status Codes', type: 'string', description: 'e.g. 500,502,503' },
+      { name: 'retryOnNetworkError', label: 'Retry On Network Errors', type: 'boolean', defaultValue: true },
+      { name: 'backoff', label: 'Exponential Backoff', type: 'boolean', defaultValue: false, description: 'Double the delay after each retry' },
+      { name: 'jitter', label: 'Jitter', type: 'boolean', defaultValue: false, description: 'Add up to 50% random delay' },
     ],
   },
   // 12. CORS Allow All (Preflight)
@@ -376,6 +385,72 @@ const BUILTIN_COMPONENTS: ComponentDefinition[] = [
       { name: 'tagValue', label: 'Tag Value', type: 'string', required: true },
     ],
   },
+  // 16. WebSocket Frame Rewrite
+  {
+    id: 'ws-frame-rewrite',
+    name: 'WebSocket Frame Rewrite',
+    type: 'builtin',
+    internalName: 'wsFrameRewrite',
+    description: 'Drop, delay or rewrite WebSocket text frames (use after a WS Frame Entry node)',
+    params: [
+      { name: 'direction', label: 'Direction', type: 'string', defaultValue: 'both', description: 'both | client_to_server | server_to_client' },
+      { name: 'matchPattern', label: 'Match Pattern (RegExp)', type: 'string', description: 'Empty matches every frame' },
+      { name: 'replaceWith', label: 'Replace With', type: 'string', description: 'Supports $1 style groups' },
+      { name: 'drop', label: 'Drop Matching Frames', type: 'boolean', defaultValue: false },
+      { name: 'delayMs', label: 'Delay (ms)', type: 'number', defaultValue: 0, description: 'Hold matching frames before forwarding' },
+    ],
+  },
+  // 17. Upstream Proxy Select
+  {
+    id: 'upstream-proxy-select',
+    name: 'Upstream Proxy Select',
+    type: 'builtin',
+    internalName: 'upstreamProxySelect',
+    description: 'Choose the upstream proxy (or direct) for this request, overriding host rules',
+    params: [
+      { name: 'upstream', label: 'Upstream', type: 'string', required: true, description: 'Upstream proxy name or id, or "direct"' },
+    ],
+  },
+  {
+    id: 'map-local',
+    name: 'Map Local',
+    type: 'builtin',
+    internalName: 'mapLocal',
+    description: 'Serve files from a local directory for a URL prefix',
+    params: [
+      { name: 'urlPrefix', label: 'URL Prefix', type: 'string', required: true, description: 'e.g. https://cdn.example.com/app/*' },
+      { name: 'directory', label: 'Local Directory', type: 'string', required: true, description: 'e.g. /Users/me/project/dist' },
+      { name: 'indexFile', label: 'Index File', type: 'string', defaultValue: 'index.html' },
+      { name: 'onMiss', label: 'On Miss', type: 'string', defaultValue: 'not_found', description: 'not_found (404) or forward (continue to upstream)' },
+    ],
+  },
+  {
+    id: 'replay-from-cassette',
+    name: 'Replay From Cassette',
+    type: 'builtin',
+    internalName: 'replayFromCassette',
+    description: 'Answer requests from a recorded cassette without touching the network',
+    params: [
+      { name: 'cassette', label: 'Cassette', type: 'string', required: true, description: 'Cassette name or id' },
+      { name: 'matchMode', label: 'Match Mode', type: 'string', defaultValue: 'normal', description: 'loose (method + path), normal (+ query), strict (+ body hash)' },
+      { name: 'ignoreParams', label: 'Ignored Query Params (comma separated)', type: 'string', description: 'e.g. _t, nonce' },
+      { name: 'onMiss', label: 'On Miss', type: 'string', defaultValue: 'forward', description: 'forward, not_found (404) or error (502)' },
+    ],
+  },
+  {
+    id: 'map-remote',
+    name: 'Map Remote',
+    type: 'builtin',
+    internalName: 'mapRemote',
+    description: 'Rewrite the whole request URL with a regex and map redirects and cookies back',
+    params: [
+      { name: 'pattern', label: 'URL Pattern (regex)', type: 'string', required: true, description: 'Matched against the URL without query, e.g. https://api.prod.com/v1/(.*)' },
+      { name: 'target', label: 'Target URL', type: 'string', required: true, description: 'Use $1, $2... for captured groups, e.g. http://localhost:3000/api/$1' },
+      { name: 'preserveHost', label: 'Preserve Host Header', type: 'boolean', defaultValue: false },
+      { name: 'keepQuery', label: 'Keep Query String', type: 'boolean', defaultValue: true },
+      { name: 'rewriteResponse', label: 'Rewrite Location / Set-Cookie', type: 'boolean', defaultValue: true },
+    ],
+  },
 ];
 
 export class ComponentStore {
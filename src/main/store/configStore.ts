@@ -9,6 +9,8 @@ const DEFAULT_CONFIG: AppConfig = {
   logLevel: 'info',
   httpsMitmEnabled: false,
   systemProxyEnabled: false,
+  socksEnabled: false,
+  socksPort: 1080,
 };
 
 export class ConfigStore {
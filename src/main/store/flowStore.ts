@@ -35,6 +35,15 @@ export class FlowStore {
       console.error('Failed to load flows:', error);
     }
 
+    // 旧版本的 Flow 没有 order：按原先的匹配顺序（加载顺序）补上并写回
+    let nextOrder = this.nextOrder();
+    for (const flow of this.flows.values()) {
+      if (flow.order === undefined) {
+        flow.order = nextOrder++;
+        this.writeFlow(flow);
+      }
+    }
+
     // 如果没有流程，创建默认流程
     if (this.flows.size === 0) {
       this.createDefaultFlow();
@@ -74,8 +83,9 @@ export class FlowStore {
     this.save(defaultFlow);
   }
 
+  // 按匹配顺序排列
   getAll(): FlowDefinition[] {
-    return Array.from(this.flows.values());
+    return Array.from(this.flows.values()).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
   }
 
   getById(id: string): FlowDefinition | undefined {
@@ -91,9 +101,38 @@ export class FlowStore {
     if (!flow.createdAt) {
       flow.createdAt = Date.now();
     }
-    
+    // 新建（或复制得到）的 Flow 排在最后
+    const existing = this.flows.get(flow.id);
+    if (existing) {
+      flow.order = existing.order;
+    } else if (flow.order === undefined || this.getAll().some((f) => f.order === flow.order)) {
+      flow.order = this.nextOrder();
+    }
+
     this.flows.set(flow.id, flow);
-    
+    this.writeFlow(flow);
+  }
+
+  // 按给定的 id 顺序重新设置匹配顺序，未列出的 Flow 保持原有相对顺序排在后面
+  reorder(ids: string[]): void {
+    const listed = ids.map((id) => this.flows.get(id)).filter((f): f is FlowDefinition => !!f);
+    const rest = this.getAll().filter((f) => !listed.includes(f));
+    [...listed, ...rest].forEach((flow, index) => {
+      if (flow.order !== index) {
+        flow.order = index;
+        this.writeFlow(flow);
+      }
+    });
+  }
+
+  private nextOrder(): number {
+    const orders = Array.from(this.flows.values())
+      .map((f) => f.order)
+      .filter((order): order is number => order !== undefined);
+    return orders.length ? Math.max(...orders) + 1 : 0;
+  }
+
+  private writeFlow(flow: FlowDefinition): void {
     const filePath = path.join(this.flowsDir, `${flow.id}.json`);
     fs.writeFileSync(filePath, JSON.stringify(flow, null, 2));
   }
@@ -0,0 +1,336 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+  RequestRecord,
+  WebSocketFrameRecord,
+} from '../../shared/models';
+import { mimeTypeOf } from '../proxy/bodyCodec';
+
+// HAR 1.2（http://www.softwareishard.com/blog/har-12-spec/）中用到的部分；
+// 以下划线开头的字段是 FlowProxy 的自定义扩展，Chrome 的 _webSocketMessages 同理
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarPostData {
+  mimeType: string;
+  text?: string;
+  _encoding?: 'base64';
+}
+
+interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: string;
+}
+
+interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: unknown[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+  _bodyTruncated?: boolean;
+  _protobuf?: HttpRequest['protobuf'];
+}
+
+interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: unknown[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _bodyTruncated?: boolean;
+  _protobuf?: HttpResponse['protobuf'];
+  _trailers?: HarNameValue[];
+}
+
+interface HarWebSocketMessage {
+  type: 'send' | 'receive';
+  time: number;      // 秒
+  opcode: number;
+  data: string;
+  _encoding?: 'base64';
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  _id?: string;
+  _matchedFlowId?: string;
+  _upstreamHttpVersion?: string;
+  _resentFromId?: string;
+  _webSocketMessages?: HarWebSocketMessage[];
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * 把请求记录导出为 HAR 1.2；body 为解压后的内容，二进制以 base64 保存。
+ * 记录中只有总耗时、没有各阶段的耗时，timings 是有意的近似：send / receive 记为 0，总耗时全部计入 wait，
+ * 三者之和仍等于 time，符合规范的要求。
+ */
+export function recordsToHar(records: RequestRecord[], creatorVersion: string): HarLog {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'FlowProxy', version: creatorVersion },
+      // HAR 中按时间先后排列
+      entries: [...records].sort((a, b) => a.request.timestamp - b.request.timestamp).map(recordToEntry),
+    },
+  };
+}
+
+function recordToEntry(record: RequestRecord): HarEntry {
+  const { request, response } = record;
+  const time = record.durationMs ?? 0;
+  const httpVersion = toHarHttpVersion(record.protocol);
+
+  return {
+    startedDateTime: new Date(request.timestamp).toISOString(),
+    time,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion,
+      cookies: [],
+      headers: toNameValues(request.headers),
+      queryString: queryStringOf(request.url),
+      postData: request.body !== undefined
+        ? {
+          mimeType: request.headers['content-type'] || '',
+          text: request.body,
+          _encoding: request.bodyEncoding === 'base64' ? 'base64' : undefined,
+        }
+        : undefined,
+      headersSize: -1,
+      bodySize: request.bodySize ?? -1,
+      _bodyTruncated: request.bodyTruncated,
+      _protobuf: request.protobuf,
+    },
+    response: response
+      ? {
+        status: response.statusCode,
+        statusText: response.statusMessage || '',
+        httpVersion,
+        cookies: [],
+        headers: toNameValues(response.headers),
+        content: {
+          size: decodedSize(response),
+          mimeType: response.headers['content-type'] || '',
+          text: response.body,
+          encoding: response.bodyEncoding === 'base64' ? 'base64' : undefined,
+        },
+        redirectURL: response.headers['location'] || '',
+        headersSize: -1,
+        bodySize: response.bodySize ?? -1,
+        _bodyTruncated: response.bodyTruncated,
+        _protobuf: response.protobuf,
+        _trailers: response.trailers ? toNameValues(response.trailers) : undefined,
+      }
+      // 未完成的请求按 HAR 惯例记为 status 0
+      : {
+        status: 0,
+        statusText: '',
+        httpVersion,
+        cookies: [],
+        headers: [],
+        content: { size: 0, mimeType: '' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+    cache: {},
+    timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: time, receive: 0, ssl: -1 },
+    _id: record.id,
+    _matchedFlowId: record.matchedFlowId,
+    _upstreamHttpVersion: record.upstreamProtocol ? toHarHttpVersion(record.upstreamProtocol) : undefined,
+    _resentFromId: record.resentFromId,
+    _webSocketMessages: record.websocket?.frames.map((frame) => ({
+      type: frame.direction === 'client_to_server' ? 'send' : 'receive',
+      time: frame.timestamp / 1000,
+      opcode: frame.opcode,
+      data: frame.payload,
+      _encoding: frame.payloadEncoding === 'base64' ? 'base64' : undefined,
+    })),
+  };
+}
+
+/**
+ * 把 HAR 文件内容转换为只读的导入记录；无法解析或任一条目缺少必需字段时抛出异常。
+ */
+export function harToRecords(content: string): RequestRecord[] {
+  let har: HarLog;
+  try {
+    har = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Not a valid HAR file: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error('Not a valid HAR file: log.entries is missing');
+  }
+  return har.log.entries.map((entry, index) => {
+    const problem = validateEntry(entry);
+    if (problem) {
+      throw new Error(`Not a valid HAR file: entry ${index + 1} ${problem}`);
+    }
+    return entryToRecord(entry);
+  });
+}
+
+// 检查 entryToRecord 依赖的字段，有问题时返回描述
+function validateEntry(entry: any): string | undefined {
+  if (!entry || typeof entry !== 'object') return 'is not an object';
+  const { request, response } = entry;
+  if (!request || typeof request !== 'object') return 'has no request';
+  if (typeof request.method !== 'string' || typeof request.url !== 'string') return 'has no request method or url';
+  if (!isNameValues(request.headers)) return 'has invalid request headers';
+  if (response !== undefined && (!response || typeof response !== 'object')) return 'has an invalid response';
+  if (!isNameValues(response?.headers) || !isNameValues(response?._trailers)) return 'has invalid response headers';
+  const messages = entry._webSocketMessages;
+  if (messages !== undefined && !(Array.isArray(messages) && messages.every((m) => typeof m?.data === 'string'))) {
+    return 'has invalid WebSocket messages';
+  }
+  return undefined;
+}
+
+function isNameValues(values: unknown): boolean {
+  return values === undefined
+    || (Array.isArray(values) && values.every((item) => typeof item?.name === 'string'));
+}
+
+function entryToRecord(entry: HarEntry): RequestRecord {
+  const id = uuidv4();
+  const timestamp = Date.parse(entry.startedDateTime) || Date.now();
+  const requestHeaders = fromNameValues(entry.request.headers);
+  const postData = entry.request.postData;
+
+  const request: HttpRequest = {
+    id,
+    method: entry.request.method,
+    url: entry.request.url,
+    headers: requestHeaders,
+    body: postData?.text,
+    bodyEncoding: postData?.text !== undefined && postData._encoding === 'base64' ? 'base64' : undefined,
+    contentType: mimeTypeOf(requestHeaders['content-type'] || postData?.mimeType),
+    bodySize: entry.request.bodySize >= 0 ? entry.request.bodySize : undefined,
+    bodyTruncated: entry.request._bodyTruncated,
+    protobuf: entry.request._protobuf,
+    timestamp,
+  };
+
+  // status 0 表示请求未完成（被取消 / 失败）
+  let response: HttpResponse | undefined;
+  if (entry.response && entry.response.status) {
+    const responseHeaders = fromNameValues(entry.response.headers);
+    const content = entry.response.content || { size: 0, mimeType: '' };
+    response = {
+      statusCode: entry.response.status,
+      statusMessage: entry.response.statusText || undefined,
+      headers: responseHeaders,
+      body: content.text,
+      bodyEncoding: content.text !== undefined && content.encoding === 'base64' ? 'base64' : undefined,
+      contentType: mimeTypeOf(responseHeaders['content-type'] || content.mimeType),
+      bodySize: entry.response.bodySize >= 0 ? entry.response.bodySize : undefined,
+      bodyTruncated: entry.response._bodyTruncated,
+      protobuf: entry.response._protobuf,
+      trailers: entry.response._trailers ? fromNameValues(entry.response._trailers) : undefined,
+    };
+  }
+
+  const messages = entry._webSocketMessages;
+  return {
+    id,
+    request,
+    response,
+    durationMs: entry.time >= 0 ? Math.round(entry.time) : undefined,
+    matchedFlowId: entry._matchedFlowId,
+    protocol: fromHarHttpVersion(entry.request.httpVersion),
+    upstreamProtocol: entry._upstreamHttpVersion ? fromHarHttpVersion(entry._upstreamHttpVersion) : undefined,
+    websocket: messages ? { frames: messages.map(messageToFrame) } : undefined,
+    imported: true,
+  };
+}
+
+function messageToFrame(message: HarWebSocketMessage): WebSocketFrameRecord {
+  const base64 = message._encoding === 'base64' || message.opcode !== 1;
+  return {
+    direction: message.type === 'send' ? 'client_to_server' : 'server_to_client',
+    opcode: message.opcode,
+    payload: message.data,
+    payloadEncoding: base64 ? 'base64' : 'text',
+    timestamp: Math.round(message.time * 1000),
+    size: base64 ? Buffer.from(message.data, 'base64').length : Buffer.byteLength(message.data),
+  };
+}
+
+function toNameValues(headers: HttpHeaders): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+// 同名头（如多个 set-cookie）合并为一个值；头名统一小写，与代理记录一致
+function fromNameValues(values?: HarNameValue[]): HttpHeaders {
+  const headers: HttpHeaders = {};
+  for (const { name, value } of values || []) {
+    const key = name.toLowerCase();
+    // HTTP/2 的伪头（:method 等）在记录中不保留
+    if (key.startsWith(':')) continue;
+    headers[key] = key in headers ? `${headers[key]}, ${value}` : String(value);
+  }
+  return headers;
+}
+
+function queryStringOf(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function decodedSize(response: HttpResponse): number {
+  if (response.body === undefined) return 0;
+  return Buffer.byteLength(response.body, response.bodyEncoding === 'base64' ? 'base64' : 'utf-8');
+}
+
+// 记录中的协议名（http/1.1、h2）与 HAR 的 httpVersion（HTTP/1.1、HTTP/2）互转
+function toHarHttpVersion(protocol?: string): string {
+  if (!protocol) return '';
+  return protocol === 'h2' ? 'HTTP/2' : protocol.toUpperCase();
+}
+
+function fromHarHttpVersion(httpVersion?: string): string | undefined {
+  if (!httpVersion) return undefined;
+  const lower = httpVersion.toLowerCase();
+  return lower === 'http/2' || lower === 'http/2.0' || lower === 'h2' ? 'h2' : lower;
+}
@@ -1,37 +1,232 @@
-import { RequestRecord } from '../../shared/models';
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CaptureSession,
+  CaptureSessionList,
+  HttpRequest,
+  HttpResponse,
+  RequestRecord,
+} from '../../shared/models';
+import { BodyKind, SessionLog } from './sessionLog';
 
-const MAX_RECORDS = 2000;
+const DEFAULT_MAX_RECORDS = 2000;
+
+// 保留策略：记录数、天数、总大小，任一超出都从最旧的记录开始删除
+export interface RetentionPolicy {
+  maxRecords: number;
+  maxAgeDays?: number;
+  maxSizeMB?: number;
+}
 
 export class RequestStore {
+  private sessionsDir: string;
+  private indexPath: string;
+  private sessions: CaptureSession[] = [];
+  private activeSession!: CaptureSession;
+  private log!: SessionLog;
+  private retention: RetentionPolicy = { maxRecords: DEFAULT_MAX_RECORDS };
+  // 按加入顺序保存，最旧的在前；保存的是写入日志的版本（大 body 单独存放，不留在内存中），
+  // 代理引擎持有的记录不被修改，其 websocket 帧日志与这里共用，连接期间的新帧可以直接查询到
   private records: RequestRecord[] = [];
   private recordMap: Map<string, RequestRecord> = new Map();
+  // 从 HAR 导入的记录只保存在内存中：不写入会话、不计入保留策略，清空列表或重启后消失
+  private imported: Map<string, RequestRecord> = new Map();
+  // index.json 在后台写入：indexVersion 为最新的变更序号，写入期间又有变更时写完再写一次
+  private indexVersion = 0;
+  private writtenIndexVersion = 0;
+  private indexWriting = false;
+
+  constructor() {
+    const userDataPath = app?.getPath('userData') || path.join(process.env.HOME || '', '.flowproxy');
+    this.sessionsDir = path.join(userDataPath, 'sessions');
+    this.indexPath = path.join(this.sessionsDir, 'index.json');
+    if (!fs.existsSync(this.sessionsDir)) {
+      fs.mkdirSync(this.sessionsDir, { recursive: true });
+    }
+    this.loadIndex();
+  }
+
+  private loadIndex(): void {
+    let activeSessionId: string | undefined;
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        const index = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as CaptureSessionList;
+        this.sessions = index.sessions || [];
+        activeSessionId = index.activeSessionId;
+      }
+    } catch (error) {
+      console.error('Failed to load capture sessions:', error);
+    }
+
+    // 上次使用的会话不存在时新建一个
+    const active = this.sessions.find((s) => s.id === activeSessionId);
+    if (active) {
+      this.activate(active);
+    } else {
+      this.createSession();
+    }
+  }
+
+  private serializeIndex(): string {
+    const index: CaptureSessionList = { activeSessionId: this.activeSession.id, sessions: this.sessions };
+    return JSON.stringify(index, null, 2);
+  }
+
+  private saveIndex(): void {
+    this.indexVersion++;
+    if (this.indexWriting) return;
+    this.indexWriting = true;
+    this.writeIndex()
+      .catch((error) => console.error('Failed to save capture sessions:', error))
+      .finally(() => {
+        this.indexWriting = false;
+      });
+  }
+
+  // 先写临时文件再改名，写到一半退出时不会损坏原有的 index.json
+  private async writeIndex(): Promise<void> {
+    const tempPath = `${this.indexPath}.tmp`;
+    while (this.writtenIndexVersion < this.indexVersion) {
+      const version = this.indexVersion;
+      await fs.promises.writeFile(tempPath, this.serializeIndex());
+      // 退出前已同步写入了更新的内容
+      if (this.writtenIndexVersion >= version) continue;
+      await fs.promises.rename(tempPath, this.indexPath);
+      this.writtenIndexVersion = version;
+    }
+  }
+
+  private saveIndexSync(): void {
+    fs.writeFileSync(this.indexPath, this.serializeIndex());
+    this.writtenIndexVersion = this.indexVersion;
+  }
+
+  private activate(session: CaptureSession): void {
+    this.activeSession = session;
+    this.log = new SessionLog(path.join(this.sessionsDir, session.id), () => this.onLogFlushed());
+    try {
+      this.records = this.log.load();
+    } catch (error) {
+      console.error('Failed to load capture session %s:', session.id, error);
+      this.records = [];
+    }
+    this.recordMap = new Map(this.records.map((r) => [r.id, r]));
+
+    // 被覆盖的旧版本过多时压缩日志
+    if (this.log.lineCount > this.records.length * 2 + 100) {
+      this.log.rewrite(this.records);
+    }
+    this.applyRetention();
+    this.updateActiveSession(true);
+  }
+
+  private onLogFlushed(): void {
+    if (this.log.lineCount > this.records.length * 4 + 1000) {
+      this.log.rewrite(this.records);
+    }
+    this.updateActiveSession();
+  }
+
+  // 记录数或大小有变化（或切换了当前会话，force）时才更新 index.json
+  private updateActiveSession(force = false): void {
+    const recordCount = this.records.length;
+    const sizeBytes = this.log.sizeBytes();
+    if (!force && this.activeSession.recordCount === recordCount && this.activeSession.sizeBytes === sizeBytes) {
+      return;
+    }
+    this.activeSession.recordCount = recordCount;
+    this.activeSession.sizeBytes = sizeBytes;
+    this.activeSession.updatedAt = Date.now();
+    this.saveIndex();
+  }
+
+  setRetention(retention: RetentionPolicy): void {
+    this.retention = {
+      ...retention,
+      maxRecords: retention.maxRecords > 0 ? retention.maxRecords : DEFAULT_MAX_RECORDS,
+    };
+    if (this.applyRetention()) {
+      this.updateActiveSession();
+    }
+  }
+
+  /**
+   * 按保留策略删除最旧的记录，返回是否删除了记录。
+   */
+  private applyRetention(): boolean {
+    const { maxRecords, maxAgeDays, maxSizeMB } = this.retention;
+    const minTimestamp = maxAgeDays && maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+    const maxBytes = maxSizeMB && maxSizeMB > 0 ? maxSizeMB * 1024 * 1024 : 0;
+
+    const removed: string[] = [];
+    for (const record of this.records) {
+      const remaining = this.records.length - removed.length;
+      const overCount = remaining > maxRecords;
+      const expired = record.request.timestamp < minTimestamp;
+      // 按大小清理时至少保留最新一条
+      const overSize = maxBytes > 0 && remaining > 1 && this.log.sizeBytes() > maxBytes;
+      if (!overCount && !expired && !overSize) break;
+
+      removed.push(record.id);
+      this.recordMap.delete(record.id);
+      this.log.remove([record.id]);
+    }
+
+    if (removed.length) {
+      this.records = this.records.slice(removed.length);
+    }
+    return removed.length > 0;
+  }
 
   add(record: RequestRecord): void {
+    const stored = this.log.append(record);
     // 如果已存在则更新
     const existing = this.recordMap.get(record.id);
     if (existing) {
-      Object.assign(existing, record);
+      Object.assign(existing, stored);
       return;
     }
 
-    // 环形缓冲区：超过最大数量时删除最旧的
-    if (this.records.length >= MAX_RECORDS) {
-      const oldest = this.records.shift();
-      if (oldest) {
-        this.recordMap.delete(oldest.id);
-      }
-    }
+    this.records.push(stored);
+    this.recordMap.set(record.id, stored);
+    this.applyRetention();
+  }
 
-    this.records.push(record);
-    this.recordMap.set(record.id, record);
+  addImported(records: RequestRecord[]): void {
+    for (const record of records) {
+      this.imported.set(record.id, record);
+    }
   }
 
+  // 最新的在前，导入的记录列在最前面
   getAll(): RequestRecord[] {
-    return [...this.records].reverse(); // 最新的在前
+    return [...this.importedRecords(), ...[...this.records].reverse()];
+  }
+
+  private importedRecords(): RequestRecord[] {
+    return Array.from(this.imported.values()).reverse();
   }
 
+  /**
+   * 按 id 查询记录；单独存放的大 body 会读回到返回的副本中。
+   */
   getById(id: string): RequestRecord | undefined {
-    return this.recordMap.get(id);
+    const record = this.recordMap.get(id) || this.imported.get(id);
+    if (!record || (!record.request.bodyOffloaded && !record.response?.bodyOffloaded)) {
+      return record;
+    }
+    return {
+      ...record,
+      request: this.readBody(record.id, 'request', record.request),
+      response: record.response ? this.readBody(record.id, 'response', record.response) : undefined,
+    };
+  }
+
+  private readBody<T extends HttpRequest | HttpResponse>(id: string, kind: BodyKind, message: T): T {
+    if (!message.bodyOffloaded) return message;
+    return { ...message, body: this.log.readBody(id, kind), bodyOffloaded: undefined };
   }
 
   filter(criteria: {
@@ -40,7 +235,7 @@ export class RequestStore {
     statusCode?: number;
     search?: string;
   }): RequestRecord[] {
-    let result = this.records;
+    let result = this.getAll();
 
     if (criteria.method) {
       result = result.filter(r => r.request.method === criteria.method);
@@ -63,21 +258,98 @@ export class RequestStore {
 
     if (criteria.search) {
       const searchLower = criteria.search.toLowerCase();
-      result = result.filter(r => 
+      result = result.filter(r =>
         r.request.url.toLowerCase().includes(searchLower) ||
         r.request.method.toLowerCase().includes(searchLower)
       );
     }
 
-    return [...result].reverse();
+    return result;
   }
 
+  // 清空当前会话（连同导入的记录）
   clear(): void {
     this.records = [];
     this.recordMap.clear();
+    this.imported.clear();
+    this.log.clear();
+    this.updateActiveSession();
   }
 
   getCount(): number {
     return this.records.length;
   }
+
+  // 把尚未写入的记录写到磁盘（退出前调用）
+  flush(): void {
+    this.log.flush();
+    this.log.flushBodies();
+    if (this.writtenIndexVersion < this.indexVersion) {
+      this.saveIndexSync();
+    }
+  }
+
+  listSessions(): CaptureSessionList {
+    return { activeSessionId: this.activeSession.id, sessions: [...this.sessions] };
+  }
+
+  /**
+   * 新建会话并切换过去，之后的请求记录到新会话中。
+   */
+  newSession(name?: string): CaptureSession {
+    this.flush();
+    return this.createSession(name);
+  }
+
+  private createSession(name?: string): CaptureSession {
+    const now = Date.now();
+    const session: CaptureSession = {
+      id: uuidv4(),
+      name: name?.trim() || `Session ${new Date(now).toLocaleString()}`,
+      createdAt: now,
+      updatedAt: now,
+      recordCount: 0,
+      sizeBytes: 0,
+    };
+    this.sessions.push(session);
+    this.activate(session);
+    return session;
+  }
+
+  openSession(id: string): boolean {
+    const session = this.sessions.find((s) => s.id === id);
+    if (!session) return false;
+    if (session.id !== this.activeSession.id) {
+      this.flush();
+      this.activate(session);
+    }
+    return true;
+  }
+
+  renameSession(id: string, name: string): boolean {
+    const session = this.sessions.find((s) => s.id === id);
+    if (!session || !name.trim()) return false;
+    session.name = name.trim();
+    this.saveIndex();
+    return true;
+  }
+
+  /**
+   * 删除会话及其磁盘数据；删除当前会话时切换到一个新会话。
+   */
+  deleteSession(id: string): boolean {
+    const session = this.sessions.find((s) => s.id === id);
+    if (!session) return false;
+
+    if (session.id === this.activeSession.id) {
+      this.log.destroy();
+      this.sessions = this.sessions.filter((s) => s.id !== id);
+      this.createSession();
+    } else {
+      fs.rmSync(path.join(this.sessionsDir, id), { recursive: true, force: true });
+      this.sessions = this.sessions.filter((s) => s.id !== id);
+      this.saveIndex();
+    }
+    return true;
+  }
 }
@@ -0,0 +1,257 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HttpRequest, HttpResponse, RequestRecord } from '../../shared/models';
+
+// 超过该长度的 body 单独保存在 bodies 目录中，日志里只留标记
+const BODY_INLINE_LIMIT = 64 * 1024;
+// 追加写入前合并的时间窗口
+const FLUSH_DELAY_MS = 500;
+
+export type BodyKind = 'request' | 'response';
+
+// 日志中的删除标记
+interface DeleteLine {
+  $delete: string;
+}
+
+/**
+ * 单个抓包会话在磁盘上的存储：records.jsonl 为只追加的记录日志（同一记录的多次更新以最后一行为准），
+ * 大 body 存放在 bodies/<recordId>.<kind>。
+ */
+export class SessionLog {
+  private dir: string;
+  private logPath: string;
+  private bodiesDir: string;
+  // 等待追加的行，按记录 id 只保留最新的一行（记录在一次写入间隔内的多次更新只写一次）
+  private pending: Map<string, string> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private onFlush?: () => void;
+  // 已写入（或正在写入）的 body 文件及其内容摘要，记录多次更新时避免重复写
+  private writtenBodies: Map<string, string> = new Map();
+  // 尚未写完的 body，读取时以此为准
+  private pendingBodies: Map<string, string> = new Map();
+  // body 文件按顺序异步写入 / 删除，不阻塞请求处理
+  private bodyQueue: Promise<void> = Promise.resolve();
+  // 每条记录在磁盘上占用的字节数（最新一行加上单独保存的 body），用于按总大小清理
+  private sizes: Map<string, number> = new Map();
+  private totalBytes = 0;
+  lineCount = 0;
+
+  constructor(dir: string, onFlush?: () => void) {
+    this.dir = dir;
+    this.logPath = path.join(dir, 'records.jsonl');
+    this.bodiesDir = path.join(dir, 'bodies');
+    this.onFlush = onFlush;
+    fs.mkdirSync(this.bodiesDir, { recursive: true });
+  }
+
+  /**
+   * 读出会话中的全部记录（按首次出现的顺序）；大 body 不读入内存，以 bodyOffloaded 标记。
+   */
+  load(): RequestRecord[] {
+    const records: Map<string, RequestRecord> = new Map();
+    if (!fs.existsSync(this.logPath)) return [];
+
+    const lines = fs.readFileSync(this.logPath, 'utf-8').split('\n').filter(Boolean);
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line) as RequestRecord | DeleteLine;
+        if ('$delete' in entry) {
+          records.delete(entry.$delete);
+          this.setSize(entry.$delete, 0);
+          continue;
+        }
+        if (records.has(entry.id)) {
+          Object.assign(records.get(entry.id)!, entry);
+        } else {
+          records.set(entry.id, entry);
+        }
+        this.setSize(entry.id, line.length + this.offloadedSize(entry));
+      } catch {
+        // 异常退出时最后一行可能只写了一半
+        console.warn('[sessionLog] skipped a corrupted line in %s', this.logPath);
+      }
+    }
+    this.lineCount = lines.length;
+    return Array.from(records.values());
+  }
+
+  /**
+   * 记录写入日志的版本：大 body 已单独存放，以 bodyOffloaded 标记；其余字段与 record 共用。
+   */
+  append(record: RequestRecord): RequestRecord {
+    const serialized = this.serialize(record);
+    const line = JSON.stringify(serialized);
+    this.pending.set(record.id, line);
+    this.setSize(record.id, line.length + this.offloadedSize(serialized));
+    this.scheduleFlush();
+    return serialized;
+  }
+
+  remove(ids: string[]): void {
+    for (const id of ids) {
+      this.pending.set(id, JSON.stringify({ $delete: id }));
+      this.setSize(id, 0);
+      for (const kind of ['request', 'response'] as BodyKind[]) {
+        const file = this.bodyPath(id, kind);
+        this.writtenBodies.delete(file);
+        this.pendingBodies.delete(file);
+        this.enqueueBodyTask(() => fs.promises.rm(file, { force: true }));
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  readBody(id: string, kind: BodyKind): string | undefined {
+    const file = this.bodyPath(id, kind);
+    const pending = this.pendingBodies.get(file);
+    if (pending !== undefined) return pending;
+    try {
+      return fs.readFileSync(file, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  // 用当前记录重写日志，去掉被覆盖的旧版本和删除标记
+  rewrite(records: RequestRecord[]): void {
+    this.pending.clear();
+    const lines = records.map((r) => {
+      const serialized = this.serialize(r);
+      const line = JSON.stringify(serialized);
+      this.setSize(r.id, line.length + this.offloadedSize(serialized));
+      return line;
+    });
+    fs.writeFileSync(this.logPath, lines.map((l) => l + '\n').join(''));
+    this.lineCount = lines.length;
+  }
+
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.size) {
+      const lines = Array.from(this.pending.values());
+      fs.appendFileSync(this.logPath, lines.map((l) => l + '\n').join(''));
+      this.lineCount += lines.length;
+      this.pending.clear();
+    }
+    this.onFlush?.();
+  }
+
+  // 同步写入尚未写完的 body（退出前调用）
+  flushBodies(): void {
+    for (const [file, body] of this.pendingBodies) {
+      try {
+        fs.writeFileSync(file, body);
+      } catch (error) {
+        console.error('[sessionLog] failed to write body %s:', file, error);
+      }
+    }
+    this.pendingBodies.clear();
+  }
+
+  // 当前记录占用的大小（不含已被覆盖的旧版本）
+  sizeBytes(): number {
+    return this.totalBytes;
+  }
+
+  // 清空会话内容，目录保留
+  clear(): void {
+    this.pending.clear();
+    this.writtenBodies.clear();
+    this.pendingBodies.clear();
+    this.sizes.clear();
+    this.totalBytes = 0;
+    fs.rmSync(this.logPath, { force: true });
+    fs.rmSync(this.bodiesDir, { recursive: true, force: true });
+    fs.mkdirSync(this.bodiesDir, { recursive: true });
+    this.lineCount = 0;
+  }
+
+  // 删除整个会话目录
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending.clear();
+    this.pendingBodies.clear();
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      try {
+        this.flush();
+      } catch (error) {
+        console.error('Failed to write capture session:', error);
+      }
+    }, FLUSH_DELAY_MS);
+  }
+
+  private serialize(record: RequestRecord): RequestRecord {
+    return {
+      ...record,
+      request: this.offloadBody(record.id, 'request', record.request),
+      response: record.response ? this.offloadBody(record.id, 'response', record.response) : undefined,
+    };
+  }
+
+  private offloadBody<T extends HttpRequest | HttpResponse>(id: string, kind: BodyKind, message: T): T {
+    if (message.body === undefined || message.body.length <= BODY_INLINE_LIMIT) {
+      return message;
+    }
+    const file = this.bodyPath(id, kind);
+    // 按内容摘要判断是否变化：断点或 Flow 改写后长度不变的 body 也要重新写入
+    const digest = crypto.createHash('sha1').update(message.body).digest('hex');
+    if (this.writtenBodies.get(file) !== digest) {
+      this.writtenBodies.set(file, digest);
+      this.writeBody(file, message.body);
+    }
+    return { ...message, body: undefined, bodyOffloaded: true };
+  }
+
+  private writeBody(file: string, body: string): void {
+    this.pendingBodies.set(file, body);
+    this.enqueueBodyTask(async () => {
+      // 排队期间已被更新的内容取代或已删除
+      if (this.pendingBodies.get(file) !== body) return;
+      await fs.promises.writeFile(file, body);
+      if (this.pendingBodies.get(file) === body) {
+        this.pendingBodies.delete(file);
+      }
+    });
+  }
+
+  private enqueueBodyTask(task: () => Promise<void>): void {
+    this.bodyQueue = this.bodyQueue
+      .then(task)
+      .catch((error) => console.error('[sessionLog] failed to write body:', error));
+  }
+
+  // 单独保存的 body 按记录中的字节数估算，避免逐个读取文件
+  private offloadedSize(record: RequestRecord): number {
+    let size = 0;
+    if (record.request.bodyOffloaded) size += record.request.bodySize ?? 0;
+    if (record.response?.bodyOffloaded) size += record.response.bodySize ?? 0;
+    return size;
+  }
+
+  private setSize(id: string, size: number): void {
+    this.totalBytes += size - (this.sizes.get(id) || 0);
+    if (size) {
+      this.sizes.set(id, size);
+    } else {
+      this.sizes.delete(id);
+    }
+  }
+
+  private bodyPath(id: string, kind: BodyKind): string {
+    return path.join(this.bodiesDir, `${id}.${kind}`);
+  }
+}
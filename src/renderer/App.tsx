@@ -8,6 +8,7 @@ import Requests from './pages/Requests';
 import Flows from './pages/Flows';
 import FlowEditor from './pages/FlowEditor';
 import Components from './pages/Components';
+import Cassettes from './pages/Cassettes';
 import Settings from './pages/Settings';
 
 const { Content } = Layout;
@@ -30,6 +31,7 @@ const App: React.FC = () => {
             <Route path="/flows" element={<Flows />} />
             <Route path="/flows/:id" element={<FlowEditor />} />
             <Route path="/components" element={<Components />} />
+            <Route path="/cassettes" element={<Cassettes />} />
             <Route path="/settings" element={<Settings />} />
           </Routes>
         </Content>
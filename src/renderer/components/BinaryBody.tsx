@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { Typography } from 'antd';
+
+const { Text } = Typography;
+
+// 十六进制视图最多展示的字节数
+const MAX_HEX_BYTES = 4096;
+
+interface BinaryBodyProps {
+  // base64 编码的 body
+  body: string;
+}
+
+function toHexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(row, (b) => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 二进制 body（bodyEncoding 为 base64）的十六进制视图。
+ */
+const BinaryBody: React.FC<BinaryBodyProps> = ({ body }) => {
+  const bytes = useMemo(() => {
+    try {
+      return Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+    } catch {
+      return new Uint8Array(0);
+    }
+  }, [body]);
+
+  return (
+    <>
+      <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+        Binary body, {bytes.length} bytes
+        {bytes.length > MAX_HEX_BYTES ? ` (showing the first ${MAX_HEX_BYTES})` : ''}
+      </Text>
+      <pre className="code-block plain-body">{toHexDump(bytes.subarray(0, MAX_HEX_BYTES))}</pre>
+    </>
+  );
+};
+
+export default BinaryBody;
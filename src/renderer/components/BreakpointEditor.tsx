@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Form, Input, InputNumber, Select, Button, Tabs, Typography, Space, message } from 'antd';
+import { PendingBreakpoint, BreakpointResolution } from '../../shared/models';
+import { headersToText, textToHeaders } from './headerText';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+interface BreakpointEditorProps {
+  breakpoint: PendingBreakpoint | null;
+  onClose: () => void;
+}
+
+interface EditorValues {
+  method: string;
+  url: string;
+  requestHeaders: string;
+  requestBody: string;
+  statusCode: number;
+  responseHeaders: string;
+  responseBody: string;
+}
+
+/**
+ * 断点编辑弹窗：请求阶段可编辑请求并继续、中止或直接 Mock 响应；响应阶段可编辑响应后继续或中止。
+ */
+const BreakpointEditor: React.FC<BreakpointEditorProps> = ({ breakpoint, onClose }) => {
+  const [form] = Form.useForm<EditorValues>();
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!breakpoint) return;
+    const { request, response } = breakpoint;
+    form.setFieldsValue({
+      method: request.method,
+      url: request.url,
+      requestHeaders: headersToText(request.headers),
+      requestBody: request.body || '',
+      statusCode: response?.statusCode ?? 200,
+      responseHeaders: response ? headersToText(response.headers) : 'content-type: application/json',
+      responseBody: response?.body || '',
+    });
+
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((breakpoint.expiresAt - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [breakpoint]);
+
+  if (!breakpoint) return null;
+
+  const isRequestPhase = breakpoint.phase === 'request';
+
+  const resolve = async (action: BreakpointResolution['action']) => {
+    const values = form.getFieldsValue();
+    const resolution: BreakpointResolution = { action };
+
+    if (action === 'continue' && isRequestPhase) {
+      resolution.request = {
+        ...breakpoint.request,
+        method: values.method,
+        url: values.url,
+        headers: textToHeaders(values.requestHeaders),
+        body: values.requestBody || undefined,
+      };
+    } else if (action === 'continue' && breakpoint.response) {
+      resolution.response = {
+        ...breakpoint.response,
+        statusCode: values.statusCode,
+        statusMessage: values.statusCode === breakpoint.response.statusCode ? breakpoint.response.statusMessage : undefined,
+        headers: textToHeaders(values.responseHeaders),
+        body: values.responseBody || undefined,
+      };
+    } else if (action === 'mock') {
+      resolution.response = {
+        statusCode: values.statusCode,
+        headers: textToHeaders(values.responseHeaders),
+        body: values.responseBody || undefined,
+      };
+    }
+
+    const resolved = await window.electronAPI.resolveBreakpoint(breakpoint.id, resolution);
+    if (!resolved) {
+      message.warning('The breakpoint has already timed out or the client disconnected');
+    }
+    onClose();
+  };
+
+  // 二进制 body 以 base64 文本编辑，bodyEncoding 保持不变
+  const binaryNote = (encoding?: string) =>
+    encoding === 'base64' ? <Text type="secondary">Binary body, edit as base64</Text> : null;
+
+  const requestTab = (
+    <>
+      <Space.Compact style={{ width: '100%', marginBottom: 12 }}>
+        <Form.Item name="method" noStyle>
+          <Select style={{ width: 120 }} disabled={!isRequestPhase}>
+            {['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'].map((m) => (
+              <Select.Option key={m} value={m}>{m}</Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item name="url" noStyle>
+          <Input disabled={!isRequestPhase} />
+        </Form.Item>
+      </Space.Compact>
+      <Form.Item name="requestHeaders" label="Headers">
+        <TextArea rows={6} disabled={!isRequestPhase} style={{ fontFamily: 'monospace' }} />
+      </Form.Item>
+      <Form.Item name="requestBody" label="Body" extra={binaryNote(breakpoint.request.bodyEncoding)}>
+        <TextArea rows={8} disabled={!isRequestPhase} style={{ fontFamily: 'monospace' }} />
+      </Form.Item>
+    </>
+  );
+
+  const responseTab = (
+    <>
+      <Form.Item name="statusCode" label="Status">
+        <InputNumber min={100} max={599} />
+      </Form.Item>
+      <Form.Item name="responseHeaders" label="Headers">
+        <TextArea rows={6} style={{ fontFamily: 'monospace' }} />
+      </Form.Item>
+      <Form.Item name="responseBody" label="Body" extra={binaryNote(breakpoint.response?.bodyEncoding)}>
+        <TextArea rows={8} style={{ fontFamily: 'monospace' }} />
+      </Form.Item>
+    </>
+  );
+
+  return (
+    <Modal
+      open
+      width={760}
+      title={`${isRequestPhase ? 'Request' : 'Response'} breakpoint`}
+      onCancel={onClose}
+      footer={
+        <Space>
+          <Text type="secondary">Times out in {secondsLeft}s</Text>
+          <Button danger onClick={() => resolve('abort')}>Abort</Button>
+          {isRequestPhase && <Button onClick={() => resolve('mock')}>Mock</Button>}
+          <Button type="primary" onClick={() => resolve('continue')}>Continue</Button>
+        </Space>
+      }
+    >
+      <Form form={form} layout="vertical">
+        <Tabs
+          defaultActiveKey={isRequestPhase ? 'request' : 'response'}
+          items={[
+            { key: 'request', label: 'Request', children: requestTab, forceRender: true },
+            { key: 'response', label: isRequestPhase ? 'Mock Response' : 'Response', children: responseTab, forceRender: true },
+          ]}
+        />
+      </Form>
+    </Modal>
+  );
+};
+
+export default BreakpointEditor;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Table, Tag, Typography, Empty } from 'antd';
+import { FlowTraceChange, FlowTraceStep } from '../../shared/models';
+
+const { Text } = Typography;
+
+const NODE_TYPE_COLORS: Record<string, string> = {
+  entry: 'blue',
+  response_entry: 'cyan',
+  frame_entry: 'magenta',
+  component: 'green',
+  condition: 'gold',
+  switch: 'volcano',
+  subflow: 'geekblue',
+  terminator: 'purple',
+};
+
+const formatValue = (value: any) => {
+  if (value === undefined) return <Text type="secondary">(none)</Text>;
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return <pre className="code-block plain-body" style={{ margin: 0, maxHeight: 200 }}>{text}</pre>;
+};
+
+/**
+ * 单个节点对 request / response / vars 的改动。
+ */
+export const FlowTraceChanges: React.FC<{ changes?: FlowTraceChange[] }> = ({ changes }) => {
+  if (!changes?.length) {
+    return <Text type="secondary">No changes</Text>;
+  }
+  return (
+    <Table
+      dataSource={changes}
+      rowKey="path"
+      size="small"
+      pagination={false}
+      columns={[
+        { title: 'Field', dataIndex: 'path', width: 200, render: (path: string) => <Text code>{path}</Text> },
+        { title: 'Before', dataIndex: 'before', render: formatValue },
+        { title: 'After', dataIndex: 'after', render: formatValue },
+      ]}
+    />
+  );
+};
+
+// 节点的执行结果：命中的匹配条件、条件分支、错误或终止
+export const FlowTraceOutcome: React.FC<{ step: FlowTraceStep }> = ({ step }) => (
+  <>
+    {step.matchedBy && step.matchedBy.length > 0 && (
+      <Text type="secondary">matched: {step.matchedBy.join(', ')} </Text>
+    )}
+    {step.conditionResult !== undefined && (
+      <Tag color={step.conditionResult ? 'green' : 'orange'}>{String(step.conditionResult)}</Tag>
+    )}
+    {step.branch !== undefined && <Tag color="volcano">{step.branch}</Tag>}
+    {step.terminated && <Tag color="red">terminated</Tag>}
+    {step.changes && step.changes.length > 0 && <Tag>{step.changes.length} changes</Tag>}
+    {step.error && <Text type="danger">{step.error}</Text>}
+  </>
+);
+
+/**
+ * Flow 执行轨迹：按顺序列出经过的节点，展开可查看该节点的改动。
+ */
+const FlowTrace: React.FC<{ trace?: FlowTraceStep[] }> = ({ trace }) => {
+  if (!trace?.length) {
+    return <Empty description="No trace" />;
+  }
+  // 多个 Flow 依次执行时显示节点所属的 Flow
+  const multipleFlows = new Set(trace.map((step) => step.flowId)).size > 1;
+  return (
+    <Table
+      dataSource={trace.map((step, index) => ({ ...step, index }))}
+      rowKey="index"
+      size="small"
+      pagination={false}
+      columns={[
+        { title: '#', dataIndex: 'index', width: 50, render: (index: number) => index + 1 },
+        ...(multipleFlows ? [{ title: 'Flow', dataIndex: 'flowName', width: 140 }] : []),
+        { title: 'Phase', dataIndex: 'phase', width: 90 },
+        {
+          title: 'Node',
+          dataIndex: 'nodeName',
+          render: (name: string, step: FlowTraceStep) => (
+            <>
+              <Tag color={NODE_TYPE_COLORS[step.nodeType]}>{step.nodeType}</Tag>
+              {name}
+            </>
+          ),
+        },
+        {
+          title: 'Result',
+          render: (_: any, step: FlowTraceStep) => <FlowTraceOutcome step={step} />,
+        },
+        {
+          title: 'Duration',
+          dataIndex: 'durationMs',
+          width: 90,
+          render: (ms?: number) => (ms === undefined ? '-' : `${ms}ms`),
+        },
+      ]}
+      expandable={{
+        rowExpandable: (step: FlowTraceStep) => step.nodeType === 'component' || step.nodeType === 'subflow',
+        expandedRowRender: (step: FlowTraceStep) => <FlowTraceChanges changes={step.changes} />,
+      }}
+    />
+  );
+};
+
+export default FlowTrace;
@@ -0,0 +1,146 @@
+import React from 'react';
+import { Form, Select, Input, Checkbox, Button, Space } from 'antd';
+import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
+import { MatchConditionField, MatchConditionOperator } from '../../shared/models';
+
+type NamePath = (string | number)[];
+
+// 条件组最多嵌套的层数
+const MAX_GROUP_DEPTH = 3;
+
+const FIELD_OPTIONS: { value: MatchConditionField; label: string }[] = [
+  { value: 'header', label: 'Header' },
+  { value: 'query', label: 'Query' },
+  { value: 'body', label: 'Body' },
+  { value: 'method', label: 'Method' },
+  { value: 'host', label: 'Host' },
+  { value: 'path', label: 'Path' },
+  { value: 'url', label: 'URL' },
+  { value: 'scheme', label: 'Scheme' },
+  { value: 'port', label: 'Port' },
+  { value: 'clientIp', label: 'Client IP' },
+];
+
+const OPERATOR_OPTIONS: { value: MatchConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'wildcard', label: 'wildcard' },
+  { value: 'regex', label: 'regex' },
+  { value: 'exists', label: 'exists' },
+  { value: 'jsonPath', label: 'JSONPath' },
+];
+
+const NAMED_FIELDS: MatchConditionField[] = ['header', 'query'];
+const EXISTS_FIELDS: MatchConditionField[] = ['header', 'query', 'body', 'clientIp'];
+
+// 单个条件：字段、名称（header / query / JSONPath）、操作、期望值、取反
+const ConditionRow: React.FC<{ name: number; path: NamePath; onRemove: () => void }> = ({ name, path, onRemove }) => {
+  const form = Form.useFormInstance();
+
+  return (
+    <Form.Item noStyle shouldUpdate>
+      {() => {
+        const field: MatchConditionField | undefined = form.getFieldValue([...path, 'field']);
+        const operator: MatchConditionOperator | undefined = form.getFieldValue([...path, 'operator']);
+        const showName = NAMED_FIELDS.includes(field!) || operator === 'jsonPath';
+        const operators = OPERATOR_OPTIONS.filter((option) =>
+          (option.value !== 'jsonPath' || field === 'body') && (option.value !== 'exists' || EXISTS_FIELDS.includes(field!))
+        );
+
+        return (
+          <Space size={4} wrap style={{ marginBottom: 4 }}>
+            <Form.Item name={[name, 'field']} noStyle>
+              <Select style={{ width: 100 }} options={FIELD_OPTIONS} />
+            </Form.Item>
+            {showName && (
+              <Form.Item name={[name, 'name']} noStyle>
+                <Input style={{ width: 120 }} placeholder={operator === 'jsonPath' ? '$.user.id' : 'Name'} />
+              </Form.Item>
+            )}
+            <Form.Item name={[name, 'operator']} noStyle>
+              <Select style={{ width: 100 }} options={operators} />
+            </Form.Item>
+            {operator !== 'exists' && (
+              <Form.Item name={[name, 'value']} noStyle>
+                <Input style={{ width: 140 }} placeholder={operator === 'jsonPath' ? 'Value (optional)' : 'Value'} />
+              </Form.Item>
+            )}
+            <Form.Item name={[name, 'negate']} valuePropName="checked" noStyle>
+              <Checkbox>Not</Checkbox>
+            </Form.Item>
+            <Button size="small" type="text" danger icon={<DeleteOutlined />} onClick={onRemove} />
+          </Space>
+        );
+      }}
+    </Form.Item>
+  );
+};
+
+/**
+ * 条件组编辑器：name 为相对当前 Form.List 的路径，path 为在表单中的完整路径（用于读取字段值）。
+ */
+const MatchGroupEditor: React.FC<{
+  name: NamePath;
+  path: NamePath;
+  depth?: number;
+  onRemove?: () => void;
+}> = ({ name, path, depth = 1, onRemove }) => (
+  <div style={{ border: '1px dashed #555', borderRadius: 6, padding: 8, marginBottom: 8 }}>
+    <Space size={4} style={{ marginBottom: 8 }}>
+      <Form.Item name={[...name, 'combinator']} noStyle>
+        <Select
+          style={{ width: 130 }}
+          options={[
+            { value: 'and', label: 'All of (AND)' },
+            { value: 'or', label: 'Any of (OR)' },
+          ]}
+        />
+      </Form.Item>
+      <Form.Item name={[...name, 'negate']} valuePropName="checked" noStyle>
+        <Checkbox>Not</Checkbox>
+      </Form.Item>
+      {onRemove && <Button size="small" type="text" danger icon={<DeleteOutlined />} onClick={onRemove} />}
+    </Space>
+
+    <Form.List name={[...name, 'conditions']}>
+      {(fields, { add, remove }) => (
+        <>
+          {fields.map((field) => (
+            <ConditionRow
+              key={field.key}
+              name={field.name}
+              path={[...path, 'conditions', field.name]}
+              onRemove={() => remove(field.name)}
+            />
+          ))}
+          <Button size="small" type="dashed" icon={<PlusOutlined />} onClick={() => add({ field: 'header', operator: 'equals' })}>
+            Condition
+          </Button>
+        </>
+      )}
+    </Form.List>
+
+    {depth < MAX_GROUP_DEPTH && (
+      <Form.List name={[...name, 'groups']}>
+        {(fields, { add, remove }) => (
+          <div style={{ marginTop: 8 }}>
+            {fields.map((field) => (
+              <MatchGroupEditor
+                key={field.key}
+                name={[field.name]}
+                path={[...path, 'groups', field.name]}
+                depth={depth + 1}
+                onRemove={() => remove(field.name)}
+              />
+            ))}
+            <Button size="small" type="dashed" icon={<PlusOutlined />} onClick={() => add({ combinator: 'or', conditions: [] })}>
+              Group
+            </Button>
+          </div>
+        )}
+      </Form.List>
+    )}
+  </div>
+);
+
+export default MatchGroupEditor;
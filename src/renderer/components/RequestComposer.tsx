@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Form, Input, Select, Button, Tabs, Typography, Space, Switch, message } from 'antd';
+import { SendOutlined } from '@ant-design/icons';
+import { RequestRecord, ComposeRequest } from '../../shared/models';
+import { headersToText, textToHeaders } from './headerText';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+interface RequestComposerProps {
+  open: boolean;
+  // 要重发的记录；为 null 时新建空白请求
+  source: RequestRecord | null;
+  onClose: () => void;
+  onSent: (record: RequestRecord) => void;
+}
+
+interface ComposerValues {
+  method: string;
+  url: string;
+  headers: string;
+  body: string;
+  rawHttpText: string;
+}
+
+/**
+ * Resend / Compose：编辑记录中的请求（或从空白 / 原始 HTTP 文本开始）后通过代理重新发送。
+ */
+const RequestComposer: React.FC<RequestComposerProps> = ({ open, source, onClose, onSent }) => {
+  const [form] = Form.useForm<ComposerValues>();
+  const [mode, setMode] = useState<'form' | 'raw'>('form');
+  const [applyFlows, setApplyFlows] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const request = source?.request;
+    form.setFieldsValue({
+      method: request?.method || 'GET',
+      url: request?.url || 'https://',
+      headers: headersToText(request?.headers),
+      body: request?.body || '',
+      rawHttpText: '',
+    });
+    setMode('form');
+  }, [open, source]);
+
+  const send = async () => {
+    const values = form.getFieldsValue();
+    const payload: ComposeRequest = { applyFlows, sourceRecordId: source?.id };
+    if (mode === 'raw') {
+      if (!values.rawHttpText.trim()) {
+        message.warning('Paste a raw HTTP request first');
+        return;
+      }
+      payload.rawHttpText = values.rawHttpText;
+    } else {
+      payload.request = {
+        method: values.method,
+        url: values.url,
+        headers: textToHeaders(values.headers),
+        body: values.body || undefined,
+        bodyEncoding: values.body ? source?.request.bodyEncoding : undefined,
+      };
+    }
+
+    setSending(true);
+    try {
+      const result = await window.electronAPI.sendRequest(payload);
+      if (!result.success || !result.record) {
+        message.error(result.errorMessage || 'Failed to send request');
+        return;
+      }
+      message.success(`Sent, status ${result.record.response?.statusCode ?? '-'}`);
+      onSent(result.record);
+      onClose();
+    } catch (error) {
+      console.error('Failed to send request:', error);
+      message.error('Failed to send request');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formTab = (
+    <>
+      <Space.Compact style={{ width: '100%', marginBottom: 12 }}>
+        <Form.Item name="method" noStyle>
+          <Select style={{ width: 120 }}>
+            {['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'].map((m) => (
+              <Select.Option key={m} value={m}>{m}</Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item name="url" noStyle>
+          <Input placeholder="https://api.example.com/path" />
+        </Form.Item>
+      </Space.Compact>
+      <Form.Item name="headers" label="Headers" extra="One header per line, Name: value">
+        <TextArea rows={6} style={{ fontFamily: 'monospace' }} />
+      </Form.Item>
+      <Form.Item
+        name="body"
+        label="Body"
+        extra={
+          <>
+            {source?.request.bodyEncoding === 'base64' && <div>Binary body, edit as base64</div>}
+            {source?.request.bodyTruncated && <div>Only the first part of the original body was recorded</div>}
+          </>
+        }
+      >
+        <TextArea rows={8} style={{ fontFamily: 'monospace' }} />
+      </Form.Item>
+    </>
+  );
+
+  const rawTab = (
+    <Form.Item
+      name="rawHttpText"
+      extra="Same format as the Debug raw request; use an absolute URL in the request line (GET https://host/path HTTP/1.1) for HTTPS targets."
+    >
+      <TextArea
+        rows={14}
+        style={{ fontFamily: 'monospace' }}
+        placeholder={'POST https://api.example.com/items HTTP/1.1\ncontent-type: application/json\n\n{"name":"test"}'}
+      />
+    </Form.Item>
+  );
+
+  return (
+    <Modal
+      open={open}
+      width={760}
+      title={source ? 'Resend Request' : 'Compose Request'}
+      onCancel={onClose}
+      footer={
+        <Space>
+          <Text type="secondary">Apply flows</Text>
+          <Switch size="small" checked={applyFlows} onChange={setApplyFlows} />
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="primary" icon={<SendOutlined />} loading={sending} onClick={send}>Send</Button>
+        </Space>
+      }
+    >
+      <Form form={form} layout="vertical">
+        <Tabs
+          activeKey={mode}
+          onChange={(key) => setMode(key as 'form' | 'raw')}
+          items={[
+            { key: 'form', label: 'Request', children: formTab, forceRender: true },
+            { key: 'raw', label: 'Raw HTTP', children: rawTab, forceRender: true },
+          ]}
+        />
+      </Form>
+    </Modal>
+  );
+};
+
+export default RequestComposer;
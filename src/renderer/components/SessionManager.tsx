@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Table, Button, Input, Space, Tag, Popconfirm, Typography, message } from 'antd';
+import { PlusOutlined, FolderOpenOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import { CaptureSession, CaptureSessionList } from '../../shared/models';
+
+const { Text } = Typography;
+
+interface SessionManagerProps {
+  open: boolean;
+  onClose: () => void;
+  // 当前会话切换（新建、打开、删除当前会话）后回调，页面重新加载记录
+  onSwitched: () => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * 抓包会话管理：新建、打开、重命名、删除保存在磁盘上的会话。
+ */
+const SessionManager: React.FC<SessionManagerProps> = ({ open, onClose, onSwitched }) => {
+  const [list, setList] = useState<CaptureSessionList>({ activeSessionId: '', sessions: [] });
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const loadSessions = async () => {
+    try {
+      setList(await window.electronAPI.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      message.error('Failed to load sessions');
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadSessions();
+      setRenaming(null);
+      setNewName('');
+    }
+  }, [open]);
+
+  const newSession = async () => {
+    await window.electronAPI.newSession(newName || undefined);
+    setNewName('');
+    await loadSessions();
+    onSwitched();
+  };
+
+  const openSession = async (id: string) => {
+    if (!(await window.electronAPI.openSession(id))) {
+      message.error('Session not found');
+    }
+    await loadSessions();
+    onSwitched();
+  };
+
+  const renameSession = async () => {
+    if (!renaming) return;
+    if (!(await window.electronAPI.renameSession(renaming.id, renaming.name))) {
+      message.error('Failed to rename session');
+    }
+    setRenaming(null);
+    loadSessions();
+  };
+
+  const deleteSession = async (id: string) => {
+    await window.electronAPI.deleteSession(id);
+    await loadSessions();
+    if (id === list.activeSessionId) {
+      onSwitched();
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      render: (name: string, session: CaptureSession) =>
+        renaming?.id === session.id ? (
+          <Input
+            size="small"
+            autoFocus
+            value={renaming.name}
+            onChange={(e) => setRenaming({ id: session.id, name: e.target.value })}
+            onPressEnter={renameSession}
+            onBlur={renameSession}
+          />
+        ) : (
+          <Space>
+            <Text>{name}</Text>
+            {session.id === list.activeSessionId && <Tag color="green">Active</Tag>}
+          </Space>
+        ),
+    },
+    {
+      title: 'Records',
+      dataIndex: 'recordCount',
+      width: 90,
+    },
+    {
+      title: 'Size',
+      dataIndex: 'sizeBytes',
+      width: 90,
+      render: (size: number) => formatSize(size),
+    },
+    {
+      title: 'Updated',
+      dataIndex: 'updatedAt',
+      width: 170,
+      render: (time: number) => new Date(time).toLocaleString(),
+    },
+    {
+      title: '',
+      width: 110,
+      render: (_: unknown, session: CaptureSession) => (
+        <Space size={0}>
+          <Button
+            type="text"
+            size="small"
+            icon={<FolderOpenOutlined />}
+            title="Open"
+            disabled={session.id === list.activeSessionId}
+            onClick={() => openSession(session.id)}
+          />
+          <Button
+            type="text"
+            size="small"
+            icon={<EditOutlined />}
+            title="Rename"
+            onClick={() => setRenaming({ id: session.id, name: session.name })}
+          />
+          <Popconfirm title="Delete this session and its records?" onConfirm={() => deleteSession(session.id)}>
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} title="Delete" />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Modal open={open} width={760} title="Capture Sessions" onCancel={onClose} footer={null}>
+      <Space.Compact style={{ width: '100%', marginBottom: 12 }}>
+        <Input
+          placeholder="New session name (optional)"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onPressEnter={newSession}
+        />
+        <Button type="primary" icon={<PlusOutlined />} onClick={newSession}>
+          New Session
+        </Button>
+      </Space.Compact>
+      <Table
+        dataSource={[...list.sessions].sort((a, b) => b.updatedAt - a.updatedAt)}
+        columns={columns}
+        rowKey="id"
+        size="small"
+        pagination={false}
+        scroll={{ y: 400 }}
+      />
+    </Modal>
+  );
+};
+
+export default SessionManager;
@@ -7,6 +7,7 @@ import {
   ApartmentOutlined,
   AppstoreOutlined,
   SettingOutlined,
+  VideoCameraOutlined,
 } from '@ant-design/icons';
 import { useI18n } from '../i18n';
 
@@ -23,6 +24,7 @@ const Sidebar: React.FC = () => {
       { key: '/requests', icon: <SwapOutlined />, label: t('nav.requests') },
       { key: '/flows', icon: <ApartmentOutlined />, label: t('nav.flows') },
       { key: '/components', icon: <AppstoreOutlined />, label: t('nav.components') },
+      { key: '/cassettes', icon: <VideoCameraOutlined />, label: 'Cassettes' },
       { key: '/settings', icon: <SettingOutlined />, label: t('nav.settings') },
     ],
     [t]
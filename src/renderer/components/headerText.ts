@@ -0,0 +1,17 @@
+import { HttpHeaders } from '../../shared/models';
+
+// 编辑器中 headers 以 "Name: value" 每行一条的文本表示
+export function headersToText(headers?: HttpHeaders): string {
+  return Object.entries(headers || {}).map(([key, value]) => `${key}: ${value}`).join('\n');
+}
+
+export function textToHeaders(text: string): HttpHeaders {
+  const headers: HttpHeaders = {};
+  for (const line of text.split('\n')) {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex > 0) {
+      headers[line.substring(0, colonIndex).trim()] = line.substring(colonIndex + 1).trim();
+    }
+  }
+  return headers;
+}
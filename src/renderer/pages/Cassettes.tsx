@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card, Table, Button, Space, Switch, Typography, Modal,
+  Form, Input, Select, message, Popconfirm, Tag
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, ReloadOutlined } from '@ant-design/icons';
+import { Cassette, CassetteEntry } from '../../shared/models';
+import { v4 as uuidv4 } from 'uuid';
+
+const { Title, Text } = Typography;
+
+/**
+ * Cassette 列表：按 Host 录制流量，供 Flow 中的 Replay From Cassette 组件离线回放。
+ */
+const Cassettes: React.FC = () => {
+  const [cassettes, setCassettes] = useState<Cassette[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<Cassette | null>(null);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [form] = Form.useForm();
+
+  useEffect(() => {
+    loadCassettes();
+  }, []);
+
+  const loadCassettes = async () => {
+    if (!window.electronAPI) {
+      console.error('electronAPI is not available on window');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setCassettes(await window.electronAPI.getCassettes());
+    } catch (error) {
+      console.error('Failed to load cassettes:', error);
+      message.error('Failed to load cassettes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (cassette: Cassette | null) => {
+    setEditing(cassette);
+    form.setFieldsValue({
+      name: cassette?.name || '',
+      hostPatterns: cassette?.hostPatterns || [],
+    });
+    setModalVisible(true);
+  };
+
+  const saveCassette = async () => {
+    try {
+      const values = await form.validateFields();
+      const now = Date.now();
+      const cassette: Cassette = editing
+        ? { ...editing, name: values.name, hostPatterns: values.hostPatterns || [] }
+        : {
+          id: uuidv4(),
+          name: values.name,
+          hostPatterns: values.hostPatterns || [],
+          recording: false,
+          entries: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+      await window.electronAPI.saveCassette(cassette);
+      message.success('Cassette saved');
+      setModalVisible(false);
+      loadCassettes();
+    } catch (error) {
+      console.error('Failed to save cassette:', error);
+      message.error('Failed to save cassette');
+    }
+  };
+
+  const toggleRecording = async (cassette: Cassette, recording: boolean) => {
+    if (recording && !cassette.hostPatterns.length) {
+      message.warning('Add at least one host pattern before recording');
+      return;
+    }
+    try {
+      const saved = await window.electronAPI.saveCassette({ ...cassette, recording });
+      setCassettes((prev) => prev.map((c) => (c.id === saved.id ? saved : c)));
+    } catch (error) {
+      console.error('Failed to toggle recording:', error);
+      message.error('Failed to toggle recording');
+    }
+  };
+
+  const deleteCassette = async (id: string) => {
+    try {
+      await window.electronAPI.deleteCassette(id);
+      message.success('Cassette deleted');
+      loadCassettes();
+    } catch (error) {
+      console.error('Failed to delete cassette:', error);
+      message.error('Failed to delete cassette');
+    }
+  };
+
+  const deleteEntry = async (cassetteId: string, entryId: string) => {
+    try {
+      await window.electronAPI.deleteCassetteEntry(cassetteId, entryId);
+      loadCassettes();
+    } catch (error) {
+      console.error('Failed to delete cassette entry:', error);
+      message.error('Failed to delete entry');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Recording',
+      dataIndex: 'recording',
+      width: 100,
+      render: (recording: boolean, cassette: Cassette) => (
+        <Switch size="small" checked={recording} onChange={(checked) => toggleRecording(cassette, checked)} />
+      ),
+    },
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      render: (name: string, cassette: Cassette) => (
+        <Space>
+          <Text>{name}</Text>
+          {cassette.recording && <Tag color="red">REC</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Hosts',
+      dataIndex: 'hostPatterns',
+      render: (patterns: string[]) => patterns.map((p) => <Tag key={p}>{p}</Tag>),
+    },
+    {
+      title: 'Entries',
+      dataIndex: 'entries',
+      width: 100,
+      render: (entries: CassetteEntry[]) => <Tag>{entries.length}</Tag>,
+    },
+    {
+      title: 'Updated',
+      dataIndex: 'updatedAt',
+      width: 180,
+      render: (ts: number) => new Date(ts).toLocaleString(),
+    },
+    {
+      title: 'Actions',
+      width: 100,
+      render: (_: any, cassette: Cassette) => (
+        <Space size={4}>
+          <Button icon={<EditOutlined />} size="small" type="text" onClick={() => openModal(cassette)} />
+          <Popconfirm title="Delete this cassette and all recorded entries?" onConfirm={() => deleteCassette(cassette.id)}>
+            <Button icon={<DeleteOutlined />} size="small" type="text" danger />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const renderEntries = (cassette: Cassette) => (
+    <Table
+      dataSource={cassette.entries}
+      rowKey="id"
+      size="small"
+      pagination={{ pageSize: 20, hideOnSinglePage: true }}
+      columns={[
+        { title: 'Method', dataIndex: 'method', width: 90 },
+        { title: 'URL', dataIndex: 'url', ellipsis: true },
+        {
+          title: 'Status',
+          width: 80,
+          render: (_: any, entry: CassetteEntry) => <Tag>{entry.response.statusCode}</Tag>,
+        },
+        {
+          title: 'Recorded',
+          dataIndex: 'recordedAt',
+          width: 180,
+          render: (ts: number) => new Date(ts).toLocaleString(),
+        },
+        {
+          title: '',
+          width: 50,
+          render: (_: any, entry: CassetteEntry) => (
+            <Button
+              icon={<DeleteOutlined />}
+              size="small"
+              type="text"
+              danger
+              onClick={() => deleteEntry(cassette.id, entry.id)}
+            />
+          ),
+        },
+      ]}
+    />
+  );
+
+  return (
+    <div style={{ padding: '8px' }}>
+      <Card
+        title={<Title level={4} style={{ margin: 0 }}>Cassettes</Title>}
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={loadCassettes}>Refresh</Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+              New Cassette
+            </Button>
+          </Space>
+        }
+      >
+        <Text type="secondary" style={{ display: 'block', marginBottom: 12 }}>
+          While recording, traffic to the listed hosts is saved to the cassette. Add a Replay From Cassette
+          component to a flow to answer matching requests from it without touching the network.
+        </Text>
+        <Table
+          dataSource={cassettes}
+          columns={columns}
+          rowKey="id"
+          loading={loading}
+          pagination={false}
+          expandable={{ expandedRowRender: renderEntries, rowExpandable: (c) => c.entries.length > 0 }}
+        />
+      </Card>
+
+      <Modal
+        title={editing ? 'Edit Cassette' : 'New Cassette'}
+        open={modalVisible}
+        onOk={saveCassette}
+        onCancel={() => setModalVisible(false)}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="name" label="Name" rules={[{ required: true, message: 'Please enter a name' }]}>
+            <Input placeholder="checkout-api" />
+          </Form.Item>
+          <Form.Item
+            name="hostPatterns"
+            label="Hosts to record"
+            extra="Wildcards like *.example.com; the same syntax as flow entry nodes"
+          >
+            <Select mode="tags" placeholder="api.example.com" tokenSeparators={[',', ' ']} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Cassettes;
@@ -1,18 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { Card, Table, Button, Space, Typography, Modal, Form, Input, message, Popconfirm, Tag, Tabs, Select, Collapse, Descriptions } from 'antd';
+import { Card, Table, Button, Space, Typography, Modal, Form, Input, InputNumber, Checkbox, message, Popconfirm, Tag, Tabs, Select, Collapse, Descriptions } from 'antd';
 import { PlusOutlined, EditOutlined, DeleteOutlined, BugOutlined } from '@ant-design/icons';
 import AceEditor from 'react-ace';
 import ace from 'ace-builds/src-noconflict/ace';
 import 'ace-builds/src-noconflict/mode-javascript';
 import 'ace-builds/src-noconflict/theme-twilight';
 import 'ace-builds/src-noconflict/ext-language_tools';
-import { ComponentDefinition, RequestRecord, ComponentDebugResult, HttpRequest, HttpResponse } from '../../shared/models';
+import { ComponentDefinition, RequestRecord, ComponentDebugResult, HttpRequest, HttpResponse, BodyEncoding, ScriptCapability } from '../../shared/models';
 import { v4 as uuidv4 } from 'uuid';
+import BinaryBody from '../components/BinaryBody';
 import { useI18n } from '../i18n';
 
 const { Title, Text } = Typography;
 const { Panel } = Collapse;
 
+// 脚本沙盒中可以开放的能力
+const SCRIPT_CAPABILITY_OPTIONS: { value: ScriptCapability; label: string }[] = [
+  { value: 'crypto', label: 'crypto (hash, hmac, random)' },
+  { value: 'buffer', label: 'Buffer' },
+  { value: 'fetch', label: 'fetch (http / https)' },
+  { value: 'timers', label: 'setTimeout' },
+];
+
 // 用于根据当前组件 params 动态生成 config.<param> 补全
 let currentParamNames: string[] = [];
 
@@ -60,9 +69,11 @@ const Components: React.FC = () => {
   const [form] = Form.useForm();
   const watchedParams = Form.useWatch('params', form);
 
-  const formatBody = (body?: string, contentType?: string) => {
+  const formatBody = (body?: string, contentType?: string, bodyEncoding?: BodyEncoding) => {
     if (!body) return <Text type="secondary">No body</Text>;
 
+    if (bodyEncoding === 'base64') return <BinaryBody body={body} />;
+
     if (contentType?.includes('application/json')) {
       try {
         const parsed = JSON.parse(body);
@@ -112,7 +123,7 @@ const Components: React.FC = () => {
         </Collapse>
 
         <Title level={5} style={{ marginTop: 8 }}>Body</Title>
-        {formatBody(req.body, typeof ct === 'string' ? ct : undefined)}
+        {formatBody(req.body, typeof ct === 'string' ? ct : undefined, req.bodyEncoding)}
       </>
     );
   };
@@ -145,7 +156,7 @@ const Components: React.FC = () => {
         </Collapse>
 
         <Title level={5} style={{ marginTop: 8 }}>Body</Title>
-        {formatBody(res.body, typeof ct === 'string' ? ct : undefined)}
+        {formatBody(res.body, typeof ct === 'string' ? ct : undefined, res.bodyEncoding)}
       </>
     );
   };
@@ -183,6 +194,9 @@ const Components: React.FC = () => {
         description: component.description,
         scriptCode: component.scriptCode,
         params: component.params || [],
+        capabilities: component.capabilities || [],
+        timeoutMs: component.timeoutMs,
+        memoryLimitMB: component.memoryLimitMB,
       });
     } else {
       setEditingComponent(null);
@@ -193,6 +207,7 @@ const Components: React.FC = () => {
         params: [
           { name: 'foo', label: 'Foo', type: 'string', defaultValue: '' },
         ],
+        capabilities: [],
       });
     }
     setEditModalVisible(true);
@@ -208,6 +223,9 @@ const Components: React.FC = () => {
         description: values.description,
         scriptCode: values.scriptCode,
         params: (values.params || []).filter((p: any) => p && p.name),
+        capabilities: values.capabilities || [],
+        timeoutMs: values.timeoutMs || undefined,
+        memoryLimitMB: values.memoryLimitMB || undefined,
       };
       await window.electronAPI.saveComponent(component);
       message.success(t('components.save.success'));
@@ -231,6 +249,9 @@ const Components: React.FC = () => {
         description: values.description,
         scriptCode: values.scriptCode,
         params: (values.params || []).filter((p: any) => p && p.name),
+        capabilities: values.capabilities || [],
+        timeoutMs: values.timeoutMs || undefined,
+        memoryLimitMB: values.memoryLimitMB || undefined,
       };
       await window.electronAPI.saveComponent(component);
       // 不关闭编辑弹窗，只刷新列表并打开 Debug
@@ -379,6 +400,22 @@ const Components: React.FC = () => {
             />
           </Form.Item>
 
+          <Form.Item
+            name="capabilities"
+            label="Sandbox Capabilities"
+            extra="Scripts run in an isolated sandbox and can only use config, ctx, console and the capabilities checked here"
+          >
+            <Checkbox.Group options={SCRIPT_CAPABILITY_OPTIONS} />
+          </Form.Item>
+          <Space size={16}>
+            <Form.Item name="timeoutMs" label="Time Limit (ms)">
+              <InputNumber min={100} max={60000} step={100} placeholder="5000" style={{ width: 160 }} />
+            </Form.Item>
+            <Form.Item name="memoryLimitMB" label="Memory Limit (MB)">
+              <InputNumber min={16} max={1024} placeholder="64" style={{ width: 160 }} />
+            </Form.Item>
+          </Space>
+
           <Form.Item label={t('components.form.params.title')}>
             <Text type="secondary">
               {t('components.form.params.help')}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Card, Row, Col, Statistic, Typography, Space, Alert, Switch, Tag } from 'antd';
+import { Card, Row, Col, Statistic, Typography, Space, Alert, Switch, Tag, Select, InputNumber } from 'antd';
 import { 
   SwapOutlined, 
   ApartmentOutlined, 
@@ -7,11 +7,37 @@ import {
   CheckCircleOutlined,
   CloseCircleOutlined 
 } from '@ant-design/icons';
-import { ProxyStatus, FlowDefinition, ComponentDefinition, AppConfig, SystemProxyStatus } from '../../shared/models';
+import {
+  ProxyStatus, FlowDefinition, ComponentDefinition, AppConfig, SystemProxyStatus,
+  NetworkConditions, NetworkProfileId, NETWORK_PROFILES
+} from '../../shared/models';
 import { useI18n } from '../i18n';
 
 const { Title, Paragraph } = Typography;
 
+const DEFAULT_CUSTOM_CONDITIONS: NetworkConditions = {
+  downloadKBps: 100,
+  uploadKBps: 50,
+  latencyMs: 100,
+  stallRate: 0,
+  stallMs: 0,
+};
+
+const NETWORK_PROFILE_OPTIONS = [
+  { value: 'none', label: 'No throttling' },
+  ...Object.entries(NETWORK_PROFILES).map(([value, profile]) => ({ value, label: profile.label })),
+  { value: 'custom', label: 'Custom' },
+];
+
+// 自定义网络环境的可编辑字段
+const CUSTOM_CONDITION_FIELDS: { key: keyof NetworkConditions; label: string; step?: number; max?: number }[] = [
+  { key: 'downloadKBps', label: 'Download (KB/s, 0 = unlimited)' },
+  { key: 'uploadKBps', label: 'Upload (KB/s, 0 = unlimited)' },
+  { key: 'latencyMs', label: 'Latency per chunk (ms)' },
+  { key: 'stallRate', label: 'Stall rate (0-1)', step: 0.01, max: 1 },
+  { key: 'stallMs', label: 'Stall duration (ms)' },
+];
+
 const Dashboard: React.FC = () => {
   const { t } = useI18n();
   const [status, setStatus] = useState<ProxyStatus>({
@@ -84,6 +110,28 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const saveNetworkConfig = async (patch: Partial<AppConfig>) => {
+    try {
+      await window.electronAPI.saveConfig(patch);
+      setConfig(prev => prev ? { ...prev, ...patch } : prev);
+    } catch (error) {
+      console.error('Failed to save network conditions:', error);
+    }
+  };
+
+  const networkProfile: NetworkProfileId = config?.networkProfile || 'none';
+  const customConditions = config?.customNetworkConditions || DEFAULT_CUSTOM_CONDITIONS;
+
+  const changeNetworkProfile = (profile: NetworkProfileId) => {
+    saveNetworkConfig(profile === 'custom' && !config?.customNetworkConditions
+      ? { networkProfile: profile, customNetworkConditions: DEFAULT_CUSTOM_CONDITIONS }
+      : { networkProfile: profile });
+  };
+
+  const changeCustomCondition = (key: keyof NetworkConditions, value: number | null) => {
+    saveNetworkConfig({ customNetworkConditions: { ...customConditions, [key]: value || 0 } });
+  };
+
   return (
     <div style={{ padding: '8px' }}>
       <Title level={4} style={{ marginBottom: '24px' }}>
@@ -216,6 +264,41 @@ const Dashboard: React.FC = () => {
         </Col>
       </Row>
 
+      <Card title="Network Conditions" style={{ marginTop: 16 }}>
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Space align="center">
+            <Select
+              value={networkProfile}
+              options={NETWORK_PROFILE_OPTIONS}
+              onChange={changeNetworkProfile}
+              style={{ width: 200 }}
+            />
+            {networkProfile !== 'none' && <Tag color="orange">Throttling active</Tag>}
+          </Space>
+          {networkProfile === 'custom' && (
+            <Row gutter={[16, 8]}>
+              {CUSTOM_CONDITION_FIELDS.map((field) => (
+                <Col span={8} key={field.key}>
+                  <Paragraph style={{ margin: 0 }}>{field.label}</Paragraph>
+                  <InputNumber
+                    min={0}
+                    max={field.max}
+                    step={field.step || 1}
+                    value={customConditions[field.key]}
+                    onChange={(value) => changeCustomCondition(field.key, value)}
+                    style={{ width: '100%' }}
+                  />
+                </Col>
+              ))}
+            </Row>
+          )}
+          <Paragraph type="secondary" style={{ margin: 0 }}>
+            Applies to all proxied traffic, including CONNECT tunnels that are not decrypted. A Bandwidth Throttle
+            component in a flow overrides it for matching requests.
+          </Paragraph>
+        </Space>
+      </Card>
+
       <Card title={t('dashboard.proxyConfig')} style={{ marginTop: '24px' }}>
         <Row gutter={[16, 16]}>
           <Col span={12}>
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import ReactFlow, {
   Node,
   Edge,
@@ -19,9 +19,12 @@ import {
   Card, Button, Space, Typography, message, Drawer, Form, 
   Input, Select, Switch, Divider, Tag, Modal, Collapse, Descriptions, Tabs 
 } from 'antd';
-import { SaveOutlined, ArrowLeftOutlined, PlusOutlined, BugOutlined } from '@ant-design/icons';
-import { FlowDefinition, FlowNode, ComponentDefinition, RequestRecord, FlowDebugResult, HttpRequest, HttpResponse } from '../../shared/models';
+import { SaveOutlined, ArrowLeftOutlined, PlusOutlined, BugOutlined, ExportOutlined } from '@ant-design/icons';
+import { FlowDefinition, FlowBodyMode, FlowNode, SubFlowNode, SwitchNode, SWITCH_DEFAULT_LABEL, ComponentDefinition, RequestRecord, FlowDebugResult, FlowTraceStep, HttpRequest, HttpResponse, BodyEncoding } from '../../shared/models';
 import { v4 as uuidv4 } from 'uuid';
+import BinaryBody from '../components/BinaryBody';
+import FlowTrace, { FlowTraceChanges, FlowTraceOutcome } from '../components/FlowTrace';
+import MatchGroupEditor from '../components/MatchGroupEditor';
 import { useI18n } from '../i18n';
 
 const { Title, Text } = Typography;
@@ -46,6 +49,36 @@ const EntryNodeComponent: React.FC<{ data: any }> = ({ data }) => (
   </div>
 );
 
+const ResponseEntryNodeComponent: React.FC<{ data: any }> = ({ data }) => (
+  <div style={{ 
+    padding: '10px 20px', 
+    background: '#13c2c2', 
+    borderRadius: '8px',
+    color: '#fff',
+    minWidth: '120px',
+    textAlign: 'center'
+  }}>
+    <div style={{ fontWeight: 'bold' }}>{data.label}</div>
+    <div style={{ fontSize: '10px', opacity: 0.8 }}>After Upstream</div>
+    <Handle type="source" position={Position.Right} />
+  </div>
+);
+
+const FrameEntryNodeComponent: React.FC<{ data: any }> = ({ data }) => (
+  <div style={{ 
+    padding: '10px 20px', 
+    background: '#eb2f96', 
+    borderRadius: '8px',
+    color: '#fff',
+    minWidth: '120px',
+    textAlign: 'center'
+  }}>
+    <div style={{ fontWeight: 'bold' }}>{data.label}</div>
+    <div style={{ fontSize: '10px', opacity: 0.8 }}>Each WebSocket Frame</div>
+    <Handle type="source" position={Position.Right} />
+  </div>
+);
+
 const ComponentNodeComponent: React.FC<{ data: any }> = ({ data }) => (
   <div style={{ 
     padding: '10px 20px', 
@@ -79,6 +112,57 @@ const ConditionNodeComponent: React.FC<{ data: any }> = ({ data }) => (
   </div>
 );
 
+// 每个 case 与默认分支各占一行，连接点在行的右侧
+const SwitchNodeComponent: React.FC<{ data: any }> = ({ data }) => (
+  <div style={{ 
+    padding: '10px 20px', 
+    background: '#fa541c', 
+    borderRadius: '8px',
+    color: '#fff',
+    minWidth: '120px',
+    textAlign: 'center'
+  }}>
+    <Handle type="target" position={Position.Left} />
+    <div style={{ fontWeight: 'bold' }}>{data.label}</div>
+    <div style={{ fontSize: '10px', opacity: 0.8, marginBottom: 4 }}>Switch</div>
+    {[...(data.cases || []), SWITCH_DEFAULT_LABEL].map((label: string, index: number) => (
+      <div
+        key={label}
+        style={{
+          position: 'relative',
+          marginRight: -20,
+          paddingRight: 12,
+          fontSize: '10px',
+          lineHeight: '18px',
+          textAlign: 'right',
+          fontStyle: index === (data.cases || []).length ? 'italic' : undefined,
+        }}
+      >
+        {label}
+        <Handle type="source" position={Position.Right} id={label} />
+      </div>
+    ))}
+  </div>
+);
+
+const SubFlowNodeComponent: React.FC<{ data: any }> = ({ data }) => (
+  <div style={{ 
+    padding: '10px 20px', 
+    background: '#2f54eb', 
+    borderRadius: '8px',
+    color: '#fff',
+    minWidth: '120px',
+    textAlign: 'center'
+  }}>
+    <Handle type="target" position={Position.Left} />
+    <div style={{ fontWeight: 'bold' }}>{data.label}</div>
+    <div style={{ fontSize: '10px', opacity: 0.8 }}>
+      {data.targetFlowName ? `Sub-flow: ${data.targetFlowName}` : 'No flow selected'}
+    </div>
+    <Handle type="source" position={Position.Right} />
+  </div>
+);
+
 const TerminatorNodeComponent: React.FC<{ data: any }> = ({ data }) => (
   <div style={{ 
     padding: '10px 20px', 
@@ -98,16 +182,44 @@ const TerminatorNodeComponent: React.FC<{ data: any }> = ({ data }) => (
 
 const nodeTypes: NodeTypes = {
   entry: EntryNodeComponent,
+  response_entry: ResponseEntryNodeComponent,
+  frame_entry: FrameEntryNodeComponent,
   component: ComponentNodeComponent,
   condition: ConditionNodeComponent,
+  switch: SwitchNodeComponent,
+  subflow: SubFlowNodeComponent,
   terminator: TerminatorNodeComponent,
 };
 
+// 直接或间接以子 Flow 调用了 flowId 的 Flow（包括 flowId 自身），选它们作为子 Flow 会形成循环
+const findCallers = (flows: FlowDefinition[], flowId: string): Set<string> => {
+  const callers = new Set([flowId]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const f of flows) {
+      if (callers.has(f.id)) continue;
+      if (f.nodes.some((n) => n.type === 'subflow' && callers.has((n as SubFlowNode).flowId))) {
+        callers.add(f.id);
+        changed = true;
+      }
+    }
+  }
+  return callers;
+};
+
+// 执行轨迹经过的节点与连线的高亮样式
+const TRACE_COLOR = '#fadb14';
+const TRACE_ERROR_COLOR = '#ff4d4f';
+
 const FlowEditor: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { t } = useI18n();
   const [flow, setFlow] = useState<FlowDefinition | null>(null);
+  // 所有 Flow，用于选择子 Flow 和显示子 Flow 名称
+  const [allFlows, setAllFlows] = useState<FlowDefinition[]>([]);
   const [components, setComponents] = useState<ComponentDefinition[]>([]);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
@@ -121,19 +233,57 @@ const FlowEditor: React.FC = () => {
   const [requests, setRequests] = useState<RequestRecord[]>([]);
   const [selectedRequestId, setSelectedRequestId] = useState<string>('');
   const [debugResult, setDebugResult] = useState<FlowDebugResult | null>(null);
+  // 画布上高亮的执行轨迹：来自 Flow Debug 或请求记录（?trace=<requestId>）
+  const [trace, setTrace] = useState<FlowTraceStep[] | null>(null);
 
   useEffect(() => {
+    // 从父 Flow 跳转到子 Flow 时清掉上一个 Flow 的选中状态与轨迹
+    setDrawerVisible(false);
+    setSelectedNode(null);
+    setTrace(null);
     loadFlow();
     loadComponents();
   }, [id]);
 
+  useEffect(() => {
+    const recordId = searchParams.get('trace');
+    if (!recordId) return;
+    window.electronAPI.getRequestById(recordId)
+      .then((record) => setTrace(record?.flowTrace?.filter((step) => !step.flowId || step.flowId === id) || null))
+      .catch((error) => console.error('Failed to load request trace:', error));
+  }, [searchParams]);
+
+  // 按轨迹标记经过的节点（出错的节点标红）和相邻两步之间的连线
+  const tracedNodes = useMemo(() => {
+    if (!trace) return nodes;
+    const visited = new Set(trace.map((step) => step.nodeId));
+    const failed = new Set(trace.filter((step) => step.error).map((step) => step.nodeId));
+    return nodes.map((node) => ({
+      ...node,
+      style: visited.has(node.id)
+        ? { boxShadow: `0 0 0 3px ${failed.has(node.id) ? TRACE_ERROR_COLOR : TRACE_COLOR}`, borderRadius: 8 }
+        : { opacity: 0.4 },
+    }));
+  }, [nodes, trace]);
+
+  const tracedEdges = useMemo(() => {
+    if (!trace) return edges;
+    const pairs = new Set(trace.slice(1).map((step, i) => `${trace[i].nodeId}->${step.nodeId}`));
+    return edges.map((edge) => pairs.has(`${edge.source}->${edge.target}`)
+      ? { ...edge, animated: true, style: { stroke: TRACE_COLOR, strokeWidth: 2 } }
+      : edge);
+  }, [edges, trace]);
+
+  const selectedNodeSteps = trace && selectedNode ? trace.filter((step) => step.nodeId === selectedNode.id) : [];
+
   const loadFlow = async () => {
     try {
       const flows = await window.electronAPI.getFlows();
       const found = flows.find((f: FlowDefinition) => f.id === id);
+      setAllFlows(flows);
       if (found) {
         setFlow(found);
-        convertFlowToReactFlow(found);
+        convertFlowToReactFlow(found, flows);
       }
     } catch (error) {
       console.error('Failed to load flow:', error);
@@ -149,7 +299,7 @@ const FlowEditor: React.FC = () => {
     }
   };
 
-  const convertFlowToReactFlow = (flowDef: FlowDefinition) => {
+  const convertFlowToReactFlow = (flowDef: FlowDefinition, flows: FlowDefinition[]) => {
     const rfNodes: Node[] = flowDef.nodes.map((node) => ({
       id: node.id,
       type: node.type,
@@ -160,13 +310,21 @@ const FlowEditor: React.FC = () => {
         componentName: node.type === 'component' 
           ? components.find(c => c.id === (node as any).componentId)?.name 
           : undefined,
+        targetFlowName: node.type === 'subflow'
+          ? flows.find(f => f.id === node.flowId)?.name
+          : undefined,
       },
     }));
 
+    // Condition / Switch 的连线按 conditionLabel 连到对应分支的连接点
+    const branchingNodeIds = new Set(
+      flowDef.nodes.filter((n) => n.type === 'condition' || n.type === 'switch').map((n) => n.id)
+    );
     const rfEdges: Edge[] = flowDef.edges.map((edge) => ({
       id: edge.id,
       source: edge.from,
       target: edge.to,
+      sourceHandle: branchingNodeIds.has(edge.from) ? edge.conditionLabel : undefined,
       label: edge.conditionLabel,
       markerEnd: { type: MarkerType.ArrowClosed },
       style: { stroke: '#555' },
@@ -187,8 +345,9 @@ const FlowEditor: React.FC = () => {
     const outgoingFromSource = edges.filter((e) => e.source === sourceNode.id);
     const incomingToTarget = edges.filter((e) => e.target === targetNode.id);
 
-    // 规则：Entry 只能有一个下游
-    if (sourceNode.type === 'entry' && outgoingFromSource.length >= 1) {
+    // 规则：各类入口节点只能有一个下游
+    const isEntryType = ['entry', 'response_entry', 'frame_entry'].includes(sourceNode.type || '');
+    if (isEntryType && outgoingFromSource.length >= 1) {
       message.warning(t('flowEditor.connect.entry.oneChild'));
       return;
     }
@@ -203,6 +362,16 @@ const FlowEditor: React.FC = () => {
       return;
     }
 
+    // 规则：Sub-flow 与 Component 相同，只能有一个上游和一个下游
+    if (sourceNode.type === 'subflow' && outgoingFromSource.length >= 1) {
+      message.warning('A sub-flow node can only have one downstream node');
+      return;
+    }
+    if (targetNode.type === 'subflow' && incomingToTarget.length >= 1) {
+      message.warning('A sub-flow node can only have one upstream node');
+      return;
+    }
+
     // 规则：Terminator 不允许作为 source（没有下游）
     if (sourceNode.type === 'terminator') {
       message.warning(t('flowEditor.connect.terminator.noDownstream'));
@@ -211,11 +380,18 @@ const FlowEditor: React.FC = () => {
 
     // Condition 节点下游可以有多个，这里不限制 outgoing
 
+    // 规则：Switch 的每个分支只能连一个下游
+    if (sourceNode.type === 'switch'
+      && outgoingFromSource.some((e) => e.sourceHandle === connection.sourceHandle)) {
+      message.warning(`Branch "${connection.sourceHandle}" already has an edge`);
+      return;
+    }
+
     setEdges((eds) => addEdge({
       ...connection,
       id: uuidv4(),
       label:
-        connection.sourceHandle === 'true' || connection.sourceHandle === 'false'
+        sourceNode.type === 'switch' || connection.sourceHandle === 'true' || connection.sourceHandle === 'false'
           ? connection.sourceHandle
           : undefined,
       markerEnd: { type: MarkerType.ArrowClosed },
@@ -228,12 +404,55 @@ const FlowEditor: React.FC = () => {
     form.setFieldsValue({
       name: node.data.label,
       ...node.data,
+      // Entry 节点总是带一个顶层条件组，便于在其中添加条件
+      match: node.type === 'entry'
+        ? {
+          patternMode: 'wildcard',
+          ...node.data.match,
+          conditions: node.data.match?.conditions || { combinator: 'and', conditions: [] },
+        }
+        : node.data.match,
     });
     setDrawerVisible(true);
   }, [form]);
 
-  const saveFlow = async () => {
-    if (!flow) return;
+  // 保存当前 Flow 后进入子 Flow；查看请求轨迹时带上轨迹参数，子 Flow 中同样高亮
+  const openSubFlow = async (subFlowId?: string) => {
+    if (!subFlowId) return;
+    if (!allFlows.some((f) => f.id === subFlowId)) {
+      message.warning('Sub-flow not found');
+      return;
+    }
+    if (!(await saveFlow())) return;
+    const recordId = searchParams.get('trace');
+    navigate(`/flows/${subFlowId}${recordId ? `?trace=${recordId}` : ''}`);
+  };
+
+  const onNodeDoubleClick = (_: React.MouseEvent, node: Node) => {
+    if (node.type === 'subflow') {
+      openSubFlow(node.data.flowId);
+    }
+  };
+
+  // 保存前检查 Switch 的每个 case 都有连线，返回缺少连线的提示
+  const findMissingSwitchEdges = (): string[] =>
+    nodes
+      .filter((node) => node.type === 'switch')
+      .flatMap((node) => {
+        const missing = (node.data.cases || []).filter(
+          (label: string) => !edges.some((e) => e.source === node.id && e.label === label)
+        );
+        return missing.length > 0 ? [`${node.data.label}: ${missing.join(', ')}`] : [];
+      });
+
+  const saveFlow = async (): Promise<boolean> => {
+    if (!flow) return false;
+
+    const missingEdges = findMissingSwitchEdges();
+    if (missingEdges.length > 0) {
+      message.error(`Switch cases without an edge - ${missingEdges.join('; ')}`);
+      return false;
+    }
 
     const updatedNodes: FlowNode[] = nodes.map((node) => {
       const baseNode = {
@@ -246,6 +465,10 @@ const FlowEditor: React.FC = () => {
       switch (node.type) {
         case 'entry':
           return { ...baseNode, type: 'entry' as const, match: node.data.match || {} };
+        case 'response_entry':
+          return { ...baseNode, type: 'response_entry' as const };
+        case 'frame_entry':
+          return { ...baseNode, type: 'frame_entry' as const };
         case 'component':
           return { 
             ...baseNode, 
@@ -259,6 +482,19 @@ const FlowEditor: React.FC = () => {
             type: 'condition' as const,
             expression: node.data.expression || '',
           };
+        case 'switch':
+          return {
+            ...baseNode,
+            type: 'switch' as const,
+            expression: node.data.expression || '',
+            cases: node.data.cases || [],
+          };
+        case 'subflow':
+          return {
+            ...baseNode,
+            type: 'subflow' as const,
+            flowId: node.data.flowId || '',
+          };
         case 'terminator':
           return { 
             ...baseNode, 
@@ -287,22 +523,34 @@ const FlowEditor: React.FC = () => {
     try {
       await window.electronAPI.saveFlow(updatedFlow);
       message.success(t('flowEditor.save.success'));
+      return true;
     } catch (error) {
       message.error(t('flowEditor.save.failed'));
+      return false;
     }
   };
 
   const addNode = (type: string) => {
+    // 每个 Flow 的响应阶段 / 帧阶段入口各只有一个
+    if ((type === 'response_entry' || type === 'frame_entry') && nodes.some((n) => n.type === type)) {
+      message.warning('This flow already has this entry node');
+      return;
+    }
     const newNode: Node = {
       id: uuidv4(),
       type,
       position: { x: 250, y: 250 },
       data: {
         label: type === 'entry' ? 'Entry' : 
+               type === 'response_entry' ? 'Response Entry' :
+               type === 'frame_entry' ? 'WS Frame Entry' :
                type === 'component' ? 'Component' :
-               type === 'condition' ? 'Condition' : 'Terminator',
+               type === 'condition' ? 'Condition' :
+               type === 'switch' ? 'Switch' :
+               type === 'subflow' ? 'Sub-flow' : 'Terminator',
         match: type === 'entry' ? { methods: ['GET', 'POST'], hostPatterns: ['*'] } : undefined,
         mode: type === 'terminator' ? 'pass_through' : undefined,
+        cases: type === 'switch' ? [] : undefined,
       },
     };
     setNodes((nds) => [...nds, newNode]);
@@ -311,6 +559,16 @@ const FlowEditor: React.FC = () => {
   const updateNode = () => {
     if (!selectedNode) return;
     const values = form.getFieldsValue();
+    // case 去掉空白、重复值和默认分支名；删掉的 case 的连线一起删除
+    const cases: string[] | undefined = selectedNode.type === 'switch'
+      ? Array.from(new Set<string>((values.cases || []).map((c: string) => c.trim())))
+        .filter((c) => c && c !== SWITCH_DEFAULT_LABEL)
+      : undefined;
+    if (cases) {
+      setEdges((eds) => eds.filter((e) => e.source !== selectedNode.id
+        || e.label === SWITCH_DEFAULT_LABEL
+        || cases.includes(e.label as string)));
+    }
     
     setNodes((nds) => nds.map((node) => {
       if (node.id === selectedNode.id) {
@@ -324,6 +582,9 @@ const FlowEditor: React.FC = () => {
             config: values.config,
             expression: values.expression,
             mode: values.mode,
+            cases,
+            flowId: values.flowId,
+            targetFlowName: allFlows.find((f) => f.id === values.flowId)?.name,
           },
         };
       }
@@ -355,7 +616,7 @@ const FlowEditor: React.FC = () => {
   const openDebugModal = async () => {
     if (!flow) return;
     // 先保存当前 Flow，确保调试使用最新配置
-    await saveFlow();
+    if (!(await saveFlow())) return;
     setDebugResult(null);
     setSelectedRequestId('');
     await loadRequestsForDebug();
@@ -373,6 +634,7 @@ const FlowEditor: React.FC = () => {
         requestRecordId: selectedRequestId,
       });
       setDebugResult(result);
+      setTrace(result.trace?.filter((step) => !step.flowId || step.flowId === flow.id) || null);
     } catch (error) {
       console.error('Flow debug failed:', error);
       message.error('Flow debug failed');
@@ -401,6 +663,27 @@ const FlowEditor: React.FC = () => {
             </Tag>
           </Space>
           <Space>
+            {trace && (
+              <Tag color="gold" closable onClose={() => setTrace(null)}>
+                Trace: {trace.length} steps
+              </Tag>
+            )}
+            <Space size={4}>
+              <Switch
+                size="small"
+                checked={!!flow.continueToNext}
+                onChange={(continueToNext) => setFlow({ ...flow, continueToNext })}
+              />
+              <Text>Continue to next flow</Text>
+            </Space>
+            <Select
+              style={{ width: 150 }}
+              value={flow.bodyMode || 'buffered'}
+              onChange={(bodyMode: FlowBodyMode) => setFlow({ ...flow, bodyMode })}
+            >
+              <Option value="buffered">Body: Buffered</Option>
+              <Option value="streaming">Body: Streaming</Option>
+            </Select>
             <Select 
               placeholder={t('flowEditor.addNode.placeholder')} 
               style={{ width: 150 }}
@@ -409,7 +692,11 @@ const FlowEditor: React.FC = () => {
             >
               <Option value="component">{t('flowEditor.addNode.component')}</Option>
               <Option value="condition">{t('flowEditor.addNode.condition')}</Option>
+              <Option value="switch">Switch</Option>
+              <Option value="subflow">Sub-flow</Option>
               <Option value="terminator">{t('flowEditor.addNode.terminator')}</Option>
+              <Option value="response_entry">Response Entry</Option>
+              <Option value="frame_entry">WS Frame Entry</Option>
             </Select>
             <Button icon={<BugOutlined />} onClick={openDebugModal}>
               {t('flowEditor.btn.debug')}
@@ -423,12 +710,13 @@ const FlowEditor: React.FC = () => {
 
       <div style={{ flex: 1, background: '#1a1a1a', borderRadius: '8px' }}>
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
+          nodes={tracedNodes}
+          edges={tracedEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
           onNodeClick={onNodeClick}
+          onNodeDoubleClick={onNodeDoubleClick}
           onEdgeClick={(_, edge) => {
             Modal.confirm({
               title: t('flowEditor.edge.delete.confirm.title'),
@@ -450,7 +738,7 @@ const FlowEditor: React.FC = () => {
         title={t('flowEditor.drawer.title')}
         open={drawerVisible}
         onClose={() => setDrawerVisible(false)}
-        width={400}
+        width={selectedNode?.type === 'entry' || selectedNodeSteps.length > 0 ? 560 : 400}
         extra={
           <Space>
             <Button danger onClick={deleteSelectedNode}>
@@ -477,12 +765,28 @@ const FlowEditor: React.FC = () => {
                     ))}
                   </Select>
                 </Form.Item>
-                <Form.Item name={['match', 'hostPatterns']} label={t('flowEditor.drawer.entry.hostPatterns')}>
+                <Form.Item
+                  name={['match', 'hostPatterns']}
+                  label={t('flowEditor.drawer.entry.hostPatterns')}
+                  extra="Prefix a pattern with ! to exclude it"
+                >
                   <Select mode="tags" placeholder="e.g., *.example.com" />
                 </Form.Item>
                 <Form.Item name={['match', 'pathPatterns']} label={t('flowEditor.drawer.entry.pathPatterns')}>
                   <Select mode="tags" placeholder="e.g., /api/*" />
                 </Form.Item>
+                <Form.Item name={['match', 'patternMode']} label="Pattern Mode">
+                  <Select>
+                    <Option value="wildcard">Wildcard</Option>
+                    <Option value="regex">Regex</Option>
+                  </Select>
+                </Form.Item>
+                <Form.Item
+                  label="Conditions"
+                  extra="Header, query, body, client IP, port and scheme conditions; all must hold together with the patterns above"
+                >
+                  <MatchGroupEditor name={['match', 'conditions']} path={['match', 'conditions']} />
+                </Form.Item>
               </>
             )}
 
@@ -540,6 +844,56 @@ const FlowEditor: React.FC = () => {
               </Form.Item>
             )}
 
+            {selectedNode.type === 'switch' && (
+              <>
+                <Form.Item
+                  name="expression"
+                  label="Expression"
+                  extra="The value is converted to a string and compared with each case"
+                >
+                  <Input.TextArea
+                    rows={3}
+                    placeholder="ctx.request.headers['x-api-version']"
+                  />
+                </Form.Item>
+                <Form.Item
+                  name="cases"
+                  label="Cases"
+                  extra={`Each case needs an edge from its handle; other values take the "${SWITCH_DEFAULT_LABEL}" edge`}
+                >
+                  <Select mode="tags" placeholder="e.g., v1, v2" open={false} />
+                </Form.Item>
+              </>
+            )}
+
+            {selectedNode.type === 'subflow' && (
+              <>
+                <Form.Item
+                  name="flowId"
+                  label="Sub-flow"
+                  extra="Runs the chosen flow from its entry for the current phase, sharing this request's context"
+                >
+                  <Select showSearch optionFilterProp="children" placeholder="Select a flow">
+                    {(() => {
+                      // 会调用当前 Flow 的 Flow 不能作为子 Flow
+                      const callers = findCallers(allFlows, flow.id);
+                      return allFlows.filter((f) => !callers.has(f.id)).map((f) => (
+                        <Option key={f.id} value={f.id}>{f.name}</Option>
+                      ));
+                    })()}
+                  </Select>
+                </Form.Item>
+                <Button
+                  icon={<ExportOutlined />}
+                  disabled={!selectedNode.data.flowId}
+                  onClick={() => openSubFlow(selectedNode.data.flowId)}
+                  style={{ marginBottom: 24 }}
+                >
+                  Open Sub-flow
+                </Button>
+              </>
+            )}
+
             {selectedNode.type === 'terminator' && (
               <Form.Item name="mode" label={t('flowEditor.drawer.terminator.mode')}>
                 <Select>
@@ -554,6 +908,22 @@ const FlowEditor: React.FC = () => {
             )}
           </Form>
         )}
+
+        {selectedNodeSteps.length > 0 && (
+          <>
+            <Divider orientation="left">Execution</Divider>
+            {selectedNodeSteps.map((step, index) => (
+              <div key={index} style={{ marginBottom: 16 }}>
+                <Space style={{ marginBottom: 8 }}>
+                  <Tag>{step.phase}</Tag>
+                  {step.durationMs !== undefined && <Text type="secondary">{step.durationMs}ms</Text>}
+                  <FlowTraceOutcome step={step} />
+                </Space>
+                {(step.nodeType === 'component' || step.nodeType === 'subflow') && <FlowTraceChanges changes={step.changes} />}
+              </div>
+            ))}
+          </>
+        )}
       </Drawer>
 
       <FlowDebugModal
@@ -582,8 +952,11 @@ const FlowDebugModal: React.FC<{
 }> = ({ open, onClose, flow, requests, selectedRequestId, onChangeRequest, result, onRun }) => {
   if (!flow) return null;
 
-  const formatBody = (body?: string, contentType?: string) => {
+  const formatBody = (body?: string, contentType?: string, bodyEncoding?: BodyEncoding) => {
     if (!body) return <Text type="secondary">No body</Text>;
+
+    if (bodyEncoding === 'base64') return <BinaryBody body={body} />;
+
     if (contentType?.includes('application/json')) {
       try {
         const parsed = JSON.parse(body);
@@ -619,7 +992,7 @@ const FlowDebugModal: React.FC<{
           </Panel>
         </Collapse>
         <Title level={5} style={{ marginTop: 8 }}>Body</Title>
-        {formatBody(req.body, typeof ct === 'string' ? ct : undefined)}
+        {formatBody(req.body, typeof ct === 'string' ? ct : undefined, req.bodyEncoding)}
       </>
     );
   };
@@ -648,7 +1021,7 @@ const FlowDebugModal: React.FC<{
           </Panel>
         </Collapse>
         <Title level={5} style={{ marginTop: 8 }}>Body</Title>
-        {formatBody(res.body, typeof ct === 'string' ? ct : undefined)}
+        {formatBody(res.body, typeof ct === 'string' ? ct : undefined, res.bodyEncoding)}
       </>
     );
   };
@@ -706,6 +1079,7 @@ const FlowDebugModal: React.FC<{
                 { key: 'before-res', label: 'Before - Response', children: renderResponseView(result.before.response) },
                 { key: 'after-req', label: 'After - Request', children: renderRequestView(result.after.request) },
                 { key: 'after-res', label: 'After - Response', children: renderResponseView(result.after.response) },
+                { key: 'trace', label: 'Trace', children: <FlowTrace trace={result.trace} /> },
               ]}
             />
           </Card>
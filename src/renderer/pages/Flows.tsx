@@ -5,10 +5,12 @@ import {
   Form, Input, message, Popconfirm, Tag, Select, Collapse, Descriptions, Tabs 
 } from 'antd';
 import { 
-  PlusOutlined, EditOutlined, DeleteOutlined, CopyOutlined, BugOutlined 
+  PlusOutlined, EditOutlined, DeleteOutlined, CopyOutlined, BugOutlined, HolderOutlined 
 } from '@ant-design/icons';
-import { FlowDefinition, RequestRecord, FlowDebugResult, HttpRequest, HttpResponse } from '../../shared/models';
+import { FlowDefinition, RequestRecord, FlowDebugResult, HttpRequest, HttpResponse, BodyEncoding } from '../../shared/models';
 import { v4 as uuidv4 } from 'uuid';
+import BinaryBody from '../components/BinaryBody';
+import FlowTrace from '../components/FlowTrace';
 import { useI18n } from '../i18n';
 
 const { Title, Text } = Typography;
@@ -27,6 +29,8 @@ const Flows: React.FC = () => {
   const [requests, setRequests] = useState<RequestRecord[]>([]);
   const [selectedRequestId, setSelectedRequestId] = useState<string>('');
   const [debugResult, setDebugResult] = useState<FlowDebugResult | null>(null);
+  // 拖拽排序中的 Flow
+  const [draggingId, setDraggingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadFlows();
@@ -157,6 +161,24 @@ const Flows: React.FC = () => {
     }
   };
 
+  // 拖到目标行的位置，列表顺序即匹配顺序
+  const moveFlow = async (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    const reordered = flows.filter((f) => f.id !== fromId);
+    const moving = flows.find((f) => f.id === fromId);
+    const targetIndex = flows.findIndex((f) => f.id === toId);
+    if (!moving || targetIndex < 0) return;
+    reordered.splice(targetIndex, 0, moving);
+    setFlows(reordered);
+    try {
+      await window.electronAPI.reorderFlows(reordered.map((f) => f.id));
+    } catch (error) {
+      console.error('Failed to reorder flows:', error);
+      message.error('Failed to reorder flows');
+      loadFlows();
+    }
+  };
+
   const duplicateFlow = async (flow: FlowDefinition) => {
     if (!window.electronAPI) {
       console.error('electronAPI is not available on window');
@@ -181,6 +203,16 @@ const Flows: React.FC = () => {
   };
 
   const columns = [
+    {
+      title: '#',
+      width: 60,
+      render: (_: any, _record: FlowDefinition, index: number) => (
+        <Space size={4}>
+          <HolderOutlined style={{ cursor: 'grab' }} />
+          {index + 1}
+        </Space>
+      ),
+    },
     {
       title: t('flows.table.enabled'),
       dataIndex: 'enabled',
@@ -197,7 +229,10 @@ const Flows: React.FC = () => {
       title: t('flows.table.name'),
       dataIndex: 'name',
       render: (name: string, record: FlowDefinition) => (
-        <a onClick={() => navigate(`/flows/${record.id}`)}>{name}</a>
+        <Space size={4}>
+          <a onClick={() => navigate(`/flows/${record.id}`)}>{name}</a>
+          {record.continueToNext && <Tag color="blue">continues to next</Tag>}
+        </Space>
       ),
     },
     {
@@ -260,12 +295,27 @@ const Flows: React.FC = () => {
           </Button>
         }
       >
+        <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+          Flows are matched from top to bottom; drag rows to change the order
+        </Text>
         <Table
           dataSource={flows}
           columns={columns}
           rowKey="id"
           loading={loading}
           pagination={false}
+          onRow={(record: FlowDefinition) => ({
+            draggable: true,
+            style: { opacity: draggingId === record.id ? 0.5 : 1 },
+            onDragStart: () => setDraggingId(record.id),
+            onDragEnd: () => setDraggingId(null),
+            onDragOver: (e: React.DragEvent) => e.preventDefault(),
+            onDrop: (e: React.DragEvent) => {
+              e.preventDefault();
+              if (draggingId) moveFlow(draggingId, record.id);
+              setDraggingId(null);
+            },
+          })}
         />
       </Card>
 
@@ -317,8 +367,11 @@ const FlowDebugModal: React.FC<{
 
   const { t } = useI18n();
 
-  const formatBody = (body?: string, contentType?: string) => {
+  const formatBody = (body?: string, contentType?: string, bodyEncoding?: BodyEncoding) => {
     if (!body) return <Text type="secondary">{t('flowDebug.noBody')}</Text>;
+
+    if (bodyEncoding === 'base64') return <BinaryBody body={body} />;
+
     if (contentType?.includes('application/json')) {
       try {
         const parsed = JSON.parse(body);
@@ -354,7 +407,7 @@ const FlowDebugModal: React.FC<{
           </Panel>
         </Collapse>
         <Title level={5} style={{ marginTop: 8 }}>Body</Title>
-        {formatBody(req.body, typeof ct === 'string' ? ct : undefined)}
+        {formatBody(req.body, typeof ct === 'string' ? ct : undefined, req.bodyEncoding)}
       </>
     );
   };
@@ -383,7 +436,7 @@ const FlowDebugModal: React.FC<{
           </Panel>
         </Collapse>
         <Title level={5} style={{ marginTop: 8 }}>Body</Title>
-        {formatBody(res.body, typeof ct === 'string' ? ct : undefined)}
+        {formatBody(res.body, typeof ct === 'string' ? ct : undefined, res.bodyEncoding)}
       </>
     );
   };
@@ -443,6 +496,7 @@ const FlowDebugModal: React.FC<{
                 { key: 'before-res', label: t('flowDebug.before.response'), children: renderResponseView(result.before.response) },
                 { key: 'after-req', label: t('flowDebug.after.request'), children: renderRequestView(result.after.request) },
                 { key: 'after-res', label: t('flowDebug.after.response'), children: renderResponseView(result.after.response) },
+                { key: 'trace', label: t('flowDebug.trace'), children: <FlowTrace trace={result.trace} /> },
               ]}
             />
           </Card>
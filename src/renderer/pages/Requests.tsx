@@ -1,12 +1,19 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { 
   Table, Input, Select, Button, Space, Typography, Card, Tabs, 
-  Tag, Descriptions, message, Empty, Tooltip, Collapse 
+  Tag, Descriptions, message, Empty, Tooltip, Collapse, Badge, Dropdown 
 } from 'antd';
 import { 
-  CopyOutlined, ClearOutlined, ReloadOutlined, SearchOutlined 
+  CopyOutlined, ClearOutlined, ReloadOutlined, SearchOutlined, PauseCircleOutlined, SendOutlined,
+  ExportOutlined, ImportOutlined, FolderOutlined, VideoCameraOutlined, ApartmentOutlined 
 } from '@ant-design/icons';
-import { RequestRecord, HttpRequest, HttpResponse } from '../../shared/models';
+import { RequestRecord, RequestAttempt, HttpRequest, HttpResponse, WebSocketFrameRecord, BodyEncoding, PendingBreakpoint, Cassette } from '../../shared/models';
+import BinaryBody from '../components/BinaryBody';
+import BreakpointEditor from '../components/BreakpointEditor';
+import RequestComposer from '../components/RequestComposer';
+import SessionManager from '../components/SessionManager';
+import FlowTrace from '../components/FlowTrace';
 import { useI18n } from '../i18n';
 
 const { Title, Text, Paragraph } = Typography;
@@ -18,6 +25,13 @@ const Requests: React.FC = () => {
   const [selectedRequest, setSelectedRequest] = useState<RequestRecord | null>(null);
   const [loading, setLoading] = useState(false);
   const [filter, setFilter] = useState({ search: '', method: '' });
+  const [pendingBreakpoints, setPendingBreakpoints] = useState<PendingBreakpoint[]>([]);
+  const [editingBreakpointId, setEditingBreakpointId] = useState<string | null>(null);
+  const [selectedRowKeys, setSelectedRowKeys] = useState<React.Key[]>([]);
+  const [composer, setComposer] = useState<{ open: boolean; source: RequestRecord | null }>({ open: false, source: null });
+  const [sessionName, setSessionName] = useState('');
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [cassettes, setCassettes] = useState<Cassette[]>([]);
 
   useEffect(() => {
     // 安全检查：如果 preload 未正确注入 electronAPI，则避免整个页面崩溃
@@ -27,12 +41,21 @@ const Requests: React.FC = () => {
     }
 
     loadRequests();
+    loadSessionName();
     const unsubscribe = window.electronAPI.onNewRequest((record) => {
       setRequests(prev => [record, ...prev.filter(r => r.id !== record.id)].slice(0, 500));
     });
-    return () => unsubscribe();
+    window.electronAPI.getPendingBreakpoints().then(setPendingBreakpoints);
+    const unsubscribeBreakpoints = window.electronAPI.onBreakpointsChanged(setPendingBreakpoints);
+    return () => {
+      unsubscribe();
+      unsubscribeBreakpoints();
+    };
   }, []);
 
+  // 断点超时或被处理后从列表消失，编辑弹窗随之关闭
+  const editingBreakpoint = pendingBreakpoints.find((b) => b.id === editingBreakpointId) || null;
+
   const loadRequests = async () => {
     if (!window.electronAPI) {
       console.error('electronAPI is not available on window');
@@ -51,6 +74,34 @@ const Requests: React.FC = () => {
     }
   };
 
+  const loadSessionName = async () => {
+    try {
+      const { activeSessionId, sessions } = await window.electronAPI.getSessions();
+      setSessionName(sessions.find((s) => s.id === activeSessionId)?.name || '');
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  };
+
+  // 切换会话后重新加载记录
+  const onSessionSwitched = () => {
+    setSelectedRowKeys([]);
+    setSelectedRequest(null);
+    loadRequests();
+    loadSessionName();
+  };
+
+  // 单独存放在磁盘上的大 body 不在列表数据中，选中时按 id 读取完整记录
+  const selectRecord = async (record: RequestRecord) => {
+    setSelectedRequest(record);
+    if (record.request.bodyOffloaded || record.response?.bodyOffloaded) {
+      const full = await window.electronAPI.getRequestById(record.id);
+      if (full) {
+        setSelectedRequest((current) => (current?.id === record.id ? full : current));
+      }
+    }
+  };
+
   const clearRequests = async () => {
     if (!window.electronAPI) {
       console.error('electronAPI is not available on window');
@@ -59,6 +110,7 @@ const Requests: React.FC = () => {
     try {
       await window.electronAPI.clearRequests();
       setRequests([]);
+      setSelectedRowKeys([]);
       setSelectedRequest(null);
       message.success('Requests cleared');
     } catch (error) {
@@ -72,12 +124,16 @@ const Requests: React.FC = () => {
     let curl = `curl -X ${req.method} '${req.url}'`;
     
     Object.entries(req.headers).forEach(([key, value]) => {
-      if (!['host', 'content-length'].includes(key.toLowerCase())) {
+      // 记录中的 body 已解压，不再带 content-encoding
+      if (!['host', 'content-length', 'content-encoding'].includes(key.toLowerCase())) {
         curl += ` \\\n  -H '${key}: ${value}'`;
       }
     });
     
-    if (req.body) {
+    if (req.body && req.bodyEncoding === 'base64') {
+      // 二进制 body 经 base64 -d 还原后从 stdin 读入
+      curl = `echo '${req.body}' | base64 -d | ${curl} \\\n  --data-binary @-`;
+    } else if (req.body) {
       curl += ` \\\n  --data-binary '${req.body.replace(/'/g, "\\'")}'`;
     }
     
@@ -103,7 +159,9 @@ const Requests: React.FC = () => {
       }
     });
     
-    if (req.body) {
+    if (req.body && req.bodyEncoding === 'base64') {
+      raw += `\n<binary body, ${atob(req.body).length} bytes>`;
+    } else if (req.body) {
       raw += `\n${req.body}`;
     }
     
@@ -111,6 +169,62 @@ const Requests: React.FC = () => {
     message.success(t('requests.copy.raw.success'));
   }, []);
 
+  // 导出勾选的记录；未勾选时导出当前列表（有过滤条件时）或全部记录
+  const exportHar = async () => {
+    const filtered = !!(filter.search || filter.method);
+    const ids = selectedRowKeys.length
+      ? selectedRowKeys.map(String)
+      : filtered ? requests.map((r) => r.id) : undefined;
+    try {
+      const result = await window.electronAPI.exportHar(ids);
+      if (result.success) {
+        message.success(`Exported ${result.count} requests to ${result.filePath}`);
+      } else if (!result.canceled) {
+        message.error(result.errorMessage || 'Failed to export HAR');
+      }
+    } catch (error) {
+      console.error('Failed to export HAR:', error);
+      message.error('Failed to export HAR');
+    }
+  };
+
+  const importHar = async () => {
+    try {
+      const result = await window.electronAPI.importHar();
+      if (result.success) {
+        message.success(`Imported ${result.count} requests`);
+        loadRequests();
+      } else if (!result.canceled) {
+        message.error(result.errorMessage || 'Failed to import HAR');
+      }
+    } catch (error) {
+      console.error('Failed to import HAR:', error);
+      message.error('Failed to import HAR');
+    }
+  };
+
+  // 把勾选的记录加入 Cassette，供 Replay From Cassette 组件回放
+  const addToCassette = async (cassetteId: string) => {
+    try {
+      const added = await window.electronAPI.addRecordsToCassette(cassetteId, selectedRowKeys.map(String));
+      const skipped = selectedRowKeys.length - added;
+      message.success(`Added ${added} requests to the cassette${skipped ? `, skipped ${skipped} without a complete response` : ''}`);
+    } catch (error) {
+      console.error('Failed to add requests to cassette:', error);
+      message.error('Failed to add requests to cassette');
+    }
+  };
+
+  // 打开 Resend 记录对应的原始请求
+  const openRecord = async (id: string) => {
+    const record = requests.find((r) => r.id === id) || await window.electronAPI.getRequestById(id);
+    if (record) {
+      selectRecord(record);
+    } else {
+      message.info('The original request is no longer in the list');
+    }
+  };
+
   const getMethodColor = (method: string) => {
     const colors: Record<string, string> = {
       GET: 'blue', POST: 'green', PUT: 'orange', 
@@ -131,15 +245,20 @@ const Requests: React.FC = () => {
       title: t('requests.table.method'),
       dataIndex: ['request', 'method'],
       width: 80,
-      render: (method: string) => <Tag color={getMethodColor(method)}>{method}</Tag>,
+      render: (method: string, record: RequestRecord) => record.websocket
+        ? <Tag color="magenta">WS</Tag>
+        : <Tag color={getMethodColor(method)}>{method}</Tag>,
     },
     {
       title: t('requests.table.url'),
       dataIndex: ['request', 'url'],
       ellipsis: true,
-      render: (url: string) => (
-        <Tooltip title={url}>
-          <Text style={{ fontSize: '12px' }}>{url}</Text>
+      render: (url: string, record: RequestRecord) => (
+        <Tooltip title={record.imported ? `Imported from HAR: ${url}` : url}>
+          <span>
+            {record.imported && <Tag>HAR</Tag>}
+            <Text style={{ fontSize: '12px' }}>{url}</Text>
+          </span>
         </Tooltip>
       ),
     },
@@ -147,9 +266,37 @@ const Requests: React.FC = () => {
       title: t('requests.table.status'),
       dataIndex: ['response', 'statusCode'],
       width: 80,
-      render: (status?: number) => status ? (
-        <Tag color={getStatusColor(status)}>{status}</Tag>
-      ) : <Tag>{t('requests.status.pending')}</Tag>,
+      render: (status: number | undefined, record: RequestRecord) => {
+        const breakpoint = pendingBreakpoints.find((b) => b.recordId === record.id);
+        if (breakpoint) {
+          return (
+            <Tag
+              color="gold"
+              style={{ cursor: 'pointer' }}
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingBreakpointId(breakpoint.id);
+              }}
+            >
+              Paused
+            </Tag>
+          );
+        }
+        return status ? (
+          <Tag color={getStatusColor(status)}>{status}</Tag>
+        ) : <Tag>{t('requests.status.pending')}</Tag>;
+      },
+    },
+    {
+      title: 'Protocol',
+      dataIndex: 'protocol',
+      width: 110,
+      render: (protocol: string | undefined, record: RequestRecord) => {
+        if (!protocol) return '-';
+        // 客户端与上游协议不同时（如 HTTP/1.1 客户端访问 h2 源站）显示两段
+        const upstream = record.upstreamProtocol;
+        return upstream && upstream !== protocol ? `${protocol} → ${upstream}` : protocol;
+      },
     },
     {
       title: t('requests.table.duration'),
@@ -169,10 +316,20 @@ const Requests: React.FC = () => {
           <Space>
             <Title level={5} style={{ margin: 0 }}>{t('requests.title')}</Title>
             <Text type="secondary">({requests.length})</Text>
+            <Button size="small" icon={<FolderOutlined />} onClick={() => setSessionsOpen(true)}>
+              {sessionName || 'Sessions'}
+            </Button>
           </Space>
         }
         extra={
           <Space>
+            {pendingBreakpoints.length > 0 && (
+              <Badge count={pendingBreakpoints.length} size="small">
+                <Button icon={<PauseCircleOutlined />} onClick={() => setEditingBreakpointId(pendingBreakpoints[0].id)}>
+                  Breakpoints
+                </Button>
+              </Badge>
+            )}
             <Input
               placeholder={t('requests.search.placeholder')}
               prefix={<SearchOutlined />}
@@ -192,6 +349,29 @@ const Requests: React.FC = () => {
                 <Option key={m} value={m}>{m}</Option>
               ))}
             </Select>
+            <Button icon={<SendOutlined />} onClick={() => setComposer({ open: true, source: null })}>
+              Compose
+            </Button>
+            {selectedRowKeys.length > 0 && (
+              <Dropdown
+                trigger={['click']}
+                onOpenChange={(open) => open && window.electronAPI.getCassettes().then(setCassettes)}
+                menu={{
+                  items: cassettes.length
+                    ? cassettes.map((c) => ({ key: c.id, label: c.name }))
+                    : [{ key: '', label: 'No cassettes yet', disabled: true }],
+                  onClick: ({ key }) => addToCassette(key),
+                }}
+              >
+                <Button icon={<VideoCameraOutlined />}>Add to Cassette</Button>
+              </Dropdown>
+            )}
+            <Button icon={<ExportOutlined />} onClick={exportHar}>
+              {selectedRowKeys.length ? `Export HAR (${selectedRowKeys.length})` : 'Export HAR'}
+            </Button>
+            <Button icon={<ImportOutlined />} onClick={importHar}>
+              Import HAR
+            </Button>
             <Button icon={<ReloadOutlined />} onClick={loadRequests}>
               {t('requests.btn.refresh')}
             </Button>
@@ -207,10 +387,11 @@ const Requests: React.FC = () => {
           rowKey="id"
           size="small"
           loading={loading}
+          rowSelection={{ selectedRowKeys, onChange: setSelectedRowKeys, columnWidth: 32 }}
           pagination={{ pageSize: 50, showSizeChanger: false }}
           scroll={{ y: 'calc(100vh - 280px)' }}
           onRow={(record) => ({
-            onClick: () => setSelectedRequest(record),
+            onClick: () => selectRecord(record),
             style: { 
               cursor: 'pointer',
               background: selectedRequest?.id === record.id ? '#1f1f1f' : undefined
@@ -227,6 +408,11 @@ const Requests: React.FC = () => {
         extra={
           selectedRequest && (
             <Space>
+              {!selectedRequest.websocket && (
+                <Button icon={<SendOutlined />} onClick={() => setComposer({ open: true, source: selectedRequest })}>
+                  Resend
+                </Button>
+              )}
               <Button 
                 icon={<CopyOutlined />} 
                 onClick={() => copyAsCurl(selectedRequest)}
@@ -244,24 +430,46 @@ const Requests: React.FC = () => {
         }
       >
         {selectedRequest ? (
-          <RequestDetail record={selectedRequest} />
+          <RequestDetail record={selectedRequest} onOpenRecord={openRecord} />
         ) : (
           <Empty description={t('requests.empty.detail')} />
         )}
       </Card>
+
+      <BreakpointEditor
+        key={editingBreakpoint?.id}
+        breakpoint={editingBreakpoint}
+        onClose={() => setEditingBreakpointId(null)}
+      />
+
+      <RequestComposer
+        open={composer.open}
+        source={composer.source}
+        onClose={() => setComposer({ open: false, source: null })}
+        onSent={setSelectedRequest}
+      />
+
+      <SessionManager
+        open={sessionsOpen}
+        onClose={() => { setSessionsOpen(false); loadSessionName(); }}
+        onSwitched={onSessionSwitched}
+      />
     </div>
   );
 };
 
 const { Panel } = Collapse;
 
-const RequestDetail: React.FC<{ record: RequestRecord }> = ({ record }) => {
+const RequestDetail: React.FC<{ record: RequestRecord; onOpenRecord: (id: string) => void }> = ({ record, onOpenRecord }) => {
+  const navigate = useNavigate();
   const { request, response } = record;
   const { t } = useI18n();
 
-  const formatBody = (body?: string, contentType?: string) => {
+  const formatBody = (body?: string, contentType?: string, bodyEncoding?: BodyEncoding) => {
     if (!body) return <Text type="secondary">{t('requests.body.none')}</Text>;
 
+    if (bodyEncoding === 'base64') return <BinaryBody body={body} />;
+
     // JSON pretty-print
     if (contentType?.includes('application/json')) {
       try {
@@ -288,6 +496,25 @@ const RequestDetail: React.FC<{ record: RequestRecord }> = ({ record }) => {
     return <pre className="code-block plain-body">{body}</pre>;
   };
 
+  // 流式转发时只记录了 body 的前一部分
+  const truncatedNote = (message: HttpRequest | HttpResponse) =>
+    message.bodyTruncated ? (
+      <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+        Showing the first part of the body only ({message.bodySize} bytes in total)
+      </Text>
+    ) : null;
+
+  // Protobuf / gRPC body 已按消息类型解码为 JSON
+  const protobufNote = (message: HttpRequest | HttpResponse) =>
+    message.protobuf ? (
+      <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+        Decoded from {message.protobuf.grpc ? 'gRPC' : 'Protobuf'} as <Text code>{message.protobuf.messageType}</Text>
+      </Text>
+    ) : null;
+
+  const bodyContentType = (message: HttpRequest | HttpResponse) =>
+    message.protobuf ? 'application/json' : message.headers['content-type'];
+
   const tabs = [
     {
       key: 'request',
@@ -297,6 +524,19 @@ const RequestDetail: React.FC<{ record: RequestRecord }> = ({ record }) => {
           <Descriptions column={1} size="small" bordered>
             <Descriptions.Item label="Method">{request.method}</Descriptions.Item>
             <Descriptions.Item label="URL">{request.url}</Descriptions.Item>
+            {record.protocol && (
+              <Descriptions.Item label="Protocol">
+                {record.protocol}
+                {record.upstreamProtocol ? ` (upstream: ${record.upstreamProtocol})` : ''}
+              </Descriptions.Item>
+            )}
+            {record.resentFromId && (
+              <Descriptions.Item label="Resent From">
+                <Button type="link" size="small" style={{ padding: 0 }} onClick={() => onOpenRecord(record.resentFromId!)}>
+                  Original request
+                </Button>
+              </Descriptions.Item>
+            )}
             <Descriptions.Item label="Timestamp">
               {new Date(request.timestamp).toLocaleString()}
             </Descriptions.Item>
@@ -315,7 +555,9 @@ const RequestDetail: React.FC<{ record: RequestRecord }> = ({ record }) => {
           </Collapse>
 
           <Title level={5} style={{ marginTop: '16px' }}>Body</Title>
-          {formatBody(request.body, request.headers['content-type'])}
+          {truncatedNote(request)}
+          {protobufNote(request)}
+          {formatBody(request.body, bodyContentType(request), request.bodyEncoding)}
         </>
       ),
     },
@@ -348,7 +590,22 @@ const RequestDetail: React.FC<{ record: RequestRecord }> = ({ record }) => {
           </Collapse>
 
           <Title level={5} style={{ marginTop: '16px' }}>Body</Title>
-          {formatBody(response.body, response.headers['content-type'])}
+          {truncatedNote(response)}
+          {protobufNote(response)}
+          {formatBody(response.body, bodyContentType(response), response.bodyEncoding)}
+
+          {response.trailers && Object.keys(response.trailers).length > 0 && (
+            <>
+              <Title level={5} style={{ marginTop: '16px' }}>Trailers</Title>
+              <Descriptions column={1} size="small" bordered>
+                {Object.entries(response.trailers).map(([key, value]) => (
+                  <Descriptions.Item key={key} label={key}>
+                    {value}
+                  </Descriptions.Item>
+                ))}
+              </Descriptions>
+            </>
+          )}
         </>
       ) : (
         <Empty description={t('requests.empty.response')} />
@@ -356,7 +613,164 @@ const RequestDetail: React.FC<{ record: RequestRecord }> = ({ record }) => {
     },
   ];
 
+  if (record.websocket) {
+    tabs.push({
+      key: 'frames',
+      label: `Frames (${record.websocket.frames.length})`,
+      children: <WebSocketFrames record={record} />,
+    });
+  }
+
+  if (record.attempts?.length) {
+    tabs.push({
+      key: 'attempts',
+      label: `Attempts (${record.attempts.length})`,
+      children: <RequestAttempts attempts={record.attempts} />,
+    });
+  }
+
+  if (record.flowTrace?.length) {
+    tabs.push({
+      key: 'trace',
+      label: `Flow Trace (${record.flowTrace.length})`,
+      children: (
+        <>
+          {record.matchedFlowId && (
+            <Button
+              size="small"
+              icon={<ApartmentOutlined />}
+              style={{ marginBottom: 8 }}
+              onClick={() => navigate(`/flows/${record.matchedFlowId}?trace=${record.id}`)}
+            >
+              Show in Flow Editor
+            </Button>
+          )}
+          <FlowTrace trace={record.flowTrace} />
+        </>
+      ),
+    });
+  }
+
   return <Tabs defaultActiveKey="request" items={tabs} />;
 };
 
+const WS_OPCODE_NAMES: Record<number, string> = {
+  0: 'continuation',
+  1: 'text',
+  2: 'binary',
+  8: 'close',
+  9: 'ping',
+  10: 'pong',
+};
+
+const WebSocketFrames: React.FC<{ record: RequestRecord }> = ({ record }) => {
+  const session = record.websocket!;
+
+  const columns = [
+    {
+      title: 'Time',
+      dataIndex: 'timestamp',
+      width: 100,
+      render: (ts: number) => new Date(ts).toLocaleTimeString(),
+    },
+    {
+      title: 'Dir',
+      dataIndex: 'direction',
+      width: 50,
+      render: (direction: string) => direction === 'client_to_server'
+        ? <Tag color="blue">↑</Tag>
+        : <Tag color="green">↓</Tag>,
+    },
+    {
+      title: 'Type',
+      dataIndex: 'opcode',
+      width: 100,
+      render: (opcode: number) => WS_OPCODE_NAMES[opcode] || String(opcode),
+    },
+    {
+      title: 'Size',
+      dataIndex: 'size',
+      width: 70,
+    },
+    {
+      title: 'Payload',
+      dataIndex: 'payload',
+      ellipsis: true,
+      render: (payload: string, frame: WebSocketFrameRecord) => (
+        <Space size={4}>
+          {frame.dropped && <Tag color="red">dropped</Tag>}
+          {frame.modified && <Tag color="orange">modified</Tag>}
+          {frame.delayMs ? <Tag color="gold">delayed {frame.delayMs}ms</Tag> : null}
+          {frame.payloadEncoding === 'base64' && <Tag>base64</Tag>}
+          <Tooltip title={payload}>
+            <Text style={{ fontSize: '12px' }}>{payload}</Text>
+          </Tooltip>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Space style={{ marginBottom: 8 }}>
+        <Tag color={session.closedAt ? 'default' : 'green'}>
+          {session.closedAt ? 'Closed' : 'Open'}
+        </Tag>
+        {session.framesTruncated && (
+          <Text type="secondary">Only the most recent frames are kept</Text>
+        )}
+      </Space>
+      <Table
+        dataSource={session.frames}
+        columns={columns}
+        rowKey={(frame) => `${frame.timestamp}-${session.frames.indexOf(frame)}`}
+        size="small"
+        pagination={{ pageSize: 100, showSizeChanger: false }}
+        expandable={{
+          expandedRowRender: (frame: WebSocketFrameRecord) => (
+            <pre className="code-block plain-body">{frame.payload}</pre>
+          ),
+        }}
+      />
+    </>
+  );
+};
+
+// Retry Hint 生效时每次转发上游的结果
+const RequestAttempts: React.FC<{ attempts: RequestAttempt[] }> = ({ attempts }) => (
+  <Table
+    dataSource={attempts}
+    rowKey="attempt"
+    size="small"
+    pagination={false}
+    columns={[
+      { title: '#', dataIndex: 'attempt', width: 50 },
+      {
+        title: 'Started',
+        dataIndex: 'startedAt',
+        width: 110,
+        render: (ts: number) => new Date(ts).toLocaleTimeString(),
+      },
+      {
+        title: 'Result',
+        render: (_: any, attempt: RequestAttempt) => attempt.error
+          ? <Text type="danger">{attempt.error}</Text>
+          : <Tag color={attempt.statusCode! < 400 ? 'green' : 'red'}>{attempt.statusCode}</Tag>,
+      },
+      {
+        title: 'Duration',
+        dataIndex: 'durationMs',
+        width: 90,
+        render: (ms: number) => `${ms}ms`,
+      },
+      {
+        title: 'Retry After',
+        dataIndex: 'retryDelayMs',
+        width: 100,
+        render: (ms?: number) => (ms === undefined ? '-' : `${ms}ms`),
+      },
+    ]}
+  />
+);
+
 export default Requests;
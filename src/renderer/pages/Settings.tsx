@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Card, Form, InputNumber, Select, Button, message, Typography, Divider, Space, Alert, Switch, Input } from 'antd';
-import { SaveOutlined } from '@ant-design/icons';
-import { AppConfig, CertStatus } from '../../shared/models';
+import { SaveOutlined, PlusOutlined, MinusCircleOutlined } from '@ant-design/icons';
+import { AppConfig, CertStatus, UpstreamProxy, DIRECT_UPSTREAM } from '../../shared/models';
+import { v4 as uuidv4 } from 'uuid';
 import { useI18n, Language } from '../i18n';
 
 const { Title, Text, Paragraph } = Typography;
@@ -15,6 +16,7 @@ const Settings: React.FC = () => {
   const [importLoading, setImportLoading] = useState(false);
   const [generateLoading, setGenerateLoading] = useState(false);
   const { t, setLanguage } = useI18n();
+  const upstreamProxies: UpstreamProxy[] = Form.useWatch('upstreamProxies', form) || [];
 
   useEffect(() => { 
     loadConfig();
@@ -112,6 +114,22 @@ const Settings: React.FC = () => {
             <InputNumber min={100} max={10000} style={{ width: '200px' }} />
           </Form.Item>
 
+          <Form.Item
+            name="recordRetentionDays"
+            label="Keep records for (days)"
+            extra="Older records are removed from the current session. Leave empty to keep them."
+          >
+            <InputNumber min={1} style={{ width: '200px' }} />
+          </Form.Item>
+
+          <Form.Item
+            name="recordRetentionMaxMB"
+            label="Max session size (MB)"
+            extra="Oldest records are removed once the current session exceeds this size on disk. Leave empty for no limit."
+          >
+            <InputNumber min={1} style={{ width: '200px' }} />
+          </Form.Item>
+
           <Form.Item name="logLevel" label={t('settings.logLevel')}>
             <Select style={{ width: '200px' }}>
               <Select.Option value="debug">Debug</Select.Option>
@@ -138,6 +156,19 @@ const Settings: React.FC = () => {
             <Switch />
           </Form.Item>
 
+          <Form.Item
+            name="socksEnabled"
+            label="SOCKS5 Listener"
+            valuePropName="checked"
+            extra="Accept SOCKS5 clients in addition to the HTTP proxy port"
+          >
+            <Switch />
+          </Form.Item>
+
+          <Form.Item name="socksPort" label="SOCKS5 Port">
+            <InputNumber min={1024} max={65535} style={{ width: '200px' }} />
+          </Form.Item>
+
           <Form.Item name="language" label={t('settings.language')}>
             <Select style={{ width: '200px' }}>
               <Select.Option value="en">{t('settings.language.english')}</Select.Option>
@@ -145,6 +176,241 @@ const Settings: React.FC = () => {
             </Select>
           </Form.Item>
 
+          <Divider orientation="left">Reverse Proxy Listeners</Divider>
+
+          <Form.List name="reverseProxies">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="baseline" wrap>
+                    <Form.Item name={[field.name, 'id']} hidden>
+                      <Input />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'enabled']} valuePropName="checked">
+                      <Switch size="small" />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'name']} rules={[{ required: true, message: 'Name is required' }]}>
+                      <Input placeholder="Name" style={{ width: 110 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'listenPort']} rules={[{ required: true, message: 'Port is required' }]}>
+                      <InputNumber placeholder="Port" min={1024} max={65535} style={{ width: 90 }} />
+                    </Form.Item>
+                    <Form.Item
+                      name={[field.name, 'targetOrigin']}
+                      rules={[{ required: true, pattern: /^https?:\/\/[^/]+$/, message: 'e.g. https://api.example.com' }]}
+                    >
+                      <Input placeholder="https://staging.api.example.com" style={{ width: 230 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'tls']} valuePropName="checked">
+                      <Switch size="small" checkedChildren="HTTPS" unCheckedChildren="HTTP" />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'preserveHost']} valuePropName="checked">
+                      <Switch size="small" checkedChildren="Keep Host" unCheckedChildren="Target Host" />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Form.Item extra="Clients connect to localhost:<port> directly; requests are forwarded to the target origin and still run through flows.">
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() => add({ id: uuidv4(), enabled: true, tls: false, preserveHost: false })}
+                  >
+                    Add Reverse Proxy
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+
+          <Divider orientation="left">Upstream Proxies</Divider>
+
+          <Form.List name="upstreamProxies">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="baseline" wrap>
+                    <Form.Item name={[field.name, 'id']} hidden>
+                      <Input />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'name']} rules={[{ required: true, message: 'Name is required' }]}>
+                      <Input placeholder="Name" style={{ width: 120 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'type']}>
+                      <Select style={{ width: 100 }}>
+                        <Select.Option value="http">HTTP</Select.Option>
+                        <Select.Option value="socks5">SOCKS5</Select.Option>
+                      </Select>
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'host']} rules={[{ required: true, message: 'Host is required' }]}>
+                      <Input placeholder="Host" style={{ width: 150 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'port']} rules={[{ required: true, message: 'Port is required' }]}>
+                      <InputNumber placeholder="Port" min={1} max={65535} style={{ width: 90 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'username']}>
+                      <Input placeholder="Username" style={{ width: 110 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'password']}>
+                      <Input.Password placeholder="Password" style={{ width: 110 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Form.Item>
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() => add({ id: uuidv4(), type: 'http' })}
+                  >
+                    Add Upstream Proxy
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+
+          <Form.List name="upstreamRules">
+            {(fields, { add, remove, move }) => (
+              <>
+                {fields.map((field, index) => (
+                  <Space key={field.key} align="baseline">
+                    <Form.Item name={[field.name, 'hostPattern']} rules={[{ required: true, message: 'Host pattern is required' }]}>
+                      <Input placeholder="*.corp.example.com" style={{ width: 220 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'upstreamId']}>
+                      <Select style={{ width: 160 }}>
+                        <Select.Option value={DIRECT_UPSTREAM}>Direct</Select.Option>
+                        {upstreamProxies.filter(Boolean).map((p) => (
+                          <Select.Option key={p.id} value={p.id}>{p.name || p.host}</Select.Option>
+                        ))}
+                      </Select>
+                    </Form.Item>
+                    <Button size="small" disabled={index === 0} onClick={() => move(index, index - 1)}>↑</Button>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Form.Item extra="Rules are checked in order; hosts matching no rule connect directly.">
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() => add({ hostPattern: '', upstreamId: DIRECT_UPSTREAM })}
+                  >
+                    Add Upstream Rule
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+
+          <Divider orientation="left">Protobuf / gRPC</Divider>
+
+          <Form.List name="protoFiles">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="baseline">
+                    <Form.Item name={field.name} rules={[{ required: true, message: 'Path is required' }]}>
+                      <Input placeholder="/path/to/service.proto or descriptor set (.pb)" style={{ width: 420 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Form.Item extra="gRPC and application/x-protobuf bodies are decoded to JSON using these definitions. Save again to reload changed files.">
+                  <Button type="dashed" icon={<PlusOutlined />} onClick={() => add('')}>
+                    Add Proto File
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+
+          <Form.List name="protoMappings">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="baseline" wrap>
+                    <Form.Item name={[field.name, 'urlPattern']} rules={[{ required: true, message: 'URL pattern is required' }]}>
+                      <Input placeholder="https://api.example.com/v1/*" style={{ width: 260 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'requestType']}>
+                      <Input placeholder="Request type (pkg.Message)" style={{ width: 200 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'responseType']}>
+                      <Input placeholder="Response type (pkg.Message)" style={{ width: 200 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Form.Item extra="Only needed for plain Protobuf over HTTP; gRPC message types are found from the service definitions.">
+                  <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ urlPattern: '' })}>
+                    Add Message Type Mapping
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+
+          <Divider orientation="left">Breakpoints</Divider>
+
+          <Form.List name="breakpoints">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="baseline" wrap>
+                    <Form.Item name={[field.name, 'id']} hidden>
+                      <Input />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'enabled']} valuePropName="checked">
+                      <Switch size="small" />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'phases']} rules={[{ required: true, message: 'Choose a phase' }]}>
+                      <Select mode="multiple" placeholder="Phase" style={{ width: 180 }}>
+                        <Select.Option value="request">Request</Select.Option>
+                        <Select.Option value="response">Response</Select.Option>
+                      </Select>
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'match', 'methods']}>
+                      <Select mode="multiple" placeholder="All methods" style={{ width: 150 }}>
+                        {['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'].map((m) => (
+                          <Select.Option key={m} value={m}>{m}</Select.Option>
+                        ))}
+                      </Select>
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'match', 'hostPatterns']}>
+                      <Select mode="tags" placeholder="*.example.com" style={{ width: 170 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'match', 'pathPatterns']}>
+                      <Select mode="tags" placeholder="/api/*" style={{ width: 150 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Form.Item extra="Matching requests pause before they are forwarded, or before the response is sent back; edit them from the Requests page.">
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() => add({ id: uuidv4(), enabled: true, phases: ['request'], match: {} })}
+                  >
+                    Add Breakpoint
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+
+          <Space align="baseline">
+            <Form.Item name="breakpointTimeoutSeconds" label="Breakpoint timeout (seconds)" initialValue={60}>
+              <InputNumber min={5} max={3600} style={{ width: 120 }} />
+            </Form.Item>
+            <Form.Item name="breakpointTimeoutAction" label="On timeout" initialValue="continue">
+              <Select style={{ width: 200 }}>
+                <Select.Option value="continue">Continue unchanged</Select.Option>
+                <Select.Option value="abort">Abort (502)</Select.Option>
+              </Select>
+            </Form.Item>
+          </Space>
+
           <Form.Item>
             <Button
               type="primary"
@@ -1,4 +1,4 @@
-import { RequestRecord, FlowDefinition, ComponentDefinition, AppConfig, ProxyStatus, ComponentDebugRequest, ComponentDebugResult, SystemProxyStatus, CertStatus, CertInstallResult, FlowDebugRequest, FlowDebugResult } from '../../shared/models';
+import { RequestRecord, FlowDefinition, ComponentDefinition, AppConfig, ProxyStatus, ComponentDebugRequest, ComponentDebugResult, SystemProxyStatus, CertStatus, CertInstallResult, FlowDebugRequest, FlowDebugResult, PendingBreakpoint, BreakpointResolution, ComposeRequest, ComposeResult, HarFileResult, CaptureSession, CaptureSessionList, Cassette } from '../../shared/models';
 
 declare global {
   interface Window {
@@ -12,13 +12,27 @@ declare global {
       getRequests: (filter?: any) => Promise<RequestRecord[]>;
       clearRequests: () => Promise<void>;
       getRequestById: (id: string) => Promise<RequestRecord | undefined>;
+      sendRequest: (payload: ComposeRequest) => Promise<ComposeResult>;
+      exportHar: (ids?: string[]) => Promise<HarFileResult>;
+      importHar: () => Promise<HarFileResult>;
+      getSessions: () => Promise<CaptureSessionList>;
+      newSession: (name?: string) => Promise<CaptureSession>;
+      openSession: (id: string) => Promise<boolean>;
+      renameSession: (id: string, name: string) => Promise<boolean>;
+      deleteSession: (id: string) => Promise<boolean>;
       onNewRequest: (callback: (record: RequestRecord) => void) => () => void;
+
+      // Breakpoints
+      getPendingBreakpoints: () => Promise<PendingBreakpoint[]>;
+      resolveBreakpoint: (id: string, resolution: BreakpointResolution) => Promise<boolean>;
+      onBreakpointsChanged: (callback: (pending: PendingBreakpoint[]) => void) => () => void;
       
       // Flow management
       getFlows: () => Promise<FlowDefinition[]>;
       saveFlow: (flow: FlowDefinition) => Promise<void>;
       deleteFlow: (id: string) => Promise<void>;
       toggleFlow: (id: string, enabled: boolean) => Promise<void>;
+      reorderFlows: (ids: string[]) => Promise<void>;
       debugFlow: (request: FlowDebugRequest) => Promise<FlowDebugResult>;
       
       // Component management
@@ -27,6 +41,13 @@ declare global {
       deleteComponent: (id: string) => Promise<void>;
       debugComponent: (request: ComponentDebugRequest) => Promise<ComponentDebugResult>;
 
+      // Cassettes (record / replay)
+      getCassettes: () => Promise<Cassette[]>;
+      saveCassette: (cassette: Cassette) => Promise<Cassette>;
+      deleteCassette: (id: string) => Promise<void>;
+      addRecordsToCassette: (cassetteId: string, recordIds: string[]) => Promise<number>;
+      deleteCassetteEntry: (cassetteId: string, entryId: string) => Promise<boolean>;
+
       // Certificates / HTTPS
       getCertStatus: () => Promise<CertStatus>;
       generateCA: () => Promise<CertStatus>;
@@ -3,12 +3,22 @@ export interface HttpHeaders {
   [key: string]: string;
 }
 
+// body 字符串的编码：base64 用于无法按 UTF-8 无损表示的二进制内容；
+// 文本 body 不设置 bodyEncoding（undefined 即 UTF-8 文本），判断时只比较是否为 base64
+export type BodyEncoding = 'base64';
+
 export interface HttpRequest {
   id: string;
   method: string;
   url: string;
   headers: HttpHeaders;
-  body?: string;  // 原始 body（存储为字符串）
+  body?: string;  // 原始 body（存储为字符串，编码见 bodyEncoding）
+  bodyEncoding?: BodyEncoding;  // 缺省（undefined）为 UTF-8 文本
+  contentType?: string;     // body 的 MIME 类型（不含参数），来自 Content-Type
+  bodySize?: number;        // body 实际字节数（流式转发时 body 可能只是前一部分）
+  bodyTruncated?: boolean;  // body 只记录了前一部分
+  bodyOffloaded?: boolean;  // 大 body 单独存放在会话目录中，按 id 查询记录时读回
+  protobuf?: ProtobufBodyInfo;  // body 是由 Protobuf 解码得到的 JSON
   timestamp: number;
   clientIp?: string;
   clientPort?: number;
@@ -18,8 +28,56 @@ export interface HttpResponse {
   statusCode: number;
   statusMessage?: string;
   headers: HttpHeaders;
-  // 文本类主体（仅用于展示 / 调试）；二进制内容通常为空
+  // 主体：文本按 UTF-8 保存，二进制内容以 base64 保存（bodyEncoding）
   body?: string;
+  bodyEncoding?: BodyEncoding;
+  contentType?: string;
+  bodySize?: number;
+  bodyTruncated?: boolean;
+  bodyOffloaded?: boolean;
+  protobuf?: ProtobufBodyInfo;
+  trailers?: HttpHeaders;  // HTTP/2（如 gRPC）或分块响应的 trailers
+}
+
+// Protobuf / gRPC body 解码信息：body 被改写后按它重新编码
+export interface ProtobufBodyInfo {
+  messageType: string;        // 完整消息类型名，如 helloworld.HelloRequest
+  grpc?: boolean;             // gRPC 分帧格式；多条消息时 body 为 JSON 数组
+  grpcWebTrailers?: string;   // gRPC-Web 响应 body 末尾的 trailers 帧
+}
+
+// WebSocket 帧
+export type WebSocketDirection = 'client_to_server' | 'server_to_client';
+
+export interface WebSocketFrame {
+  direction: WebSocketDirection;
+  opcode: number;          // 1 = text, 2 = binary, 8 = close, 9 = ping, 10 = pong, 0 = continuation
+  payload: string;         // 文本帧为原文，其余为 base64
+  payloadEncoding: 'text' | 'base64';
+  dropped?: boolean;       // Flow 组件置为 true 时该帧不再转发
+  delayMs?: number;        // Flow 组件设置后该帧延迟转发，同方向后续的帧随之顺延
+}
+
+export interface WebSocketFrameRecord extends WebSocketFrame {
+  timestamp: number;
+  size: number;            // 原始 payload 字节数
+  modified?: boolean;
+}
+
+export interface WebSocketSession {
+  frames: WebSocketFrameRecord[];
+  framesTruncated?: boolean;  // 超过上限后丢弃了最早的帧
+  closedAt?: number;
+}
+
+// Retry Hint 生效时每次转发上游的结果
+export interface RequestAttempt {
+  attempt: number;      // 从 1 开始
+  startedAt: number;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;       // 网络错误
+  retryDelayMs?: number; // 之后等待多久发起下一次重试，最后一次没有
 }
 
 // 最近请求记录
@@ -29,13 +87,30 @@ export interface RequestRecord {
   response?: HttpResponse;
   durationMs?: number;
   matchedFlowId?: string;
+  // WebSocket 握手请求附带逐帧日志
+  websocket?: WebSocketSession;
+  // 客户端到代理、代理到上游使用的协议，如 'http/1.1'、'h2'
+  protocol?: string;
+  upstreamProtocol?: string;
+  // 由 Resend / Compose 发出的请求，指向原始记录
+  resentFromId?: string;
+  // 配置了重试时的每次上游尝试
+  attempts?: RequestAttempt[];
+  // 匹配的 Flow 在请求 / 响应阶段逐节点的执行轨迹
+  flowTrace?: FlowTraceStep[];
+  // 从 HAR 导入的只读记录
+  imported?: boolean;
 }
 
 // 流程节点类型
 export type NodeType =
   | "entry"
+  | "response_entry"
+  | "frame_entry"
   | "component"
   | "condition"
+  | "switch"
+  | "subflow"
   | "terminator";
 
 export interface FlowNodeBase {
@@ -47,8 +122,45 @@ export interface FlowNodeBase {
 
 export interface FlowMatchRule {
   methods?: string[];       // ["GET", "POST"]
-  hostPatterns?: string[];  // 支持通配符，例如 "*.example.com"
-  pathPatterns?: string[];  // "/api/*"
+  hostPatterns?: string[];  // 支持通配符，例如 "*.example.com"；以 ! 开头表示排除
+  pathPatterns?: string[];  // "/api/*"；以 ! 开头表示排除
+  // hostPatterns / pathPatterns 按通配符（默认）还是正则匹配
+  patternMode?: MatchPatternMode;
+  // 扩展条件，与上面的条件同时满足
+  conditions?: FlowMatchGroup;
+}
+
+export type MatchPatternMode = 'wildcard' | 'regex';
+
+export type MatchConditionField =
+  | 'method'
+  | 'host'
+  | 'path'
+  | 'url'
+  | 'header'    // name 为 header 名
+  | 'query'     // name 为 query 参数名
+  | 'body'      // 请求 body 文本；jsonPath 操作时 name 为 JSONPath
+  | 'clientIp'
+  | 'port'      // 目标端口，未写明时按 scheme 取 80 / 443
+  | 'scheme';
+
+// exists 不需要 value；jsonPath 只用于 body，value 为空时只判断路径存在
+export type MatchConditionOperator = 'equals' | 'contains' | 'wildcard' | 'regex' | 'exists' | 'jsonPath';
+
+export interface FlowMatchCondition {
+  field: MatchConditionField;
+  operator: MatchConditionOperator;
+  name?: string;
+  value?: string;
+  negate?: boolean;
+}
+
+// 条件组：and 要求全部满足，or 要求任一满足；空的组视为满足
+export interface FlowMatchGroup {
+  combinator: 'and' | 'or';
+  negate?: boolean;
+  conditions: FlowMatchCondition[];
+  groups?: FlowMatchGroup[];
 }
 
 export interface EntryNode extends FlowNodeBase {
@@ -56,6 +168,16 @@ export interface EntryNode extends FlowNodeBase {
   match: FlowMatchRule;
 }
 
+// 响应阶段入口：上游返回后从该节点继续执行同一个 Flow（沿用 Entry 的匹配结果和 ctx.vars）
+export interface ResponseEntryNode extends FlowNodeBase {
+  type: "response_entry";
+}
+
+// WebSocket 帧入口：握手匹配到该 Flow 后，每个数据帧都会从该节点执行一次（ctx.frame）
+export interface FrameEntryNode extends FlowNodeBase {
+  type: "frame_entry";
+}
+
 export interface ComponentNode extends FlowNodeBase {
   type: "component";
   componentId: string;
@@ -67,12 +189,36 @@ export interface ConditionNode extends FlowNodeBase {
   expression: string;
 }
 
+// Switch 的默认分支连线的 conditionLabel，表达式的值不在 cases 中时走这条连线
+export const SWITCH_DEFAULT_LABEL = "default";
+
+// 多分支：表达式的值（转为字符串）等于某个 case 时走 conditionLabel 相同的连线
+export interface SwitchNode extends FlowNodeBase {
+  type: "switch";
+  expression: string;
+  cases: string[];
+}
+
+// 子 Flow：以当前 ctx 执行另一个 Flow，子 Flow 终止时当前 Flow 也随之终止
+export interface SubFlowNode extends FlowNodeBase {
+  type: "subflow";
+  flowId: string;
+}
+
 export interface TerminatorNode extends FlowNodeBase {
   type: "terminator";
   mode: "end_with_response" | "pass_through";
 }
 
-export type FlowNode = EntryNode | ComponentNode | ConditionNode | TerminatorNode;
+export type FlowNode =
+  | EntryNode
+  | ResponseEntryNode
+  | FrameEntryNode
+  | ComponentNode
+  | ConditionNode
+  | SwitchNode
+  | SubFlowNode
+  | TerminatorNode;
 
 export interface FlowEdge {
   id: string;
@@ -81,12 +227,47 @@ export interface FlowEdge {
   conditionLabel?: string;
 }
 
+export type FlowBodyMode = 'buffered' | 'streaming';
+
+export type FlowPhase = 'request' | 'response' | 'frame';
+
+// 节点对 ctx 的一处改动，path 如 request.url、request.headers.x-token、response.body、vars.userId
+export interface FlowTraceChange {
+  path: string;
+  before?: any;   // 不存在时省略；body 等长文本只保留开头部分
+  after?: any;
+}
+
+// Flow 执行轨迹中的一步：按执行顺序记录经过的每个节点
+export interface FlowTraceStep {
+  flowId?: string;     // 多个 Flow 依次执行（continueToNext）时区分节点所属的 Flow
+  flowName?: string;
+  nodeId: string;
+  nodeType: NodeType;
+  nodeName: string;
+  phase: FlowPhase;
+  conditionResult?: boolean;     // 条件节点的求值结果
+  branch?: string;               // Switch 节点选择的分支
+  matchedBy?: string[];          // Entry 节点：命中的匹配条件
+  durationMs?: number;           // 组件节点的执行耗时
+  changes?: FlowTraceChange[];   // 组件节点对 request / response / vars 的改动
+  error?: string;                // 组件出错或条件表达式出错
+  terminated?: boolean;          // 组件要求终止后续节点
+}
+
 export interface FlowDefinition {
   id: string;
   name: string;
   enabled: boolean;
   nodes: FlowNode[];
   edges: FlowEdge[];
+  // 组件是否需要完整 body：buffered（默认）读完整个 body 再执行；
+  // streaming 只基于 headers 执行，body 边到达边转发（适合 SSE、长轮询、大文件）
+  bodyMode?: FlowBodyMode;
+  // 匹配顺序，越小越先匹配；在 Flows 页面拖拽调整
+  order?: number;
+  // 执行完且没有给出响应时，继续执行下一个匹配的 Flow（沿用改写后的请求和 ctx.vars）
+  continueToNext?: boolean;
   createdAt: number;
   updatedAt: number;
 }
@@ -105,6 +286,9 @@ export interface ComponentParamDefinition {
   description?: string;
 }
 
+// 脚本组件可以使用的能力，默认都不开放
+export type ScriptCapability = 'crypto' | 'buffer' | 'fetch' | 'timers';
+
 export interface ComponentDefinition {
   id: string;
   name: string;
@@ -116,12 +300,18 @@ export interface ComponentDefinition {
   scriptCode?: string;
   internalName?: string;
   description?: string;
+  // 脚本组件：开放的能力，以及单次执行的时间（ms）与内存（MB）上限
+  capabilities?: ScriptCapability[];
+  timeoutMs?: number;
+  memoryLimitMB?: number;
 }
 
 // 组件执行上下文
 export interface ComponentContext {
   request: HttpRequest;
   response?: HttpResponse;
+  // 仅在 WebSocket 帧阶段存在
+  frame?: WebSocketFrame;
   vars: Record<string, any>;
   log: (msg: string) => void;
 }
@@ -129,6 +319,7 @@ export interface ComponentContext {
 export interface ComponentResult {
   request?: HttpRequest;
   response?: HttpResponse;
+  frame?: WebSocketFrame;
   vars?: Record<string, any>;
   terminate?: boolean;
 }
@@ -145,12 +336,28 @@ export const IPC_CHANNELS = {
   REQUESTS_CLEAR: 'requests:clear',
   REQUESTS_NEW: 'requests:new',
   REQUEST_GET_BY_ID: 'request:getById',
+  REQUEST_SEND: 'request:send',
+  REQUESTS_EXPORT_HAR: 'requests:exportHar',
+  REQUESTS_IMPORT_HAR: 'requests:importHar',
+
+  // 抓包会话
+  SESSIONS_GET: 'sessions:get',
+  SESSION_NEW: 'session:new',
+  SESSION_OPEN: 'session:open',
+  SESSION_RENAME: 'session:rename',
+  SESSION_DELETE: 'session:delete',
+
+  // 断点：等待处理的断点列表（主进程推送）与继续 / 中止 / Mock
+  BREAKPOINTS_GET: 'breakpoints:get',
+  BREAKPOINTS_CHANGED: 'breakpoints:changed',
+  BREAKPOINT_RESOLVE: 'breakpoint:resolve',
   
   // 流程管理
   FLOWS_GET: 'flows:get',
   FLOW_SAVE: 'flow:save',
   FLOW_DELETE: 'flow:delete',
   FLOW_TOGGLE: 'flow:toggle',
+  FLOW_REORDER: 'flow:reorder',
   FLOW_DEBUG: 'flow:debug',
   
   // 组件管理
@@ -158,6 +365,13 @@ export const IPC_CHANNELS = {
   COMPONENT_SAVE: 'component:save',
   COMPONENT_DELETE: 'component:delete',
   COMPONENT_DEBUG: 'component:debug',
+
+  // 录制 / 回放（Cassette）
+  CASSETTES_GET: 'cassettes:get',
+  CASSETTE_SAVE: 'cassette:save',
+  CASSETTE_DELETE: 'cassette:delete',
+  CASSETTE_ADD_RECORDS: 'cassette:addRecords',
+  CASSETTE_DELETE_ENTRY: 'cassette:deleteEntry',
   
   // 证书 / HTTPS
   CERT_STATUS: 'cert:status',
@@ -176,7 +390,10 @@ export const IPC_CHANNELS = {
 // 应用配置
 export interface AppConfig {
   proxyPort: number;
+  // 当前会话保留的记录数上限，以及可选的保留天数、总大小上限（MB），超出时删除最旧的记录
   maxRequestRecords: number;
+  recordRetentionDays?: number;
+  recordRetentionMaxMB?: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   // 首选界面语言（可选；未设置时由前端根据系统语言自动选择）
   language?: 'en' | 'zh-CN';
@@ -184,6 +401,97 @@ export interface AppConfig {
   httpsMitmEnabled?: boolean;
   // 是否自动将系统 HTTP/HTTPS 代理指向 FlowProxy
   systemProxyEnabled?: boolean;
+  // 是否同时启用 SOCKS5 监听，以及监听端口
+  socksEnabled?: boolean;
+  socksPort?: number;
+  // 反向代理监听：客户端直接访问本地端口，请求固定转发到目标源站
+  reverseProxies?: ReverseProxyListener[];
+  // 上游代理（代理链）
+  upstreamProxies?: UpstreamProxy[];
+  // 按 Host 选择直连或某个上游代理，按顺序匹配，未命中时直连
+  upstreamRules?: UpstreamRule[];
+  // .proto 文件或 descriptor set（protoc --descriptor_set_out）的路径
+  protoFiles?: string[];
+  // 按 URL 指定 Protobuf 消息类型（gRPC 可由服务定义自动识别，无需映射）
+  protoMappings?: ProtoMapping[];
+  // 断点规则，以及断点无人处理时的超时时间（秒）和超时后的动作
+  breakpoints?: BreakpointRule[];
+  breakpointTimeoutSeconds?: number;
+  breakpointTimeoutAction?: BreakpointTimeoutAction;
+  // 全局网络环境模拟（Flow 中的 Bandwidth Throttle 组件可覆盖）
+  networkProfile?: NetworkProfileId;
+  customNetworkConditions?: NetworkConditions;
+}
+
+// 反向代理监听
+export interface ReverseProxyListener {
+  id: string;
+  name: string;
+  enabled: boolean;
+  listenPort: number;
+  targetOrigin: string;     // 如 https://staging.api.example.com
+  // 是否以 HTTPS 监听（证书由本地 CA 签发）
+  tls?: boolean;
+  tlsHostname?: string;     // 证书域名，默认 localhost
+  // 是否保留客户端的 Host 头，默认改写为目标源站的 Host
+  preserveHost?: boolean;
+}
+
+// 上游代理
+export type UpstreamProxyType = 'http' | 'socks5';
+
+export interface UpstreamProxy {
+  id: string;
+  name: string;
+  type: UpstreamProxyType;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+// upstreamId 为 'direct' 时表示直连
+export const DIRECT_UPSTREAM = 'direct';
+
+export interface UpstreamRule {
+  hostPattern: string;   // 通配符，如 *.corp.example.com
+  upstreamId: string;
+}
+
+export interface ProtoMapping {
+  urlPattern: string;     // 通配符，匹配完整 URL
+  requestType?: string;
+  responseType?: string;
+}
+
+// 断点：匹配的请求在转发上游前 / 响应在回写客户端前暂停，等待在 Requests 页面编辑
+export type BreakpointPhase = 'request' | 'response';
+
+export interface BreakpointRule {
+  id: string;
+  enabled: boolean;
+  match: FlowMatchRule;
+  phases: BreakpointPhase[];
+}
+
+export type BreakpointTimeoutAction = 'continue' | 'abort';
+
+export interface PendingBreakpoint {
+  id: string;
+  recordId: string;
+  phase: BreakpointPhase;
+  request: HttpRequest;
+  response?: HttpResponse;  // 仅响应阶段
+  pausedAt: number;
+  expiresAt: number;        // 超过该时间按 breakpointTimeoutAction 自动处理
+}
+
+export interface BreakpointResolution {
+  action: 'continue' | 'abort' | 'mock';
+  // 请求阶段 continue 时编辑后的请求；省略表示不修改
+  request?: HttpRequest;
+  // 响应阶段 continue 时编辑后的响应，或 mock 时直接返回给客户端的响应
+  response?: HttpResponse;
 }
 
 // 证书状态
@@ -255,6 +563,7 @@ export interface FlowDebugResult {
   success: boolean;
   errorMessage?: string;
   logs: string[];
+  trace?: FlowTraceStep[];
   before: {
     request: HttpRequest;
     response?: HttpResponse;
@@ -265,6 +574,100 @@ export interface FlowDebugResult {
   };
 }
 
+// 重发 / 编辑后发送接口
+export interface ComposeRequest {
+  // 编辑后的请求，或原始 HTTP 文本（与 Debug 相同的格式），二选一
+  request?: Pick<HttpRequest, 'method' | 'url' | 'headers' | 'body' | 'bodyEncoding'>;
+  rawHttpText?: string;
+  // 是否执行匹配的 Flow（请求阶段与响应阶段）
+  applyFlows: boolean;
+  sourceRecordId?: string;
+}
+
+export interface ComposeResult {
+  success: boolean;
+  errorMessage?: string;
+  record?: RequestRecord;
+}
+
+// HAR 导出 / 导入结果（文件通过系统对话框选择）
+export interface HarFileResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  count?: number;
+  errorMessage?: string;
+}
+
+// 抓包会话：记录持久化在 userData/sessions/<id> 下，同一时间只有一个会话在记录
+export interface CaptureSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  recordCount: number;
+  sizeBytes: number;
+}
+
+export interface CaptureSessionList {
+  activeSessionId: string;
+  sessions: CaptureSession[];
+}
+
+// Cassette：按 Host 录制的请求 / 响应对，由 replayFromCassette 组件离线回放
+export interface CassetteEntry {
+  id: string;
+  method: string;
+  url: string;
+  bodyHash?: string;        // 请求 body 的 sha256，strict 匹配时使用
+  response: HttpResponse;   // 上游原始响应（body 为解压后的内容）
+  recordedAt: number;
+}
+
+export interface Cassette {
+  id: string;
+  name: string;
+  // 录制开启时，Host 命中这些通配符的流量会追加到 Cassette（写法同 Entry 节点）
+  hostPatterns: string[];
+  recording: boolean;
+  entries: CassetteEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 回放匹配的严格程度：loose 为 method + host + path，normal 再加规范化后的 query，strict 再加 body hash
+export type CassetteMatchMode = 'loose' | 'normal' | 'strict';
+
+// 未命中时：forward 继续执行 Flow（通常转发上游），not_found 返回 404，error 返回 502
+export type CassetteMissPolicy = 'forward' | 'not_found' | 'error';
+
+// 网络环境模拟：上下行限速（KB/s，0 表示不限）、每个数据块的额外延迟，以及按概率出现的卡顿（模拟丢包重传）
+export interface NetworkConditions {
+  downloadKBps: number;
+  uploadKBps: number;
+  latencyMs: number;
+  stallRate: number;        // 0–1，每个数据块出现卡顿的概率
+  stallMs: number;
+}
+
+export type NetworkProfileId = 'none' | '3g' | 'edge' | 'flaky_wifi' | 'custom';
+
+// 预设的网络环境；custom 使用 AppConfig.customNetworkConditions
+export const NETWORK_PROFILES: Record<'3g' | 'edge' | 'flaky_wifi', { label: string; conditions: NetworkConditions }> = {
+  '3g': {
+    label: '3G',
+    conditions: { downloadKBps: 200, uploadKBps: 90, latencyMs: 150, stallRate: 0, stallMs: 0 },
+  },
+  edge: {
+    label: 'Edge',
+    conditions: { downloadKBps: 30, uploadKBps: 15, latencyMs: 400, stallRate: 0, stallMs: 0 },
+  },
+  flaky_wifi: {
+    label: 'Flaky Wi-Fi',
+    conditions: { downloadKBps: 1000, uploadKBps: 500, latencyMs: 30, stallRate: 0.05, stallMs: 2000 },
+  },
+};
+
 // 代理状态
 export interface ProxyStatus {
   running: boolean;
@@ -0,0 +1,10 @@
+import Module = require('module');
+
+// 主进程模块在普通 Node 中测试：electron 的 API 只在 Electron 运行时中存在，这里以空模块代替；
+// 需要在被测模块之前 import
+const moduleWithLoad = Module as unknown as { _load: (request: string, ...args: unknown[]) => unknown };
+const originalLoad = moduleWithLoad._load;
+moduleWithLoad._load = function (request: string, ...args: unknown[]) {
+  if (request === 'electron') return {};
+  return originalLoad.call(this, request, ...args);
+};
@@ -0,0 +1,124 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mapLocal } from '../../../src/main/components/mapLocal';
+import { ComponentContext } from '../../../src/shared/models';
+
+function context(url: string, headers: Record<string, string> = {}, method = 'GET'): ComponentContext {
+  return {
+    request: { id: 'r1', method, url, headers, timestamp: Date.now() },
+    vars: {},
+    log: () => undefined,
+  };
+}
+
+describe('mapLocal', () => {
+  let root: string;
+  let config: Record<string, string>;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'map-local-'));
+    fs.mkdirSync(path.join(root, 'site', 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'site', 'index.html'), '<h1>home</h1>');
+    fs.writeFileSync(path.join(root, 'site', 'app.js'), 'console.log(1);');
+    fs.writeFileSync(path.join(root, 'site', 'docs', 'index.html'), '<h1>docs</h1>');
+    fs.writeFileSync(path.join(root, 'site', 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff]));
+    // 映射目录之外的文件
+    fs.writeFileSync(path.join(root, 'secret.txt'), 'secret');
+    config = { urlPrefix: 'https://cdn.example.com/app/*', directory: path.join(root, 'site') };
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('serves files below the prefix', async () => {
+    const result = await mapLocal(config, context('https://cdn.example.com/app/app.js?v=1'));
+    assert.equal(result.terminate, true);
+    assert.equal(result.response?.statusCode, 200);
+    assert.equal(result.response?.body, 'console.log(1);');
+    assert.equal(result.response?.headers['content-type'], 'text/javascript; charset=utf-8');
+  });
+
+  it('returns binary files as base64', async () => {
+    const result = await mapLocal(config, context('https://cdn.example.com/app/logo.png'));
+    assert.equal(result.response?.bodyEncoding, 'base64');
+    assert.deepEqual(Buffer.from(result.response!.body!, 'base64'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff]));
+  });
+
+  it('serves the index file for the prefix itself and for directories', async () => {
+    const withoutSlash = { ...config, urlPrefix: 'https://cdn.example.com/app' };
+    assert.equal((await mapLocal(withoutSlash, context('https://cdn.example.com/app'))).response?.body, '<h1>home</h1>');
+    assert.equal((await mapLocal(config, context('https://cdn.example.com/app/'))).response?.body, '<h1>home</h1>');
+    assert.equal((await mapLocal(config, context('https://cdn.example.com/app/docs/'))).response?.body, '<h1>docs</h1>');
+  });
+
+  it('matches the prefix on path segment boundaries', async () => {
+    const prefixConfig = { ...config, urlPrefix: 'https://cdn.example.com/app' };
+    assert.deepEqual(await mapLocal(prefixConfig, context('https://cdn.example.com/application/app.js')), {});
+    assert.deepEqual(await mapLocal(prefixConfig, context('https://cdn.example.com/apps')), {});
+    assert.equal((await mapLocal(prefixConfig, context('https://cdn.example.com/app/app.js'))).response?.body, 'console.log(1);');
+  });
+
+  it('accepts a prefix that ends with a slash', async () => {
+    const result = await mapLocal({ ...config, urlPrefix: 'https://cdn.example.com/app/' }, context('https://cdn.example.com/app/app.js'));
+    assert.equal(result.response?.body, 'console.log(1);');
+  });
+
+  it('ignores other origins and methods', async () => {
+    assert.deepEqual(await mapLocal(config, context('https://other.example.com/app/app.js')), {});
+    assert.deepEqual(await mapLocal(config, context('http://cdn.example.com/app/app.js')), {});
+    assert.deepEqual(await mapLocal(config, context('https://cdn.example.com/app/app.js', {}, 'POST')), {});
+  });
+
+  it('rejects paths that escape the directory', async () => {
+    // 编码后的 / 不会被 URL 解析器规整，解码后越出目录
+    for (const url of [
+      'https://cdn.example.com/app/..%2fsecret.txt',
+      'https://cdn.example.com/app/docs/..%2f..%2fsecret.txt',
+      'https://cdn.example.com/app/%00.js',
+    ]) {
+      const result = await mapLocal(config, context(url));
+      assert.equal(result.response?.statusCode, 403, url);
+    }
+  });
+
+  it('never serves files outside the directory through dot segments', async () => {
+    // URL 解析器先规整 .. 和 %2e%2e，规整后不在前缀下的请求不处理
+    for (const url of [
+      'https://cdn.example.com/app/../secret.txt',
+      'https://cdn.example.com/app/%2e%2e/secret.txt',
+    ]) {
+      assert.deepEqual(await mapLocal(config, context(url)), {}, url);
+    }
+  });
+
+  it('returns 404 for missing files, or forwards when configured', async () => {
+    const missing = await mapLocal(config, context('https://cdn.example.com/app/missing.js'));
+    assert.equal(missing.response?.statusCode, 404);
+    assert.deepEqual(await mapLocal({ ...config, onMiss: 'forward' }, context('https://cdn.example.com/app/missing.js')), {});
+  });
+
+  it('answers conditional requests with 304', async () => {
+    const first = await mapLocal(config, context('https://cdn.example.com/app/app.js'));
+    const etag = first.response!.headers['etag'];
+    const second = await mapLocal(config, context('https://cdn.example.com/app/app.js', { 'if-none-match': etag }));
+    assert.equal(second.response?.statusCode, 304);
+    assert.equal(second.response?.body, undefined);
+  });
+
+  it('serves byte ranges', async () => {
+    const partial = await mapLocal(config, context('https://cdn.example.com/app/app.js', { range: 'bytes=0-6' }));
+    assert.equal(partial.response?.statusCode, 206);
+    assert.equal(partial.response?.body, 'console');
+    assert.equal(partial.response?.headers['content-range'], 'bytes 0-6/15');
+
+    const suffix = await mapLocal(config, context('https://cdn.example.com/app/app.js', { range: 'bytes=-3' }));
+    assert.equal(suffix.response?.body, '1);');
+
+    const invalid = await mapLocal(config, context('https://cdn.example.com/app/app.js', { range: 'bytes=100-' }));
+    assert.equal(invalid.response?.statusCode, 416);
+  });
+});
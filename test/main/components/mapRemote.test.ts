@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MapRemoteMapping, mapRemote, rewriteMappedResponseHeaders } from '../../../src/main/components/mapRemote';
+import { ComponentContext } from '../../../src/shared/models';
+
+function context(url: string): ComponentContext {
+  return {
+    request: { id: 'r1', method: 'GET', url, headers: { host: new URL(url).host, accept: '*/*' }, timestamp: Date.now() },
+    vars: {},
+    log: () => undefined,
+  };
+}
+
+const config = { pattern: 'https://api\\.prod\\.com/v1/(.*)', target: 'http://localhost:3000/api/$1' };
+
+describe('mapRemote', () => {
+  it('rewrites the URL with capture groups and keeps the query', async () => {
+    const result = await mapRemote(config, context('https://api.prod.com/v1/users/7?expand=1'));
+    assert.equal(result.request?.url, 'http://localhost:3000/api/users/7?expand=1');
+    assert.equal(result.request?.headers['host'], 'localhost:3000');
+    assert.equal(result.request?.headers['accept'], '*/*');
+  });
+
+  it('drops the query or keeps the Host header when configured', async () => {
+    const result = await mapRemote({ ...config, keepQuery: false, preserveHost: true }, context('https://api.prod.com/v1/users?x=1'));
+    assert.equal(result.request?.url, 'http://localhost:3000/api/users');
+    assert.equal(result.request?.headers['host'], 'api.prod.com');
+  });
+
+  it('leaves requests that do not match untouched', async () => {
+    assert.deepEqual(await mapRemote(config, context('https://api.prod.com/v2/users')), {});
+    assert.deepEqual(await mapRemote(config, context('https://cdn.prod.com/v1/users')), {});
+  });
+
+  it('records the base URLs on both sides for the response rewrite', async () => {
+    const result = await mapRemote(config, context('https://api.prod.com/v1/users/7'));
+    assert.deepEqual(result.vars?.mapRemote, {
+      originalUrl: 'https://api.prod.com/v1/users/7',
+      mappedUrl: 'http://localhost:3000/api/users/7',
+      originalBase: 'https://api.prod.com/v1',
+      mappedBase: 'http://localhost:3000/api',
+    });
+  });
+
+  it('skips the response mapping when rewriteResponse is off', async () => {
+    const result = await mapRemote({ ...config, rewriteResponse: false }, context('https://api.prod.com/v1/users'));
+    assert.equal(result.vars, undefined);
+  });
+});
+
+describe('rewriteMappedResponseHeaders', () => {
+  const mapping: MapRemoteMapping = {
+    originalUrl: 'https://api.prod.com/v1/users/7',
+    mappedUrl: 'http://localhost:3000/api/users/7',
+    originalBase: 'https://api.prod.com/v1',
+    mappedBase: 'http://localhost:3000/api',
+  };
+
+  it('maps absolute and relative Location headers back to the original base', () => {
+    assert.equal(
+      rewriteMappedResponseHeaders({ location: 'http://localhost:3000/api/users/8' }, mapping)['location'],
+      'https://api.prod.com/v1/users/8'
+    );
+    assert.equal(
+      rewriteMappedResponseHeaders({ location: '/api/login?next=%2F' }, mapping)['location'],
+      'https://api.prod.com/v1/login?next=%2F'
+    );
+    assert.equal(rewriteMappedResponseHeaders({ location: 'profile' }, mapping)['location'], 'https://api.prod.com/v1/users/profile');
+  });
+
+  it('maps locations outside the base to the original origin and leaves other hosts alone', () => {
+    assert.equal(
+      rewriteMappedResponseHeaders({ location: 'http://localhost:3000/static/a.js' }, mapping)['location'],
+      'https://api.prod.com/static/a.js'
+    );
+    assert.equal(
+      rewriteMappedResponseHeaders({ location: 'https://sso.example.com/login' }, mapping)['location'],
+      'https://sso.example.com/login'
+    );
+  });
+
+  it('does not treat a sibling path as inside the base', () => {
+    assert.equal(
+      rewriteMappedResponseHeaders({ location: 'http://localhost:3000/apis/x' }, mapping)['location'],
+      'https://api.prod.com/apis/x'
+    );
+  });
+
+  it('rewrites Set-Cookie Domain and Path', () => {
+    const headers = rewriteMappedResponseHeaders(
+      { 'set-cookie': 'sid=1; Domain=localhost; Path=/api/users; HttpOnly, theme=dark; Domain=.other.com; Path=/' },
+      mapping
+    );
+    assert.equal(
+      headers['set-cookie'],
+      'sid=1; Domain=api.prod.com; Path=/v1/users; HttpOnly, theme=dark; Domain=.other.com; Path=/'
+    );
+  });
+
+  it('drops Secure when the original side is plain http', () => {
+    const reversed: MapRemoteMapping = {
+      originalUrl: 'http://localhost:3000/api/users',
+      mappedUrl: 'https://api.prod.com/v1/users',
+      originalBase: 'http://localhost:3000/api',
+      mappedBase: 'https://api.prod.com/v1',
+    };
+    const headers = rewriteMappedResponseHeaders({ 'set-cookie': 'sid=1; Path=/v1; Secure; HttpOnly' }, reversed);
+    assert.equal(headers['set-cookie'], 'sid=1; Path=/api; HttpOnly');
+  });
+
+  it('returns other headers unchanged', () => {
+    const headers = { 'content-type': 'application/json', 'x-request-id': 'abc' };
+    assert.deepEqual(rewriteMappedResponseHeaders(headers, mapping), headers);
+  });
+});
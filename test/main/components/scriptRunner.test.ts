@@ -0,0 +1,204 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { executeScriptComponent } from '../../../src/main/components/scriptRunner';
+import { ComponentContext, ScriptCapability } from '../../../src/shared/models';
+
+const ALL_CAPABILITIES: ScriptCapability[] = ['crypto', 'buffer', 'fetch', 'timers'];
+
+function context(logs: string[] = []): ComponentContext {
+  return {
+    request: { id: 'r1', method: 'GET', url: 'https://example.com/a', headers: { accept: '*/*' }, timestamp: 0 },
+    vars: { user: 'ann' },
+    log: (msg) => logs.push(msg),
+  };
+}
+
+// 脚本的返回值写在 vars.out 中
+async function evaluate(code: string, capabilities: ScriptCapability[] = [], timeoutMs?: number): Promise<any> {
+  const result = await executeScriptComponent(
+    `async function run(config, ctx) { return { vars: { out: await (async () => { ${code} })() } }; }`,
+    {},
+    context(),
+    { capabilities, timeoutMs }
+  );
+  return result.vars?.out;
+}
+
+describe('executeScriptComponent', () => {
+  it('runs run(config, ctx) and returns its result', async () => {
+    const logs: string[] = [];
+    const result = await executeScriptComponent(
+      `async function run(config, ctx) {
+        console.log('user', ctx.vars.user);
+        ctx.log(config.header);
+        return { request: { ...ctx.request, headers: { ...ctx.request.headers, [config.header]: '1' } } };
+      }`,
+      { header: 'x-script' },
+      context(logs)
+    );
+    assert.deepEqual(result.request?.headers, { accept: '*/*', 'x-script': '1' });
+    assert.deepEqual(logs, ['user ann', 'x-script']);
+  });
+
+  it('returns the modified ctx when the script defines no run function', async () => {
+    const result = await executeScriptComponent(`ctx.vars.seen = true; ctx.request.url += '?b=1';`, {}, context());
+    assert.equal(result.request?.url, 'https://example.com/a?b=1');
+    assert.deepEqual(result.vars, { user: 'ann', seen: true });
+  });
+
+  it('rejects with the script error or timeout', async () => {
+    await assert.rejects(evaluate(`throw new Error('boom')`), /^Error: boom$/);
+    await assert.rejects(evaluate(`return {`), /Unexpected token/);
+    await assert.rejects(evaluate(`for (;;) {}`, [], 300), /timed out after 300ms/);
+  });
+});
+
+describe('script capabilities', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ method: req.method, path: req.url }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('provides no capabilities unless granted', async () => {
+    assert.deepEqual(
+      await evaluate(`return [typeof Buffer, typeof crypto, typeof fetch, typeof setTimeout, typeof require, typeof process];`),
+      ['undefined', 'undefined', 'undefined', 'undefined', 'undefined', 'undefined']
+    );
+  });
+
+  it('converts Buffer data between encodings', async () => {
+    const out = await evaluate(
+      `const bytes = Buffer.from('héllo', 'utf8');
+      return [bytes.length, bytes.toString('base64'), Buffer.from('aGk=', 'base64').toString(), Buffer.concat([bytes, Buffer.alloc(1)]).length,
+        Buffer.isBuffer(bytes), Buffer.byteLength('€')];`,
+      ['buffer']
+    );
+    assert.deepEqual(out, [6, Buffer.from('héllo').toString('base64'), 'hi', 7, true, 3]);
+  });
+
+  it('computes hashes, HMACs and random values', async () => {
+    const out = await evaluate(
+      `return [crypto.createHash('sha256').update('a').update('b').digest('hex'),
+        crypto.createHmac('sha1', 'key').update('data').digest('base64'),
+        crypto.randomBytes(8).length, crypto.randomUUID().length];`,
+      ['crypto']
+    );
+    assert.deepEqual(out, [
+      crypto.createHash('sha256').update('ab').digest('hex'),
+      crypto.createHmac('sha1', 'key').update('data').digest('base64'),
+      8,
+      36,
+    ]);
+  });
+
+  it('runs and clears timers', async () => {
+    const out = await evaluate(
+      `const order = [];
+      const cleared = setTimeout(() => order.push('cleared'), 5);
+      clearTimeout(cleared);
+      await new Promise((resolve) => setTimeout((value) => { order.push(value); resolve(); }, 10, 'fired'));
+      return order;`,
+      ['timers']
+    );
+    assert.deepEqual(out, ['fired']);
+  });
+
+  it('fetches over http and rejects other protocols', async () => {
+    const out = await evaluate(
+      `const res = await fetch('${baseUrl}/items?id=1', { method: 'POST', body: 'x' });
+      const error = await fetch('file:///etc/passwd').catch((e) => e.message);
+      return [res.status, res.headers['content-type'], await res.json(), error];`,
+      ['fetch']
+    );
+    assert.deepEqual(out, [
+      200,
+      'application/json',
+      { method: 'POST', path: '/items?id=1' },
+      'fetch only supports http and https: file:',
+    ]);
+  });
+});
+
+describe('script sandbox isolation', () => {
+  it('cannot reach process or require through constructors or code generation', async () => {
+    const out = await evaluate(
+      `const results = {};
+      const attempt = (name, fn) => {
+        try {
+          const value = fn();
+          results[name] = value && value.pid ? 'process' : typeof value;
+        } catch {
+          results[name] = 'blocked';
+        }
+      };
+      attempt('global', () => this.constructor.constructor('return process')());
+      attempt('globalThis', () => globalThis.constructor.constructor('return process')());
+      attempt('ctx.log', () => ctx.log.constructor('return process')());
+      attempt('console.log', () => console.log.constructor('return process')());
+      attempt('setTimeout', () => setTimeout.constructor('return process')());
+      attempt('fetch', () => fetch.constructor('return process')());
+      attempt('crypto', () => crypto.createHash('md5').update.constructor('return process')());
+      attempt('Buffer', () => Buffer.from('a').constructor.constructor('return process')());
+      attempt('async function', () => (async () => {}).constructor('return process')());
+      attempt('eval', () => eval('process'));
+      attempt('process', () => process);
+      attempt('require', () => require('child_process'));
+      return results;`,
+      ALL_CAPABILITIES
+    );
+    for (const [name, result] of Object.entries(out)) {
+      assert.equal(result, 'blocked', name);
+    }
+  });
+
+  it('hands scripts only objects from the sandbox realm', async () => {
+    const out = await evaluate(
+      `const values = [this, config, ctx, ctx.request, ctx.log, console, console.log, setTimeout, fetch, crypto,
+        crypto.createHash, crypto.createHash('md5'), crypto.randomBytes(1), Buffer, Buffer.from('a'),
+        fetch('file:///').catch(() => undefined), await fetch('file:///').catch((e) => e)];
+      try { Buffer.from('a', 'nope'); } catch (e) { values.push(e); }
+      try { crypto.createHash('nope'); } catch (e) { values.push(e.constructor); }
+      values.push(...values.map((value) => Object.getPrototypeOf(value)).filter(Boolean));
+      // 沙盒的 Object.prototype 本身不是 Object 的实例
+      return values.filter((value) => !(value instanceof Object) && value !== Object.prototype).length;`,
+      ALL_CAPABILITIES
+    );
+    assert.equal(out, 0);
+  });
+
+  it('rejects import() with a sandbox error', async () => {
+    const out = await evaluate(
+      `return import('child_process').then(
+        () => 'loaded',
+        (error) => error instanceof Object ? error.message : 'host error'
+      );`
+    );
+    assert.equal(out, 'import() is not available in scripts');
+  });
+
+  it('exposes no host frames through stack traces', async () => {
+    const out = await evaluate(
+      `Error.prepareStackTrace = (error, frames) => frames.flatMap((frame) => [frame.getThis(), frame.getFunction()]);
+      const leaked = await new Promise((resolve) => setTimeout(() => {
+        resolve(new Error().stack.filter((value) => value != null && !(value instanceof Object)).length);
+      }));
+      return leaked;`,
+      ['timers']
+    );
+    assert.equal(out, 0);
+  });
+});
@@ -0,0 +1,223 @@
+import '../../helpers/electron';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlowEngine } from '../../../src/main/flow/flowEngine';
+import { FlowStore } from '../../../src/main/store/flowStore';
+import { ComponentStore } from '../../../src/main/store/componentStore';
+import { ComponentDefinition, FlowDefinition, FlowNode, HttpRequest, SWITCH_DEFAULT_LABEL } from '../../../src/shared/models';
+
+const components: ComponentDefinition[] = [
+  { id: 'header-rewrite', name: 'Header Rewrite', type: 'builtin', internalName: 'headerRewrite' },
+  { id: 'mock-response', name: 'Mock Response', type: 'builtin', internalName: 'mockResponse' },
+];
+
+function setHeader(id: string, name: string): FlowNode {
+  return {
+    id,
+    type: 'component',
+    name: id,
+    position: { x: 0, y: 0 },
+    componentId: 'header-rewrite',
+    config: { addHeaderName: name, addHeaderValue: '1' },
+  };
+}
+
+function mockResponse(id: string, statusCode: number): FlowNode {
+  return {
+    id,
+    type: 'component',
+    name: id,
+    position: { x: 0, y: 0 },
+    componentId: 'mock-response',
+    config: { statusCode, body: 'denied' },
+  };
+}
+
+function callFlow(id: string, flowId: string): FlowNode {
+  return { id, type: 'subflow', name: id, position: { x: 0, y: 0 }, flowId };
+}
+
+// Entry 之后依次连接 nodes；子 Flow 的 Entry 规则不匹配测试请求，且未启用
+function flow(id: string, nodes: FlowNode[], name = id): FlowDefinition {
+  const entry: FlowNode = { id: `${id}-entry`, type: 'entry', name: 'Entry', position: { x: 0, y: 0 }, match: { methods: ['DELETE'] } };
+  const chain = [entry, ...nodes];
+  return {
+    id,
+    name,
+    enabled: false,
+    nodes: chain,
+    edges: chain.slice(1).map((node, i) => ({ id: `${id}-e${i}`, from: chain[i].id, to: node.id })),
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+function engine(flows: FlowDefinition[]): FlowEngine {
+  const flowStore = {
+    getById: (id: string) => flows.find((f) => f.id === id),
+    getAll: () => flows,
+    getEnabled: () => flows.filter((f) => f.enabled),
+  } as unknown as FlowStore;
+  const componentStore = {
+    getById: (id: string) => components.find((c) => c.id === id),
+  } as unknown as ComponentStore;
+  return new FlowEngine(flowStore, componentStore);
+}
+
+const request: HttpRequest = { id: 'r1', method: 'GET', url: 'https://example.com/', headers: {}, timestamp: 0 };
+
+describe('FlowEngine sub-flows', () => {
+  it('runs the sub-flow with the shared context and continues the caller', async () => {
+    const main = flow('main', [setHeader('before', 'x-before'), callFlow('call', 'auth'), setHeader('after', 'x-after')]);
+    const auth = flow('auth', [setHeader('token', 'x-token')]);
+    const { result } = await engine([main, auth]).debugFlow(main, request);
+
+    assert.deepEqual(result.request.headers, { 'x-before': '1', 'x-token': '1', 'x-after': '1' });
+    assert.deepEqual(
+      result.trace?.map((step) => `${step.flowId}:${step.nodeId}`),
+      ['main:main-entry', 'main:before', 'main:call', 'auth:auth-entry', 'auth:token', 'main:after']
+    );
+    const call = result.trace?.find((step) => step.nodeId === 'call');
+    assert.deepEqual(call?.changes?.map((change) => change.path), ['request.headers.x-token']);
+  });
+
+  it('terminates the caller when the sub-flow ends with a response', async () => {
+    const main = flow('main', [callFlow('call', 'guard'), setHeader('after', 'x-after')]);
+    const guard = flow('guard', [mockResponse('mock', 403)]);
+    const { result } = await engine([main, guard]).debugFlow(main, request);
+
+    assert.equal(result.response?.statusCode, 403);
+    assert.equal(result.request.headers['x-after'], undefined);
+    assert.equal(result.trace?.find((step) => step.nodeId === 'call')?.terminated, true);
+  });
+
+  it('records an error and skips a missing sub-flow', async () => {
+    const main = flow('main', [callFlow('call', 'deleted'), setHeader('after', 'x-after')]);
+    const { result, logs } = await engine([main]).debugFlow(main, request);
+
+    assert.equal(result.trace?.find((step) => step.nodeId === 'call')?.error, 'Sub-flow not found: deleted');
+    assert.equal(result.request.headers['x-after'], '1');
+    assert.ok(logs.includes('[call] Sub-flow not found: deleted'));
+  });
+
+  it('stops a sub-flow cycle and reports the call chain by name', async () => {
+    const a = flow('a', [setHeader('a-set', 'x-a'), callFlow('a-call', 'b')], 'Flow A');
+    const b = flow('b', [setHeader('b-set', 'x-b'), callFlow('b-call', 'a')], 'Flow B');
+    const { result } = await engine([a, b]).debugFlow(a, request);
+
+    assert.deepEqual(result.request.headers, { 'x-a': '1', 'x-b': '1' });
+    assert.equal(result.trace?.find((step) => step.nodeId === 'b-call')?.error, 'Sub-flow cycle: Flow A -> Flow B -> Flow A');
+    assert.equal(result.trace?.find((step) => step.nodeId === 'a-call')?.error, undefined);
+    assert.equal(result.response, undefined);
+  });
+
+  it('stops nesting beyond 8 levels', async () => {
+    const flows = Array.from({ length: 10 }, (_, i) =>
+      flow(`f${i + 1}`, [setHeader(`f${i + 1}-set`, `x-f${i + 1}`), callFlow(`f${i + 1}-call`, `f${i + 2}`)])
+    );
+    const { result } = await engine(flows).debugFlow(flows[0], request);
+
+    assert.deepEqual(Object.keys(result.request.headers), ['x-f1', 'x-f2', 'x-f3', 'x-f4', 'x-f5', 'x-f6', 'x-f7', 'x-f8']);
+    assert.equal(result.trace?.find((step) => step.nodeId === 'f8-call')?.error, 'Sub-flow nesting exceeds 8 levels');
+    assert.equal(result.trace?.find((step) => step.nodeId === 'f7-call')?.error, undefined);
+  });
+});
+
+// Entry -> Switch，各分支连到设置对应请求头的节点；branches 的键为连线的 conditionLabel
+function switchFlow(expression: string, cases: string[], branches: string[]): FlowDefinition {
+  const base = flow('route', [{ id: 'switch', type: 'switch', name: 'switch', position: { x: 0, y: 0 }, expression, cases }]);
+  const targets = branches.map((label) => setHeader(`to-${label}`, `x-${label.toLowerCase()}`));
+  return {
+    ...base,
+    nodes: [...base.nodes, ...targets],
+    edges: [
+      ...base.edges,
+      ...branches.map((label, i) => ({ id: `branch-${label}`, from: 'switch', to: targets[i].id, conditionLabel: label })),
+    ],
+  };
+}
+
+describe('FlowEngine switch', () => {
+  const switchStep = (trace?: { nodeId: string; branch?: string; error?: string }[]) =>
+    trace?.find((step) => step.nodeId === 'switch');
+
+  it('follows the edge of the matching case', async () => {
+    const route = switchFlow('ctx.request.method', ['GET', 'POST'], ['GET', 'POST', SWITCH_DEFAULT_LABEL]);
+    const { result } = await engine([route]).debugFlow(route, request);
+
+    assert.deepEqual(result.request.headers, { 'x-get': '1' });
+    assert.equal(switchStep(result.trace)?.branch, 'GET');
+  });
+
+  it('compares the expression value as a string', async () => {
+    const route = switchFlow('1 + 1', ['2'], ['2', SWITCH_DEFAULT_LABEL]);
+    const { result } = await engine([route]).debugFlow(route, request);
+
+    assert.deepEqual(result.request.headers, { 'x-2': '1' });
+  });
+
+  it('takes the default branch when no case matches or the expression fails', async () => {
+    const route = switchFlow('ctx.request.method', ['POST'], ['POST', SWITCH_DEFAULT_LABEL]);
+    const { result } = await engine([route]).debugFlow(route, request);
+    assert.deepEqual(result.request.headers, { 'x-default': '1' });
+    assert.equal(switchStep(result.trace)?.branch, SWITCH_DEFAULT_LABEL);
+
+    const broken = switchFlow('ctx.missing.value', ['GET'], ['GET', SWITCH_DEFAULT_LABEL]);
+    const { result: brokenResult } = await engine([broken]).debugFlow(broken, request);
+    assert.deepEqual(brokenResult.request.headers, { 'x-default': '1' });
+    assert.equal(switchStep(brokenResult.trace)?.branch, SWITCH_DEFAULT_LABEL);
+    assert.match(switchStep(brokenResult.trace)?.error || '', /Cannot read properties of undefined/);
+  });
+
+  it('ends the flow when the matching case has no edge', async () => {
+    // GET 在 cases 中但没有连线：不会退回默认分支
+    const route = switchFlow('ctx.request.method', ['GET'], [SWITCH_DEFAULT_LABEL]);
+    const { result } = await engine([route]).debugFlow(route, request);
+
+    assert.deepEqual(result.request.headers, {});
+    assert.equal(result.response, undefined);
+    assert.equal(switchStep(result.trace)?.branch, 'GET');
+    assert.deepEqual(result.trace?.map((step) => step.nodeId), ['route-entry', 'switch']);
+  });
+});
+
+// 启用、匹配测试请求（GET）的 Flow
+function enabledFlow(id: string, nodes: FlowNode[], continueToNext: boolean, methods = ['GET']): FlowDefinition {
+  const base = flow(id, nodes);
+  const [entry, ...rest] = base.nodes;
+  return { ...base, enabled: true, continueToNext, nodes: [{ ...entry, match: { methods } } as FlowNode, ...rest] };
+}
+
+describe('FlowEngine continueToNext', () => {
+  it('runs matching flows in order until one produces a response', async () => {
+    const flows = [
+      enabledFlow('f1', [setHeader('f1-set', 'x-f1')], true),
+      enabledFlow('skipped', [setHeader('skipped-set', 'x-skipped')], true, ['POST']),
+      enabledFlow('f2', [setHeader('f2-set', 'x-f2'), mockResponse('f2-mock', 403)], true),
+      enabledFlow('f3', [setHeader('f3-set', 'x-f3')], true),
+    ];
+    const result = await engine(flows).processRequest(request);
+
+    assert.equal(result.response?.statusCode, 403);
+    assert.deepEqual(result.matchedFlowIds, ['f1', 'f2']);
+    assert.equal(result.matchedFlowId, 'f1');
+    assert.deepEqual(result.request.headers, { 'x-f1': '1', 'x-f2': '1' });
+    assert.deepEqual(
+      [...new Set(result.trace?.map((step) => step.flowId))],
+      ['f1', 'f2']
+    );
+  });
+
+  it('stops at the first flow without continueToNext', async () => {
+    const flows = [
+      enabledFlow('f1', [setHeader('f1-set', 'x-f1')], true),
+      enabledFlow('f2', [setHeader('f2-set', 'x-f2')], false),
+      enabledFlow('f3', [setHeader('f3-set', 'x-f3')], true),
+    ];
+    const result = await engine(flows).processRequest(request);
+
+    assert.equal(result.response, undefined);
+    assert.deepEqual(result.matchedFlowIds, ['f1', 'f2']);
+    assert.deepEqual(result.request.headers, { 'x-f1': '1', 'x-f2': '1' });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { queryJsonPath } from '../../../src/main/flow/jsonPath';
+
+const data = {
+  user: { id: 7, 'display-name': 'Ann', tags: ['a', 'b'] },
+  items: [
+    { sku: 'x1', price: 10 },
+    { sku: 'x2', price: 0 },
+  ],
+  'odd key': null,
+};
+
+describe('queryJsonPath', () => {
+  it('returns the root for $', () => {
+    assert.deepEqual(queryJsonPath(data, '$'), [data]);
+  });
+
+  it('follows dot and bracket keys', () => {
+    assert.deepEqual(queryJsonPath(data, '$.user.id'), [7]);
+    assert.deepEqual(queryJsonPath(data, '$.user.display-name'), ['Ann']);
+    assert.deepEqual(queryJsonPath(data, "$['odd key']"), [null]);
+    assert.deepEqual(queryJsonPath(data, '$["user"]["tags"][1]'), ['b']);
+  });
+
+  it('expands wildcards over arrays and objects', () => {
+    assert.deepEqual(queryJsonPath(data, '$.items[*].sku'), ['x1', 'x2']);
+    assert.deepEqual(queryJsonPath(data, '$.items.*.price'), [10, 0]);
+    assert.deepEqual(queryJsonPath(data, '$.user.tags[*]'), ['a', 'b']);
+  });
+
+  it('returns an empty list for missing paths and scalars', () => {
+    assert.deepEqual(queryJsonPath(data, '$.user.email'), []);
+    assert.deepEqual(queryJsonPath(data, '$.items[5]'), []);
+    assert.deepEqual(queryJsonPath(data, '$.user.id.value'), []);
+    assert.deepEqual(queryJsonPath(data, "$['odd key'].x"), []);
+  });
+
+  it('does not read inherited properties', () => {
+    assert.deepEqual(queryJsonPath(data, '$.user.constructor'), []);
+  });
+
+  it('rejects paths that do not start with $ or cannot be parsed', () => {
+    assert.throws(() => queryJsonPath(data, 'user.id'), /must start with \$/);
+    assert.throws(() => queryJsonPath(data, '$..id'), /Invalid JSONPath at position 1/);
+    assert.throws(() => queryJsonPath(data, '$.items[?(@.price)]'), /Invalid JSONPath/);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchRule, matchRuleWithoutBody, matchWildcard, matchesRule } from '../../../src/main/flow/matcher';
+import { FlowMatchCondition, FlowMatchGroup, HttpRequest } from '../../../src/shared/models';
+
+function request(overrides: Partial<HttpRequest> = {}): HttpRequest {
+  return {
+    id: 'r1',
+    method: 'POST',
+    url: 'https://api.example.com/v1/orders?page=2&tag=a&tag=b',
+    headers: { 'Content-Type': 'application/json', 'X-Trace': 't1' },
+    body: JSON.stringify({ order: { id: 42, paid: true, items: [{ sku: 'x1' }] } }),
+    timestamp: 0,
+    clientIp: '::ffff:10.0.0.5',
+    ...overrides,
+  };
+}
+
+function all(...conditions: FlowMatchCondition[]): FlowMatchGroup {
+  return { combinator: 'and', conditions };
+}
+
+describe('matchWildcard', () => {
+  it('matches * and ? case-insensitively and anchors the whole value', () => {
+    assert.equal(matchWildcard('api.example.com', '*.example.com'), true);
+    assert.equal(matchWildcard('API.Example.com', '*.example.com'), true);
+    assert.equal(matchWildcard('example.com.evil.net', '*.example.com'), false);
+    assert.equal(matchWildcard('/v1/a', '/v?/a'), true);
+    assert.equal(matchWildcard('/v10/a', '/v?/a'), false);
+  });
+
+  it('treats regex characters literally', () => {
+    assert.equal(matchWildcard('/a+b(c)', '/a+b(c)'), true);
+    assert.equal(matchWildcard('/aab', '/a+b'), false);
+  });
+});
+
+describe('matchRule', () => {
+  it('matches an empty rule', () => {
+    assert.deepEqual(matchRule(request(), {}), { matched: true, matchedBy: [] });
+  });
+
+  it('checks methods, hosts and paths and describes what matched', () => {
+    const result = matchRule(request(), { methods: ['POST'], hostPatterns: ['*.example.com'], pathPatterns: ['/v1/*'] });
+    assert.deepEqual(result, { matched: true, matchedBy: ['method POST', 'host *.example.com', 'path /v1/*'] });
+    assert.equal(matchesRule(request(), { methods: ['GET'] }), false);
+    assert.equal(matchesRule(request(), { hostPatterns: ['other.com'] }), false);
+  });
+
+  it('leaves a lone * out of the description', () => {
+    assert.deepEqual(matchRule(request(), { hostPatterns: ['*'] }).matchedBy, []);
+  });
+
+  it('excludes patterns starting with !', () => {
+    assert.equal(matchesRule(request(), { pathPatterns: ['/v1/*', '!/v1/orders'] }), false);
+    assert.equal(matchesRule(request(), { pathPatterns: ['!/health'] }), true);
+    assert.deepEqual(matchRule(request(), { pathPatterns: ['!/health'] }).matchedBy, ['path !/health']);
+  });
+
+  it('supports regex pattern mode and ignores invalid regexes', () => {
+    assert.equal(matchesRule(request(), { patternMode: 'regex', pathPatterns: ['^/v\\d+/orders$'] }), true);
+    assert.equal(matchesRule(request(), { patternMode: 'regex', hostPatterns: ['^API\\.'] }), true);
+    assert.equal(matchesRule(request(), { patternMode: 'regex', pathPatterns: ['(unclosed'] }), false);
+  });
+
+  it('does not match an unparseable URL', () => {
+    assert.equal(matchesRule(request({ url: 'not a url' }), {}), false);
+  });
+});
+
+describe('match conditions', () => {
+  const matches = (condition: FlowMatchCondition, req = request()) => matchesRule(req, { conditions: all(condition) });
+
+  it('compares method, host and scheme without case', () => {
+    assert.equal(matches({ field: 'method', operator: 'equals', value: 'post' }), true);
+    assert.equal(matches({ field: 'host', operator: 'contains', value: 'EXAMPLE' }), true);
+    assert.equal(matches({ field: 'scheme', operator: 'equals', value: 'HTTPS' }), true);
+    assert.equal(matches({ field: 'path', operator: 'equals', value: '/V1/orders' }), false);
+  });
+
+  it('reads header values by name without case', () => {
+    assert.equal(matches({ field: 'header', name: 'content-type', operator: 'contains', value: 'json' }), true);
+    assert.equal(matches({ field: 'header', name: 'x-trace', operator: 'equals', value: 't1' }), true);
+    assert.equal(matches({ field: 'header', name: 'authorization', operator: 'exists' }), false);
+    assert.equal(matches({ field: 'header', name: 'authorization', operator: 'exists', negate: true }), true);
+  });
+
+  it('reads query parameters, client IP and the default port', () => {
+    assert.equal(matches({ field: 'query', name: 'tag', operator: 'equals', value: 'b' }), true);
+    assert.equal(matches({ field: 'query', name: 'page', operator: 'regex', value: '^\\d+$' }), true);
+    assert.equal(matches({ field: 'clientIp', operator: 'equals', value: '10.0.0.5' }), true);
+    assert.equal(matches({ field: 'port', operator: 'equals', value: '443' }), true);
+    assert.equal(matches({ field: 'port', operator: 'equals', value: '8080' }, request({ url: 'http://localhost:8080/' })), true);
+  });
+
+  it('matches the request body as text, including base64 bodies', () => {
+    assert.equal(matches({ field: 'body', operator: 'contains', value: '"paid":true' }), true);
+    const encoded = request({ body: Buffer.from('hello world').toString('base64'), bodyEncoding: 'base64' });
+    assert.equal(matches({ field: 'body', operator: 'wildcard', value: 'hello*' }, encoded), true);
+    assert.equal(matches({ field: 'body', operator: 'exists' }, request({ body: undefined })), false);
+  });
+
+  it('compares JSONPath values as JSON or text', () => {
+    const jsonPath = (name: string, value?: string) => matches({ field: 'body', operator: 'jsonPath', name, value });
+    assert.equal(jsonPath('$.order.id', '42'), true);
+    assert.equal(jsonPath('$.order.paid', 'true'), true);
+    assert.equal(jsonPath('$.order.items[*].sku', 'x1'), true);
+    assert.equal(jsonPath('$.order.items[0]', '{"sku":"x1"}'), true);
+    assert.equal(jsonPath('$.order.id', '43'), false);
+    assert.equal(jsonPath('$.order.coupon'), false);
+    assert.equal(jsonPath('$.order'), true);
+    assert.equal(jsonPath('order.id', '42'), false);
+    assert.equal(matches({ field: 'body', operator: 'jsonPath', name: '$.a' }, request({ body: 'not json' })), false);
+  });
+
+  it('describes the conditions that matched', () => {
+    const result = matchRule(request(), {
+      conditions: all(
+        { field: 'header', name: 'x-trace', operator: 'exists' },
+        { field: 'body', operator: 'jsonPath', name: '$.order.id', value: '42' },
+        { field: 'query', name: 'debug', operator: 'exists', negate: true }
+      ),
+    });
+    assert.deepEqual(result.matchedBy, ['header x-trace exists', 'body $.order.id = 42', 'not query debug exists']);
+  });
+});
+
+describe('match groups', () => {
+  const get: FlowMatchCondition = { field: 'method', operator: 'equals', value: 'GET' };
+  const post: FlowMatchCondition = { field: 'method', operator: 'equals', value: 'POST' };
+  const orders: FlowMatchCondition = { field: 'path', operator: 'contains', value: 'orders' };
+
+  it('treats an empty group as satisfied', () => {
+    assert.equal(matchesRule(request(), { conditions: { combinator: 'or', conditions: [] } }), true);
+  });
+
+  it('combines conditions with and / or', () => {
+    assert.equal(matchesRule(request(), { conditions: all(get, orders) }), false);
+    const either = matchRule(request(), { conditions: { combinator: 'or', conditions: [get, post] } });
+    assert.deepEqual(either, { matched: true, matchedBy: ['method equals POST'] });
+  });
+
+  it('nests and negates groups', () => {
+    const rule = {
+      conditions: {
+        combinator: 'and' as const,
+        conditions: [orders],
+        groups: [{ combinator: 'or' as const, negate: true, conditions: [get, { ...orders, value: 'users' }] }],
+      },
+    };
+    assert.deepEqual(matchRule(request(), rule), {
+      matched: true,
+      matchedBy: ['path contains orders', 'not (method equals GET or path contains users)'],
+    });
+    assert.equal(matchesRule(request({ method: 'GET' }), rule), false);
+  });
+});
+
+describe('matchRuleWithoutBody', () => {
+  const bodyCondition: FlowMatchCondition = { field: 'body', operator: 'contains', value: 'paid' };
+  const get: FlowMatchCondition = { field: 'method', operator: 'equals', value: 'GET' };
+  const post: FlowMatchCondition = { field: 'method', operator: 'equals', value: 'POST' };
+
+  it('is undecided while a body condition may still change the result', () => {
+    assert.equal(matchRuleWithoutBody(request(), { conditions: all(post, bodyCondition) }), null);
+    assert.equal(matchRuleWithoutBody(request(), { conditions: { combinator: 'or', conditions: [get, bodyCondition] } }), null);
+    assert.equal(
+      matchRuleWithoutBody(request(), { conditions: { combinator: 'and', negate: true, conditions: [bodyCondition] } }),
+      null
+    );
+  });
+
+  it('decides without the body when other conditions settle it', () => {
+    assert.equal(matchRuleWithoutBody(request(), { conditions: all(get, bodyCondition) }), false);
+    assert.equal(matchRuleWithoutBody(request(), { conditions: { combinator: 'or', conditions: [post, bodyCondition] } }), true);
+    assert.equal(matchRuleWithoutBody(request(), { methods: ['GET'], conditions: all(bodyCondition) }), false);
+    assert.equal(matchRuleWithoutBody(request(), { methods: ['POST'] }), true);
+  });
+});
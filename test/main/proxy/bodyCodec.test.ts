@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'zlib';
+import { decodeContentEncoding } from '../../../src/main/proxy/bodyCodec';
+
+const BLOCK_SIZE = 128 * 1024;
+
+// 手工拼出只含 RLE 块的 zstd 帧：每块 4 字节，解出 128KB 的同一字节
+function zstdRleFrame(blocks: number, byte: number): Buffer {
+  // magic + 帧头（无内容大小，窗口 128KB）
+  const parts = [Buffer.from([0x28, 0xb5, 0x2f, 0xfd, 0x00, 0x38])];
+  for (let i = 0; i < blocks; i++) {
+    const header = (BLOCK_SIZE << 3) | (1 << 1) | (i === blocks - 1 ? 1 : 0);
+    parts.push(Buffer.from([header & 0xff, (header >> 8) & 0xff, (header >> 16) & 0xff, byte]));
+  }
+  return Buffer.concat(parts);
+}
+
+describe('decodeContentEncoding', () => {
+  it('decodes zstd bodies', () => {
+    const decoded = decodeContentEncoding(zstdRleFrame(3, 0x61), 'zstd');
+    assert.equal(decoded?.length, 3 * BLOCK_SIZE);
+    assert.ok(decoded?.every((b) => b === 0x61));
+  });
+
+  it('decodes the complete blocks of a truncated zstd body', () => {
+    const frame = zstdRleFrame(10, 0x62);
+    const decoded = decodeContentEncoding(frame.subarray(0, 30), 'zstd', true);
+    assert.ok(decoded && decoded.length > 0 && decoded.length < 10 * BLOCK_SIZE);
+    assert.equal(decoded.length % BLOCK_SIZE, 0);
+  });
+
+  it('gives up on zstd bodies that expand past the limit', () => {
+    // 约 1KB 的输入解压后超过 32MB
+    const bomb = zstdRleFrame(300, 0);
+    assert.ok(bomb.length < 2048);
+    assert.equal(decodeContentEncoding(bomb, 'zstd'), null);
+  });
+
+  it('gives up on gzip bodies that expand past the limit', () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(40 * 1024 * 1024));
+    assert.equal(decodeContentEncoding(bomb, 'gzip'), null);
+  });
+
+  it('decodes stacked encodings in reverse order', () => {
+    const body = Buffer.from('hello');
+    const encoded = zlib.brotliCompressSync(zlib.gzipSync(body));
+    assert.deepEqual(decodeContentEncoding(encoded, 'gzip, br'), body);
+  });
+});
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { SOCKS_REPLY, SocksConnectHandler, SocksServer, socksReplyForError } from '../../../src/main/proxy/socksServer';
+
+// 以域名形式发起 CONNECT，返回 socket 与读取到的协商响应 + CONNECT 响应
+async function socksConnect(port: number, hostname: string, targetPort: number) {
+  const socket = net.connect(port, '127.0.0.1');
+  const received: Buffer[] = [];
+  socket.on('data', (chunk) => received.push(chunk));
+  await new Promise((resolve) => socket.once('connect', resolve));
+  const name = Buffer.from(hostname);
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(targetPort);
+  socket.write(Buffer.concat([Buffer.from([5, 1, 0, 5, 1, 0, 3, name.length]), name, portBytes]));
+  const closed = new Promise<void>((resolve) => socket.once('close', () => resolve()));
+  const read = async (length: number) => {
+    while (Buffer.concat(received).length < length) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return Buffer.concat(received);
+  };
+  return { socket, read, closed };
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const server = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+describe('SocksServer', () => {
+  let server: SocksServer;
+  let port: number;
+  let handler: SocksConnectHandler;
+
+  before(async () => {
+    port = await freePort();
+    server = new SocksServer((...args) => handler(...args));
+    await server.start(port);
+  });
+
+  after(() => server.stop());
+
+  it('replies only when the handler decides', async () => {
+    let replyNow!: (status: number) => void;
+    const requested = new Promise<string>((resolve) => {
+      handler = (_socket, hostname, targetPort, reply) => {
+        replyNow = reply;
+        resolve(`${hostname}:${targetPort}`);
+      };
+    });
+    const client = await socksConnect(port, 'example.test', 8443);
+    assert.equal(await requested, 'example.test:8443');
+    assert.deepEqual([...(await client.read(2))], [5, 0]);
+
+    // 处理方回复之前客户端只收到认证协商的响应
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal((await client.read(2)).length, 2);
+
+    replyNow(SOCKS_REPLY.SUCCEEDED);
+    assert.equal((await client.read(12))[3], SOCKS_REPLY.SUCCEEDED);
+    client.socket.destroy();
+  });
+
+  it('closes the connection with the failure status', async () => {
+    const refusedPort = await freePort();
+    handler = (_socket, hostname, targetPort, reply) => {
+      const target = net.connect(targetPort, hostname);
+      target.once('connect', () => reply(SOCKS_REPLY.SUCCEEDED));
+      target.once('error', (error) => reply(socksReplyForError(error)));
+    };
+    const client = await socksConnect(port, '127.0.0.1', refusedPort);
+    await client.closed;
+    assert.equal((await client.read(12))[3], SOCKS_REPLY.CONNECTION_REFUSED);
+  });
+
+  it('maps connect errors to reply codes', () => {
+    const error = (code: string) => Object.assign(new Error(code), { code });
+    assert.equal(socksReplyForError(error('EHOSTUNREACH')), SOCKS_REPLY.HOST_UNREACHABLE);
+    assert.equal(socksReplyForError(error('ENOTFOUND')), SOCKS_REPLY.HOST_UNREACHABLE);
+    assert.equal(socksReplyForError(error('ENETUNREACH')), SOCKS_REPLY.NETWORK_UNREACHABLE);
+    assert.equal(socksReplyForError(new Error('upstream proxy rejected')), SOCKS_REPLY.GENERAL_FAILURE);
+  });
+});
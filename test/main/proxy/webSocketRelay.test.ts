@@ -0,0 +1,101 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { relayWebSocket } from '../../../src/main/proxy/webSocketRelay';
+import { WS_OPCODE, WsFrameParser, encodeWsFrame } from '../../../src/main/proxy/wsFrames';
+import { WebSocketFrame } from '../../../src/shared/models';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function until(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    assert.ok(Date.now() < deadline, 'condition not reached in time');
+    await sleep(5);
+  }
+}
+
+describe('relayWebSocket backpressure', () => {
+  let server: net.Server;
+  let accepted: net.Socket[] = [];
+
+  // 本地建立一对相连的 socket：[代理持有的一端, 对端]
+  const socketPair = async (): Promise<[net.Socket, net.Socket]> => {
+    const remote = net.connect((server.address() as AddressInfo).port, '127.0.0.1');
+    await new Promise((resolve) => remote.once('connect', resolve));
+    await until(() => accepted.length > 0);
+    return [accepted.shift()!, remote];
+  };
+
+  // browser <-> clientSocket | relay | upstreamSocket <-> origin
+  const setup = async (onFrame: (frame: WebSocketFrame) => Promise<WebSocketFrame>) => {
+    const [clientSocket, browser] = await socketPair();
+    const [upstreamSocket, origin] = await socketPair();
+    relayWebSocket({ clientSocket, upstreamSocket, onFrame, onRecord: () => undefined, onClose: () => undefined });
+    return { clientSocket, upstreamSocket, browser, origin };
+  };
+
+  before(async () => {
+    server = net.createServer((socket) => accepted.push(socket));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(() => {
+    server.close();
+    accepted = [];
+  });
+
+  it('pauses the source while frames are still queued', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => { release = resolve; });
+    let calls = 0;
+    const { clientSocket, browser, origin } = await setup(async (frame) => {
+      calls++;
+      await blocked;
+      return frame;
+    });
+    const parser = new WsFrameParser();
+    let received = 0;
+    origin.on('data', (chunk) => { received += parser.push(chunk).length; });
+
+    for (let i = 0; i < 3; i++) {
+      browser.write(encodeWsFrame({ fin: true, rsv: 0, opcode: WS_OPCODE.TEXT, payload: Buffer.from(`m${i}`) }, true));
+    }
+    await until(() => calls === 1);
+    assert.equal(clientSocket.isPaused(), true);
+
+    release();
+    await until(() => received === 3);
+    assert.equal(clientSocket.isPaused(), false);
+    browser.destroy();
+    origin.destroy();
+  });
+
+  it('waits for the destination to drain before reading more', async () => {
+    const { clientSocket, upstreamSocket, browser, origin } = await setup(async (frame) => frame);
+    origin.pause();
+    const payload = Buffer.alloc(8 * 1024 * 1024, 0x61);
+    browser.write(encodeWsFrame({ fin: true, rsv: 0, opcode: WS_OPCODE.BINARY, payload }, true));
+    browser.write(encodeWsFrame({ fin: true, rsv: 0, opcode: WS_OPCODE.TEXT, payload: Buffer.from('after') }, true));
+
+    // 对端不读取时 relay 不再读取客户端
+    await until(() => upstreamSocket.writableNeedDrain);
+    await sleep(50);
+    assert.equal(clientSocket.isPaused(), true);
+
+    const parser = new WsFrameParser();
+    const frames: string[] = [];
+    origin.on('data', (chunk) => {
+      for (const frame of parser.push(chunk)) {
+        frames.push(frame.opcode === WS_OPCODE.TEXT ? frame.payload.toString() : `${frame.payload.length}`);
+      }
+    });
+    origin.resume();
+    await until(() => frames.length === 2);
+    assert.deepEqual(frames, [String(payload.length), 'after']);
+    await until(() => !clientSocket.isPaused());
+    browser.destroy();
+    origin.destroy();
+  });
+});
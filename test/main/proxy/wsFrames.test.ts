@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WS_OPCODE, WsFrame, WsFrameParser, encodeWsFrame, isControlOpcode } from '../../../src/main/proxy/wsFrames';
+
+function frame(payload: Buffer | string, overrides: Partial<WsFrame> = {}): WsFrame {
+  return { fin: true, rsv: 0, opcode: WS_OPCODE.TEXT, payload: Buffer.from(payload), ...overrides };
+}
+
+describe('encodeWsFrame / WsFrameParser', () => {
+  it('round-trips masked and unmasked frames', () => {
+    for (const mask of [false, true]) {
+      const original = frame('héllo', { fin: false, rsv: 4 });
+      const encoded = encodeWsFrame(original, mask);
+      assert.equal((encoded[1] & 0x80) !== 0, mask);
+      assert.deepEqual(new WsFrameParser().push(encoded), [original]);
+    }
+  });
+
+  it('uses 16-bit and 64-bit extended lengths', () => {
+    for (const [size, headerLength] of [[125, 2], [126, 4], [0xffff, 4], [0x10000, 10]]) {
+      const original = frame(Buffer.alloc(size, 7), { opcode: WS_OPCODE.BINARY });
+      const encoded = encodeWsFrame(original, false);
+      assert.equal(encoded.length, headerLength + size);
+      assert.deepEqual(new WsFrameParser().push(encoded), [original]);
+    }
+  });
+
+  it('keeps partial frames until the rest arrives', () => {
+    const frames = [frame('first'), frame(Buffer.alloc(300, 1), { opcode: WS_OPCODE.BINARY }), frame('', { opcode: WS_OPCODE.PING })];
+    const stream = Buffer.concat(frames.map((f) => encodeWsFrame(f, true)));
+    const parser = new WsFrameParser();
+    const parsed: WsFrame[] = [];
+    for (let i = 0; i < stream.length; i += 3) {
+      parsed.push(...parser.push(stream.subarray(i, i + 3)));
+    }
+    assert.deepEqual(parsed, frames);
+  });
+
+  it('rejects lengths beyond the safe integer range', () => {
+    const header = Buffer.alloc(10);
+    header[0] = 0x82;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(Number.MAX_SAFE_INTEGER) + 1n, 2);
+    assert.throws(() => new WsFrameParser().push(header), /too large/);
+  });
+});
+
+describe('isControlOpcode', () => {
+  it('treats close, ping and pong as control frames', () => {
+    assert.deepEqual(
+      [WS_OPCODE.CONTINUATION, WS_OPCODE.TEXT, WS_OPCODE.BINARY, WS_OPCODE.CLOSE, WS_OPCODE.PING, WS_OPCODE.PONG].map(isControlOpcode),
+      [false, false, false, true, true, true]
+    );
+  });
+});
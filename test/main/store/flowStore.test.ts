@@ -0,0 +1,81 @@
+import '../../helpers/electron';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlowStore } from '../../../src/main/store/flowStore';
+import { FlowDefinition } from '../../../src/shared/models';
+
+function flow(id: string, order?: number): FlowDefinition {
+  return { id, name: id, enabled: true, nodes: [], edges: [], createdAt: 0, updatedAt: 0, order };
+}
+
+describe('FlowStore order', () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let store: FlowStore;
+
+  const ids = () => store.getAll().map((f) => f.id);
+  const orders = () => store.getAll().map((f) => f.order);
+
+  beforeEach(() => {
+    originalHome = process.env.HOME;
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'flow-store-'));
+    process.env.HOME = home;
+    // 空目录中会先创建 order 为 0 的默认 Flow
+    store = new FlowStore();
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('puts new and duplicated flows last', () => {
+    store.save(flow('a'));
+    store.save(flow('b'));
+    // 复制得到的 Flow 带着原 Flow 的 order
+    store.save({ ...store.getById('a')!, id: 'a-copy' });
+    assert.deepEqual(ids(), ['default-flow', 'a', 'b', 'a-copy']);
+    assert.deepEqual(orders(), [0, 1, 2, 3]);
+
+    // 未被占用的 order 保留（如导入时带上的顺序）
+    store.save(flow('imported', 10));
+    assert.equal(store.getById('imported')?.order, 10);
+
+    store.delete('imported');
+    store.save(flow('c'));
+    assert.equal(store.getById('c')?.order, 4);
+  });
+
+  it('keeps the order of an existing flow on save', () => {
+    store.save(flow('a'));
+    store.save(flow('b'));
+    store.save({ ...store.getById('a')!, order: 5, name: 'renamed' });
+
+    assert.deepEqual(ids(), ['default-flow', 'a', 'b']);
+    assert.equal(store.getById('a')?.name, 'renamed');
+  });
+
+  it('reorders listed flows first and keeps the rest in their relative order', () => {
+    for (const id of ['a', 'b', 'c', 'd']) {
+      store.save(flow(id));
+    }
+    store.reorder(['c', 'missing', 'a']);
+
+    assert.deepEqual(ids(), ['c', 'a', 'default-flow', 'b', 'd']);
+    assert.deepEqual(orders(), [0, 1, 2, 3, 4]);
+    // 新的顺序写入磁盘
+    assert.deepEqual(new FlowStore().getAll().map((f) => f.id), ['c', 'a', 'default-flow', 'b', 'd']);
+  });
+
+  it('assigns orders to flows saved without one in load order', () => {
+    const flowsDir = path.join(home, '.flowproxy', 'flows');
+    fs.writeFileSync(path.join(flowsDir, 'legacy.json'), JSON.stringify(flow('legacy')));
+    const reloaded = new FlowStore();
+
+    assert.equal(reloaded.getById('legacy')?.order, 1);
+    assert.equal(JSON.parse(fs.readFileSync(path.join(flowsDir, 'legacy.json'), 'utf-8')).order, 1);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { harToRecords, recordsToHar } from '../../../src/main/store/har';
+import { RequestRecord } from '../../../src/shared/models';
+
+const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]).toString('base64');
+
+function sampleRecord(overrides: Partial<RequestRecord> = {}): RequestRecord {
+  return {
+    id: 'r1',
+    request: {
+      id: 'r1',
+      method: 'POST',
+      url: 'https://api.example.com/items?page=2&q=a%20b',
+      headers: { 'content-type': 'application/json', 'x-trace': 'abc' },
+      body: '{"name":"item"}',
+      bodySize: 15,
+      timestamp: Date.parse('2024-01-02T03:04:05.000Z'),
+    },
+    response: {
+      statusCode: 201,
+      statusMessage: 'Created',
+      headers: { 'content-type': 'image/png', 'location': '/items/1' },
+      body: binary,
+      bodyEncoding: 'base64',
+      bodySize: 6,
+      trailers: { 'grpc-status': '0' },
+    },
+    durationMs: 42,
+    matchedFlowId: 'flow-1',
+    protocol: 'h2',
+    upstreamProtocol: 'http/1.1',
+    ...overrides,
+  };
+}
+
+function roundTrip(records: RequestRecord[]): RequestRecord[] {
+  return harToRecords(JSON.stringify(recordsToHar(records, '1.0.0')));
+}
+
+describe('recordsToHar / harToRecords', () => {
+  it('round-trips requests, text and base64 bodies and metadata', () => {
+    const [record] = roundTrip([sampleRecord()]);
+
+    assert.equal(record.imported, true);
+    assert.equal(record.request.method, 'POST');
+    assert.equal(record.request.url, 'https://api.example.com/items?page=2&q=a%20b');
+    assert.deepEqual(record.request.headers, { 'content-type': 'application/json', 'x-trace': 'abc' });
+    assert.equal(record.request.body, '{"name":"item"}');
+    assert.equal(record.request.bodyEncoding, undefined);
+    assert.equal(record.request.contentType, 'application/json');
+    assert.equal(record.request.bodySize, 15);
+    assert.equal(record.request.timestamp, Date.parse('2024-01-02T03:04:05.000Z'));
+
+    assert.equal(record.response?.statusCode, 201);
+    assert.equal(record.response?.statusMessage, 'Created');
+    assert.equal(record.response?.body, binary);
+    assert.equal(record.response?.bodyEncoding, 'base64');
+    assert.equal(record.response?.contentType, 'image/png');
+    assert.deepEqual(record.response?.trailers, { 'grpc-status': '0' });
+
+    assert.equal(record.durationMs, 42);
+    assert.equal(record.matchedFlowId, 'flow-1');
+    assert.equal(record.protocol, 'h2');
+    assert.equal(record.upstreamProtocol, 'http/1.1');
+  });
+
+  it('gives imported records new ids', () => {
+    const [record] = roundTrip([sampleRecord()]);
+    assert.notEqual(record.id, 'r1');
+    assert.equal(record.request.id, record.id);
+  });
+
+  it('round-trips WebSocket frames', () => {
+    const [record] = roundTrip([sampleRecord({
+      websocket: {
+        frames: [
+          { direction: 'client_to_server', opcode: 1, payload: 'hello', payloadEncoding: 'text', timestamp: 1000, size: 5 },
+          { direction: 'server_to_client', opcode: 2, payload: binary, payloadEncoding: 'base64', timestamp: 2500, size: 6 },
+        ],
+      },
+    })]);
+
+    assert.deepEqual(record.websocket?.frames, [
+      { direction: 'client_to_server', opcode: 1, payload: 'hello', payloadEncoding: 'text', timestamp: 1000, size: 5 },
+      { direction: 'server_to_client', opcode: 2, payload: binary, payloadEncoding: 'base64', timestamp: 2500, size: 6 },
+    ]);
+  });
+
+  it('exports entries in time order with timings that sum to the total time', () => {
+    const later = sampleRecord({ id: 'late' });
+    later.request = { ...later.request, id: 'late', timestamp: later.request.timestamp + 1000 };
+    const har = recordsToHar([later, sampleRecord()], '1.0.0');
+
+    assert.deepEqual(har.log.entries.map((e) => e._id), ['r1', 'late']);
+    const { time, timings } = har.log.entries[0];
+    assert.equal(timings.send + timings.wait + timings.receive, time);
+  });
+
+  it('exports unfinished requests as status 0 and imports them without a response', () => {
+    const [record] = roundTrip([sampleRecord({ response: undefined })]);
+    assert.equal(record.response, undefined);
+  });
+});
+
+describe('harToRecords', () => {
+  const harWith = (entries: unknown[]) => JSON.stringify({ log: { version: '1.2', entries } });
+  const entry = (request: unknown, extra: Record<string, unknown> = {}) => ({
+    startedDateTime: '2024-01-02T03:04:05.000Z',
+    time: 10,
+    request,
+    response: { status: 200, statusText: 'OK', headers: [], content: { size: 0, mimeType: '' }, bodySize: 0 },
+    ...extra,
+  });
+
+  it('merges repeated headers and drops HTTP/2 pseudo headers', () => {
+    const [record] = harToRecords(harWith([entry({
+      method: 'GET',
+      url: 'https://example.com/',
+      httpVersion: 'HTTP/2',
+      headers: [
+        { name: ':authority', value: 'example.com' },
+        { name: 'Accept', value: 'text/html' },
+        { name: 'accept', value: 'application/json' },
+      ],
+      bodySize: -1,
+    })]));
+
+    assert.deepEqual(record.request.headers, { accept: 'text/html, application/json' });
+    assert.equal(record.protocol, 'h2');
+  });
+
+  it('rejects content that is not JSON', () => {
+    assert.throws(() => harToRecords('not json'), /^Error: Not a valid HAR file: /);
+  });
+
+  it('rejects a log without entries', () => {
+    assert.throws(() => harToRecords('{"log":{}}'), /Not a valid HAR file: log.entries is missing/);
+  });
+
+  it('names the malformed entry', () => {
+    const valid = entry({ method: 'GET', url: 'https://example.com/', headers: [] });
+    assert.throws(() => harToRecords(harWith([valid, { startedDateTime: '', time: 0 }])), /Not a valid HAR file: entry 2 has no request/);
+    assert.throws(
+      () => harToRecords(harWith([entry({ method: 'GET', url: 'https://example.com/', headers: [{ value: 'x' }] })])),
+      /Not a valid HAR file: entry 1 has invalid request headers/
+    );
+    assert.throws(
+      () => harToRecords(harWith([entry({ method: 'GET', url: 'https://example.com/' }, { _webSocketMessages: {} })])),
+      /Not a valid HAR file: entry 1 has invalid WebSocket messages/
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import '../../helpers/electron';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RequestStore } from '../../../src/main/store/requestStore';
+import { CaptureSessionList, RequestRecord } from '../../../src/shared/models';
+
+const largeBody = 'x'.repeat(100 * 1024);
+
+function record(id: string, body?: string): RequestRecord {
+  return {
+    id,
+    request: { id, method: 'POST', url: `https://example.com/${id}`, headers: {}, body, bodySize: body?.length, timestamp: Date.now() },
+  };
+}
+
+describe('RequestStore', () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let store: RequestStore;
+
+  const sessionDir = () => path.join(home, '.flowproxy', 'sessions', store.listSessions().activeSessionId!);
+  const logLines = () => fs.readFileSync(path.join(sessionDir(), 'records.jsonl'), 'utf-8').split('\n').filter(Boolean);
+  const readIndex = () =>
+    JSON.parse(fs.readFileSync(path.join(home, '.flowproxy', 'sessions', 'index.json'), 'utf-8')) as CaptureSessionList;
+
+  before(() => {
+    originalHome = process.env.HOME;
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'request-store-'));
+    process.env.HOME = home;
+    store = new RequestStore();
+  });
+
+  after(() => {
+    store.flush();
+    process.env.HOME = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('writes each record once per flush however often it is updated', () => {
+    const live = record('a');
+    store.add(live);
+    live.durationMs = 5;
+    store.add(live);
+    live.response = { statusCode: 200, headers: {} };
+    store.add(live);
+    store.add(record('b'));
+    store.flush();
+
+    const lines = logLines().map((line) => JSON.parse(line));
+    assert.deepEqual(lines.map((line) => line.id), ['a', 'b']);
+    assert.equal(lines[0].response.statusCode, 200);
+    assert.equal(store.getById('a')?.durationMs, 5);
+  });
+
+  it('keeps offloaded bodies out of memory without changing the caller\'s record', () => {
+    const live = record('big', largeBody);
+    store.add(live);
+    store.flush();
+
+    assert.equal(live.request.body, largeBody);
+    const listed = store.getAll().find((r) => r.id === 'big')!;
+    assert.equal(listed.request.body, undefined);
+    assert.equal(listed.request.bodyOffloaded, true);
+    assert.equal(store.getById('big')?.request.body, largeBody);
+    assert.equal(fs.readFileSync(path.join(sessionDir(), 'bodies', 'big.request'), 'utf-8'), largeBody);
+  });
+
+  it('updates the session index only when the session changes', () => {
+    store.flush();
+    const session = readIndex().sessions.find((s) => s.id === store.listSessions().activeSessionId)!;
+    assert.equal(session.recordCount, 3);
+
+    // 内容不变的更新（例如重复通知）不改动 index.json
+    store.add(store.getById('b')!);
+    store.flush();
+    assert.equal(readIndex().sessions.find((s) => s.id === session.id)?.updatedAt, session.updatedAt);
+  });
+
+  it('keeps imported records in memory only', () => {
+    const before = logLines().length;
+    store.addImported([{ ...record('har-1'), imported: true }, { ...record('har-2'), imported: true }]);
+    store.flush();
+
+    assert.deepEqual(store.getAll().slice(0, 2).map((r) => r.id), ['har-2', 'har-1']);
+    assert.equal(store.filter({ search: 'har-1' })[0]?.id, 'har-1');
+    assert.equal(store.getById('har-1')?.imported, true);
+    assert.equal(store.getCount(), 3);
+    assert.equal(logLines().length, before);
+    assert.equal(readIndex().sessions.find((s) => s.id === store.listSessions().activeSessionId)?.recordCount, 3);
+
+    store.clear();
+    assert.equal(store.getById('har-1'), undefined);
+  });
+});